@@ -1,147 +1,252 @@
 import "dotenv/config";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { OpenAI } from "openai";
-
-type ChunkMeta = {
-  source: string; // e.g. docs/api.md
-  heading: string; // e.g. 認証（API）
-  part: number;
-};
+import { parseArgs } from "node:util";
+import {
+  ANN_MIN_CHUNKS,
+  CollectionManager,
+  DEFAULT_CHUNKER_OPTIONS,
+  DEFAULT_INDEX_FILE,
+  LEGACY_INDEX_FILE,
+  assembleChunks,
+  assertUniqueIds,
+  assignChunkIds,
+  buildAliases,
+  createEmbeddingProvider,
+  createLoaderRegistry,
+  expandGlobs,
+  loadDocument,
+  loadIndexFile,
+  loaderFor,
+  planIncrementalBuild,
+  providerForModel,
+  writeIndex,
+  type ChunkerOptions,
+  type CollectionConfig,
+  type EmbeddingProvider,
+  type IndexedChunk,
+  type IndexFile,
+  type LoaderRegistry,
+  type PendingChunk,
+  type VectorDType,
+} from "../src/retrieval/index.js";
+
+// .md / .txt / .html / OpenAPI（.yaml / .yml / .json）/ .ts（ドキュメントコメント）を読む
+// 形式の追加は src/retrieval/loaders.ts の DEFAULT_LOADERS に登録する
+// 対象ファイルは collections.config.json の sources（glob）で決まる
+
+/** sources に一致し、かつローダーが登録されている拡張子のファイルだけを拾う */
+async function listDocumentFiles(
+  sources: string[],
+  registry: LoaderRegistry
+): Promise<string[]> {
+  return (await expandGlobs(sources)).filter((f) => loaderFor(registry, f));
+}
 
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
+// npm run build:index -- --provider local
+// （未指定ならコレクションの embeddingModel、EMBEDDING_PROVIDER、openai の順）
+// --collection payments で指定コレクションだけ、--all で全コレクションを作る（既定は defaultCollection）
+// --full を付けると前回インデックスを無視して全件埋め込み直す
+// --max-chars / --overlap（または CHUNK_MAX_CHARS / CHUNK_OVERLAP）でチャンクサイズを変更
+// --dtype int8 でベクトルを int8 量子化して保存（既定 float32）
+// --ann on|off|auto で IVF（近似最近傍）を作るか選ぶ（auto は ANN_MIN_CHUNKS 件以上で作成）
+// --nlist で IVF のクラスタ数を指定（既定 sqrt(チャンク数)）
+type BuildOptions = {
+  provider: string | undefined;
+  full: boolean;
+  chunker: ChunkerOptions;
+  dtype: VectorDType;
+  ann: "on" | "off" | "auto";
+  nlist: number | undefined;
 };
 
-const DOCS_DIR = path.resolve("docs");
-const OUT_DIR = path.resolve("artifacts");
-const OUT_FILE = path.join(OUT_DIR, "index.json");
-
-// Embedding modelは環境で変わる可能性があるので、ここだけ差し替えればOK
-const EMBEDDING_MODEL = "text-embedding-3-large";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-async function listMarkdownFiles(dir: string): Promise<string[]> {
-  const out: string[] = [];
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-  for (const e of entries) {
-    const full = path.join(dir, e.name);
-    if (e.isDirectory()) out.push(...(await listMarkdownFiles(full)));
-    else if (e.isFile() && e.name.toLowerCase().endsWith(".md")) out.push(full);
+function parseCliArgs(): BuildOptions & {
+  collection: string | undefined;
+  all: boolean;
+} {
+  const { values } = parseArgs({
+    options: {
+      collection: { type: "string" },
+      all: { type: "boolean", default: false },
+      provider: { type: "string" },
+      full: { type: "boolean", default: false },
+      "max-chars": { type: "string" },
+      overlap: { type: "string" },
+      dtype: { type: "string", default: "float32" },
+      ann: { type: "string", default: "auto" },
+      nlist: { type: "string" },
+    },
+  });
+  if (values.ann !== "on" && values.ann !== "off" && values.ann !== "auto") {
+    throw new Error(`--ann は on / off / auto のいずれか: ${values.ann}`);
   }
-  return out.sort();
-}
-
-function splitByHeadings(
-  md: string
-): Array<{ heading: string; content: string }> {
-  const lines = md.split(/\r?\n/);
-  const blocks: Array<{ heading: string; content: string }> = [];
-  let currentHeading = "（先頭）";
-  let buf: string[] = [];
-
-  const headingRe = /^(#{1,6})\s+(.*)$/;
-
-  const flush = () => {
-    const content = buf.join("\n").trim();
-    if (content) blocks.push({ heading: currentHeading, content });
-    buf = [];
-  };
-
-  for (const line of lines) {
-    const m = line.match(headingRe);
-    if (m) {
-      flush();
-      currentHeading = m[2].trim();
-    } else {
-      buf.push(line);
-    }
+  if (values.dtype !== "float32" && values.dtype !== "int8") {
+    throw new Error(`--dtype は float32 / int8 のいずれか: ${values.dtype}`);
   }
-  flush();
-  return blocks;
+  const maxChars = values["max-chars"] ?? process.env.CHUNK_MAX_CHARS;
+  const overlap = values.overlap ?? process.env.CHUNK_OVERLAP;
+  return {
+    collection: values.collection,
+    all: values.all,
+    provider: values.provider,
+    full: values.full,
+    chunker: {
+      maxChars: maxChars ? Number(maxChars) : DEFAULT_CHUNKER_OPTIONS.maxChars,
+      overlap: overlap ? Number(overlap) : DEFAULT_CHUNKER_OPTIONS.overlap,
+    },
+    dtype: values.dtype,
+    ann: values.ann,
+    nlist: values.nlist ? Number(values.nlist) : undefined,
+  };
 }
 
-function chunkText(text: string, maxChars = 1500, overlap = 150): string[] {
-  const normalized = text.replace(/\n{3,}/g, "\n\n").trim();
-  if (normalized.length <= maxChars) return [normalized];
-
-  const chunks: string[] = [];
-  let start = 0;
-  while (start < normalized.length) {
-    const end = Math.min(normalized.length, start + maxChars);
-    chunks.push(normalized.slice(start, end));
-    if (end === normalized.length) break;
-    start = Math.max(0, end - overlap);
+function providerFor(
+  collection: CollectionConfig,
+  provider: string | undefined
+): EmbeddingProvider {
+  // --provider を明示したときはそれを優先（ローカルで試す用途）
+  if (provider) return createEmbeddingProvider(provider);
+  if (collection.embeddingModel) {
+    return providerForModel(collection.embeddingModel);
   }
-  return chunks;
+  return createEmbeddingProvider(process.env.EMBEDDING_PROVIDER);
 }
 
-async function embedBatch(texts: string[]): Promise<number[][]> {
-  const resp = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: texts,
-  });
-  return resp.data.map((d) => d.embedding as number[]);
-}
-
-async function main() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY が未設定です（.env を確認してください）");
+async function buildCollection(
+  collection: CollectionConfig,
+  options: BuildOptions
+) {
+  const { full, chunker, dtype, ann, nlist } = options;
+  const provider = providerFor(collection, options.provider);
+  const indexFile = path.resolve(collection.indexFile);
+  console.log(`collection: ${collection.name}`);
+  console.log(`embedding model: ${provider.model}`);
+
+  const registry = createLoaderRegistry();
+  const files = await listDocumentFiles(collection.sources, registry);
+  if (files.length === 0) {
+    throw new Error(
+      `${collection.sources.join(
+        ", "
+      )} に対応形式のファイルが見つかりません（${[...registry.keys()].join(
+        ", "
+      )}）`
+    );
   }
 
-  await fs.mkdir(OUT_DIR, { recursive: true });
+  const chunks: PendingChunk[] = [];
+  const perLoader = new Map<string, number>();
 
-  const files = await listMarkdownFiles(DOCS_DIR);
-  if (files.length === 0) throw new Error("docs/ に .md が見つかりません");
+  for (const rel of files) {
+    const content = await fs.readFile(rel, "utf-8");
 
-  const chunks: Omit<IndexedChunk, "embedding">[] = [];
-
-  for (const file of files) {
-    const rel = path.relative(process.cwd(), file).replace(/\\/g, "/");
-    const md = await fs.readFile(file, "utf-8");
-    const blocks = splitByHeadings(md);
-
-    for (const b of blocks) {
-      const parts = chunkText(b.content);
-      for (let i = 0; i < parts.length; i++) {
-        const id = `${rel}::${b.heading}::${i}`;
-        chunks.push({
-          id,
-          text: parts[i],
-          meta: { source: rel, heading: b.heading, part: i },
-        });
-      }
+    const fileChunks = loadDocument(registry, rel, content, chunker);
+    if (!fileChunks) {
+      console.warn(
+        `skip: ${rel}（${
+          loaderFor(registry, rel)?.name
+        } の対象外か解析できません）`
+      );
+      continue;
     }
+    const name = loaderFor(registry, rel)!.name;
+    perLoader.set(name, (perLoader.get(name) ?? 0) + fileChunks.length);
+    chunks.push(...assignChunkIds(fileChunks));
   }
 
+  console.log(
+    `loaders: ${[...perLoader].map(([n, c]) => `${n}=${c}`).join(" ")}`
+  );
   console.log(`chunks: ${chunks.length}`);
+  assertUniqueIds(chunks);
+
+  // --full でも aliases を引き継ぐため前回インデックスは読む（埋め込みは流用しない）
+  // 旧形式の index.json しか無ければそれを読む（= 再埋め込み無しで format 2 へ移行）
+  const previous = await loadIndexFile(indexFile);
+  const plan = planIncrementalBuild(
+    full ? undefined : previous,
+    provider.model,
+    chunks
+  );
+  const pending = plan.toEmbed;
 
-  const indexed: IndexedChunk[] = [];
+  const embedded: IndexedChunk[] = [];
   const batchSize = 64;
 
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    const batch = chunks.slice(i, i + batchSize);
-    const embeddings = await embedBatch(batch.map((c) => c.text));
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    const embeddings = await provider.embed(batch.map((c) => c.text));
 
     for (let j = 0; j < batch.length; j++) {
-      indexed.push({ ...batch[j], embedding: embeddings[j] });
+      embedded.push({ ...batch[j]!, embedding: embeddings[j]! });
     }
 
     console.log(
-      `embedded: ${Math.min(i + batchSize, chunks.length)}/${chunks.length}`
+      `embedded: ${Math.min(i + batchSize, pending.length)}/${pending.length}`
     );
   }
 
-  await fs.writeFile(
-    OUT_FILE,
-    JSON.stringify({ model: EMBEDDING_MODEL, chunks: indexed }, null, 2),
-    "utf-8"
+  const { added, updated, removed, reused } = plan.summary;
+  console.log(
+    `summary: added=${added} updated=${updated} removed=${removed} reused=${reused}`
+  );
+
+  const indexed = assembleChunks(plan, embedded);
+  const aliases = buildAliases(previous, indexed);
+  console.log(`aliases: ${Object.keys(aliases).length}`);
+
+  const out: IndexFile = {
+    model: provider.model,
+    collection: collection.name,
+    builtAt: new Date().toISOString(),
+    chunker,
+    chunks: indexed,
+    aliases,
+  };
+  const useAnn =
+    ann === "on" || (ann === "auto" && indexed.length >= ANN_MIN_CHUNKS);
+  const written = await writeIndex(
+    indexFile,
+    out,
+    dtype,
+    useAnn ? { ...(nlist && { nlist }) } : undefined
+  );
+  console.log(`written: ${written.metaFile}`);
+  console.log(
+    `written: ${written.vectorsFile} (${dtype}, ${written.bytes} bytes)`
   );
-  console.log(`written: ${OUT_FILE}`);
+  if (written.annFile) {
+    console.log(`written: ${written.annFile} (ivf, nlist=${written.nlist})`);
+  } else if (ann === "auto") {
+    console.log(
+      `ann: skipped（chunks=${indexed.length} < ${ANN_MIN_CHUNKS}、全件走査で検索します）`
+    );
+  }
+
+  if (indexFile !== DEFAULT_INDEX_FILE) return;
+  try {
+    await fs.access(LEGACY_INDEX_FILE);
+    console.log(
+      `note: 旧形式の ${path.relative(
+        process.cwd(),
+        LEGACY_INDEX_FILE
+      )} は読み込まれなくなったので削除して構いません`
+    );
+  } catch {
+    // 旧形式が無ければ何もしない
+  }
+}
+
+async function main() {
+  const { collection, all, ...options } = parseCliArgs();
+  const collections = await CollectionManager.load();
+  const names = all
+    ? collections.names()
+    : [collection ?? collections.defaultName];
+
+  for (const name of names) {
+    await buildCollection(collections.get(name), options);
+  }
 }
 
 main().catch((e) => {
@@ -1,203 +1,180 @@
 import "dotenv/config";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { OpenAI } from "openai";
-
-type ChunkMeta = { source: string; heading: string; part: number };
-
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
-};
-
-type IndexFile = {
-  model: string;
-  chunks: IndexedChunk[];
-};
-
-const INDEX_FILE = path.resolve("artifacts/index.json");
-
-// 置き場所が違う場合はここを修正
-const QUESTIONS_FILE_CANDIDATES = [
-  path.resolve("evaluation_questions.md"),
-  path.resolve("docs/evaluation_questions.md"),
-  path.resolve("artifacts/evaluation_questions.md"),
-];
+import { parseArgs } from "node:util";
+import {
+  CollectionManager,
+  DEFAULT_ANN_NPROBE,
+  DEFAULT_EVAL_RUNS_DIR,
+  DEFAULT_HYBRID_ALPHA,
+  DEFAULT_RANKING_FILE,
+  EVAL_FILE_DIRS,
+  IvfIndex,
+  QUERY_EXPANSIONS,
+  Retriever,
+  breadcrumb,
+  compareRuns,
+  createQueryRewriters,
+  expandQuery,
+  findEvalFile,
+  findRegressions,
+  formatComparison,
+  loadEvalRun,
+  loadGlossary,
+  normalize,
+  parseGroundTruthMap,
+  parseQuestions,
+  previewText,
+  resolveEvalRun,
+  resolveIndexFile,
+  resolveTarget,
+  scoreRanking,
+  sharedQueryCache,
+  summarizeEval,
+  vectorTopK,
+  writeEvalRun,
+  type EvalQuestionResult,
+  type EvalRun,
+  type EvalSummary,
+  type GroundTruthTarget,
+  type RankingMetrics,
+} from "../src/retrieval/index.js";
 
 const OUT_DIR = path.resolve("artifacts");
 const OUT_FILE = path.join(OUT_DIR, "eval_phase1.md");
 
 const TOP_K = 5;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
+function rel(file: string): string {
+  return path.relative(process.cwd(), file).replace(/\\/g, "/");
 }
 
-function norm(a: number[]) {
-  return Math.sqrt(dot(a, a));
+async function findQuestionsFile(): Promise<string> {
+  const found = await findEvalFile("evaluation_questions.md");
+  if (found) return found;
+  throw new Error(
+    `evaluation_questions.md が見つかりません（${EVAL_FILE_DIRS.join(
+      " / "
+    )} を探しました）`
+  );
 }
 
-function cosineSim(a: number[], b: number[]) {
-  const na = norm(a);
-  const nb = norm(b);
-  if (na === 0 || nb === 0) return 0;
-  return dot(a, b) / (na * nb);
+/**
+ * ANN（IVF）の recall@K を全件走査と比べる。
+ * インデックスに IVF が無ければ（小さいコーパス）その場で作って測る。
+ */
+function annBenchmark(retriever: Retriever, queries: number[][]): string {
+  const { vectors } = retriever.index;
+  const built = !retriever.index.ann;
+  const ivf = retriever.index.ann ?? IvfIndex.build(vectors);
+  const k = Math.min(TOP_K, vectors.count);
+
+  let recall = 0;
+  let exactMs = 0;
+  let annMs = 0;
+  let scanned = 0;
+  for (const qEmb of queries) {
+    const q = normalize(qEmb);
+    let t = performance.now();
+    const exact = vectorTopK(vectors, q, k);
+    exactMs += performance.now() - t;
+    t = performance.now();
+    const approx = vectorTopK(vectors, q, k, ivf);
+    annMs += performance.now() - t;
+    scanned += ivf.candidates(q).length;
+    const truth = new Set(exact);
+    recall += approx.filter((i) => truth.has(i)).length / k;
+  }
+  const n = queries.length;
+  return (
+    `## ANN ベンチマーク（ベクトルのみ・全件走査との比較）\n\n` +
+    `- ivf: nlist=${ivf.nlist} nprobe=${
+      DEFAULT_ANN_NPROBE || `auto(${Math.ceil(ivf.nlist / 4)})`
+    }${built ? "（インデックスに無いため評価用にメモリ上で構築）" : ""}\n` +
+    `- recall@${k}: ${(recall / n).toFixed(3)}\n` +
+    `- scanned: ${(scanned / n / vectors.count).toFixed(
+      3
+    )}（走査したチャンクの割合）\n` +
+    `- latency(avg): exact=${(exactMs / n).toFixed(3)}ms ann=${(
+      annMs / n
+    ).toFixed(3)}ms\n`
+  );
 }
 
-async function embedQuery(q: string, model: string): Promise<number[]> {
-  const resp = await openai.embeddings.create({
-    model,
-    input: [q],
-  });
-  return resp.data[0].embedding as number[];
+function formatTarget(t: GroundTruthTarget): string {
+  return [t.source, ...t.headingPath].join(" > ");
 }
 
-// 一次情報優先
-function sourceWeight(source: string): number {
-  if (source === "docs/api.md") return 1.35;
-  if (source === "docs/architecture.md") return 1.05;
-  if (source === "docs/overview.md") return 1.05;
-  if (source === "docs/faq.md") return 0.95;
-  return 1.0;
+function formatMetrics(m: RankingMetrics): string {
+  return (
+    `hit@${TOP_K}=${m.hit} recall@${TOP_K}=${m.recall.toFixed(2)} ` +
+    `RR=${m.reciprocalRank.toFixed(3)} nDCG@${TOP_K}=${m.ndcg.toFixed(3)}`
+  );
 }
 
-// 質問意図に合わせて見出しを優先
-function headingWeight(heading: string, query: string): number {
-  const h = heading;
-
-  // リトライ系
-  if (query.includes("リトライ")) {
-    if (h.includes("リトライ")) return 1.35;
-    if (h.includes("バックオフ")) return 1.25;
-    if (h.includes("POST /v1/orders")) return 1.05;
-  }
-
-  // 認証系
-  if (query.includes("認証")) {
-    if (h.includes("OAuth") || h.includes("認証")) return 1.25;
-  }
-
-  // レート制限系
-  if (query.includes("レート") || query.includes("制限")) {
-    if (h.includes("レート")) return 1.25;
-  }
-
-  // ステータス遷移系
-  if (query.includes("遷移") || query.includes("ステータス")) {
-    if (h.includes("遷移")) return 1.25;
-    if (h.includes("PATCH")) return 1.05;
-  }
-
-  // 監査・ログ系
-  if (query.includes("監査") || query.includes("ログ")) {
-    if (h.includes("監査")) return 1.25;
-    if (h.includes("可観測") || h.includes("Observability")) return 1.1;
-  }
-
-  // イベント/Kafka系
-  if (query.includes("イベント") || query.includes("Kafka")) {
-    if (h.includes("イベント")) return 1.25;
-    if (h.includes("Kafka")) return 1.2;
-  }
-
-  // DB系
-  if (
-    query.includes("DB") ||
-    query.includes("データベース") ||
-    query.includes("正")
-  ) {
-    if (
-      h.includes("PostgreSQL") ||
-      h.includes("データ設計") ||
-      h.includes("Database")
-    )
-      return 1.2;
-  }
-
-  // 返金/キャンセル権限系
-  if (
-    query.includes("返金") ||
-    query.includes("キャンセル") ||
-    query.includes("ロール") ||
-    query.includes("権限")
-  ) {
-    if (h.includes("ロール") || h.includes("権限") || h.includes("監査"))
-      return 1.15;
-    if (h.includes("FAQ") || h.startsWith("Q")) return 1.05; // FAQでも拾えるよう軽く
-  }
-
-  return 1.0;
+function fmt(n: number | null): string {
+  return n === null ? "-" : n.toFixed(3);
 }
 
-async function findQuestionsFile(): Promise<string> {
-  for (const f of QUESTIONS_FILE_CANDIDATES) {
-    try {
-      await fs.access(f);
-      return f;
-    } catch {
-      // continue
-    }
-  }
-  throw new Error(
-    `evaluation_questions.md が見つかりません。候補: \n- ${QUESTIONS_FILE_CANDIDATES.join(
-      "\n- "
-    )}\n` +
-      `ファイル位置に合わせて QUESTIONS_FILE_CANDIDATES を修正してください。`
+/** 全体の集計と設問ごとの一覧（Markdown の先頭に差し込む） */
+function summarySection(
+  results: EvalQuestionResult[],
+  summary: EvalSummary
+): string {
+  const rows = results.flatMap(({ index, metrics: m }) =>
+    m
+      ? [
+          `| Q${index} | ${m.hit ? "✅" : "❌"} | ${m.recall.toFixed(
+            2
+          )} | ${m.reciprocalRank.toFixed(3)} | ${m.ndcg.toFixed(3)} |`,
+        ]
+      : []
+  );
+  return (
+    `## 集計（ground truth による自動判定）\n\n` +
+    `- scored: ${summary.scored}/${summary.questions}\n` +
+    `- hit@${TOP_K}: ${fmt(summary.hitAtK)}\n` +
+    `- recall@${TOP_K}: ${fmt(summary.recallAtK)}\n` +
+    `- MRR@${TOP_K}: ${fmt(summary.mrr)}\n` +
+    `- nDCG@${TOP_K}: ${fmt(summary.ndcgAtK)}\n\n` +
+    `| Q | hit@${TOP_K} | recall@${TOP_K} | RR | nDCG@${TOP_K} |\n` +
+    `| --- | :-: | --: | --: | --: |\n` +
+    `${rows.join("\n")}\n`
   );
-}
-
-function parseQuestions(md: string): string[] {
-  // 1) 先頭の "1. xxx" / "1) xxx" / "- xxx" みたいなのを拾う
-  const lines = md.split(/\r?\n/).map((l) => l.trim());
-  const qs: string[] = [];
-
-  for (const line of lines) {
-    if (!line) continue;
-
-    const m1 = line.match(/^\d+[\.\)]\s*(.+)$/); // 1. / 1)
-    if (m1?.[1]) {
-      qs.push(m1[1].trim());
-      continue;
-    }
-
-    const m2 = line.match(/^[-*]\s+(.+)$/); // - / *
-    if (m2?.[1]) {
-      qs.push(m2[1].trim());
-      continue;
-    }
-
-    // "Q1: xxx" 形式も許容
-    const m3 = line.match(/^Q\d+[:：]\s*(.+)$/i);
-    if (m3?.[1]) {
-      qs.push(m3[1].trim());
-      continue;
-    }
-  }
-
-  // 2) それでも取れない場合、本文中の "?" を含む行を拾う（保険）
-  if (qs.length === 0) {
-    for (const line of lines) {
-      if (line.includes("?") || line.includes("？")) qs.push(line);
-    }
-  }
-
-  return qs;
 }
 
 async function main() {
-  if (!process.env.OPENAI_API_KEY)
-    throw new Error("OPENAI_API_KEY が未設定です（.env を確認）");
-
   await fs.mkdir(OUT_DIR, { recursive: true });
 
-  const indexRaw = await fs.readFile(INDEX_FILE, "utf-8");
-  const index = JSON.parse(indexRaw) as IndexFile;
+  // npm run eval -- --collection payments（既定は defaultCollection）
+  // npm run eval -- --ground-truth path/to/map.md（既定は docs/ground_truth_map.md など）
+  // npm run eval -- --baseline latest（または実行結果の JSON）
+  //   recall@k が全体か設問のどれかで baseline を下回ったら exit 1（--tolerance で許容幅）
+  // npm run eval -- --expand glossary（llm なら LLM の言い換えも足す。既定は none）
+  const { values } = parseArgs({
+    options: {
+      collection: { type: "string" },
+      "ground-truth": { type: "string" },
+      baseline: { type: "string" },
+      tolerance: { type: "string", default: "0" },
+      expand: { type: "string", default: "none" },
+    },
+  });
+  const tolerance = Number(values.tolerance);
+  if (!(tolerance >= 0)) {
+    throw new Error(`--tolerance は 0 以上の数値: ${values.tolerance}`);
+  }
+  const expansion = QUERY_EXPANSIONS.find((e) => e === values.expand);
+  if (!expansion) {
+    throw new Error(
+      `--expand は ${QUERY_EXPANSIONS.join(" / ")} のいずれか: ${values.expand}`
+    );
+  }
+  const rewriters = createQueryRewriters(expansion, await loadGlossary());
+  const collections = await CollectionManager.load();
+  const collection = collections.get(values.collection);
+  const retriever = await collections.retriever(collection.name);
+  const indexFile = await resolveIndexFile(path.resolve(collection.indexFile));
 
   const qFile = await findQuestionsFile();
   const qRaw = await fs.readFile(qFile, "utf-8");
@@ -208,64 +185,208 @@ async function main() {
       "質問が1件も抽出できませんでした。evaluation_questions.md の形式を確認してください。"
     );
 
+  // 明示したファイルが無いのはエラー、既定の候補が無いだけなら手動判定に戻す
+  const gtFile = values["ground-truth"]
+    ? path.resolve(values["ground-truth"])
+    : await findEvalFile("ground_truth_map.md");
+  const groundTruth = gtFile
+    ? parseGroundTruthMap(await fs.readFile(gtFile, "utf-8"))
+    : [];
+  if (gtFile && groundTruth.length === 0) {
+    throw new Error(`${rel(gtFile)} から正解が1件も読めませんでした`);
+  }
+
   const header =
     `# フェーズ1 自動評価結果\n\n` +
-    `- questions_file: ${path
-      .relative(process.cwd(), qFile)
-      .replace(/\\/g, "/")}\n` +
-    `- index_file: ${path
-      .relative(process.cwd(), INDEX_FILE)
-      .replace(/\\/g, "/")}\n` +
-    `- embedding_model: ${index.model}\n` +
-    `- top_k: ${TOP_K}\n\n` +
-    `> 判定（OK/NG）はこのファイル上で手作業で付ける想定（次フェーズで ground_truth_map による自動判定も可能）\n\n`;
+    `- questions_file: ${rel(qFile)}\n` +
+    `- ground_truth_file: ${gtFile ? rel(gtFile) : "なし（手動判定）"}\n` +
+    `- collection: ${collection.name}\n` +
+    `- index_file: ${rel(indexFile)}\n` +
+    `- ranking_config: ${rel(
+      collection.rankingFile ?? DEFAULT_RANKING_FILE
+    )}\n` +
+    `- embedding_model: ${retriever.model}\n` +
+    `- top_k: ${TOP_K}\n` +
+    `- hybrid_alpha: ${DEFAULT_HYBRID_ALPHA}\n` +
+    `- query_expansion: ${expansion}\n` +
+    `- ann: ${
+      retriever.index.ann
+        ? `ivf (nlist=${retriever.index.ann.nlist})`
+        : "なし（全件走査）"
+    }\n\n` +
+    (gtFile
+      ? `> 判定は ground_truth_map の根拠（ファイル > 見出し）に当たるチャンクが top ${TOP_K} に入ったかで自動で付ける\n\n`
+      : `> ground_truth_map が無いため、判定（OK/NG）はこのファイル上で手作業で付ける\n\n`);
 
   const sections: string[] = [header];
+  const queryEmbeddings: number[][] = [];
+  const results: EvalQuestionResult[] = [];
 
   for (let qi = 0; qi < questions.length; qi++) {
-    const q = questions[qi];
+    const q = questions[qi]!;
 
     console.log(`evaluating ${qi + 1}/${questions.length}: ${q}`);
 
-    const qEmb = await embedQuery(q, index.model);
-
-    const scored = index.chunks
-      .map((c) => {
-        const score = cosineSim(qEmb, c.embedding);
-        const weighted =
-          score *
-          sourceWeight(c.meta.source) *
-          headingWeight(c.meta.heading, q);
-        return { chunk: c, score, weighted };
-      })
-      .sort((a, b) => b.weighted - a.weighted)
-      .slice(0, TOP_K);
+    // ANN ベンチマークでも使うので埋め込みは 1 回だけ
+    const qEmb = await retriever.embedQuery(q);
+    queryEmbeddings.push(qEmb);
+    // 言い換えがあれば search で融合する（元のクエリの埋め込みはキャッシュから）
+    const queries = await expandQuery(q, rewriters);
+    const hits =
+      queries.length > 1
+        ? await retriever.search(q, {
+            topK: TOP_K,
+            expansions: queries.map((v) => v.query),
+          })
+        : retriever.score(q, qEmb).slice(0, TOP_K);
+
+    // 表の # 列と質問の並び順（1 始まり）で対応付ける
+    const entry = groundTruth.find((e) => e.index === qi + 1);
+    const targets =
+      entry?.targets.map((t) => resolveTarget(retriever.chunks, t)) ?? [];
+    for (const t of targets.filter((t) => !t.resolved)) {
+      console.warn(
+        `warn: Q${qi + 1} の根拠がインデックスに見つかりません: ${formatTarget(
+          t.target
+        )}`
+      );
+    }
+    const metrics = entry
+      ? scoreRanking(
+          hits.map((h) => h.chunk),
+          targets
+        )
+      : undefined;
 
     sections.push(`## Q${qi + 1}. ${q}\n`);
-    sections.push(`- ✅判定: （OK / NG）\n`);
-    sections.push(`- メモ:\n\n`);
+    if (queries.length > 1) {
+      sections.push(
+        `- 言い換え: ${queries
+          .slice(1)
+          .map((v) => `${v.query}（${v.source}）`)
+          .join(" / ")}\n`
+      );
+    }
+    if (metrics) {
+      sections.push(
+        `- 判定: ${metrics.hit ? "✅ OK" : "❌ NG"}\n` +
+          `- 正解: ${targets
+            .map(
+              (t) =>
+                formatTarget(t.target) + (t.resolved ? "" : "（見つからない）")
+            )
+            .join(" ＋ ")}\n` +
+          `- 指標: ${formatMetrics(metrics)}\n\n`
+      );
+    } else {
+      sections.push(`- ✅判定: （OK / NG）\n`);
+      sections.push(`- メモ:\n\n`);
+    }
 
-    for (let i = 0; i < scored.length; i++) {
-      const { chunk, score, weighted } = scored[i];
-      const preview = chunk.text.replace(/\s+/g, " ").slice(0, 240);
+    hits.forEach(({ rank, chunk, score, weighted, fused, breakdown }, i) => {
+      const matched = metrics?.matches[i] ?? [];
+      const preview = previewText(chunk.text, 240);
       sections.push(
-        `### Top ${i + 1}\n` +
+        `### Top ${rank}${matched.length ? " ✅" : ""}\n` +
           `- weighted: ${weighted.toFixed(4)}\n` +
           `- score: ${score.toFixed(4)}\n` +
+          `- fused: ${fused.toFixed(5)}\n` +
+          `- weights: source=${breakdown.sourceWeight} heading=${breakdown.headingWeight}\n` +
+          `- bm25: ${breakdown.bm25.toFixed(3)} (vector_rank=${
+            breakdown.vectorRank ?? "-"
+          } lexical_rank=${breakdown.lexicalRank ?? "-"})\n` +
           `- source: ${chunk.meta.source}\n` +
           `- heading: ${chunk.meta.heading}\n` +
+          `- path: ${breadcrumb(chunk.meta)}\n` +
           `- part: ${chunk.meta.part}\n` +
           `- preview: ${preview}${chunk.text.length > 240 ? "..." : ""}\n`
       );
-    }
+    });
 
     sections.push("\n---\n");
+
+    results.push({
+      index: qi + 1,
+      question: q,
+      groundTruth: targets.map((t) => ({ ...t.target, resolved: t.resolved })),
+      metrics: metrics
+        ? {
+            hit: metrics.hit,
+            recall: metrics.recall,
+            reciprocalRank: metrics.reciprocalRank,
+            ndcg: metrics.ndcg,
+          }
+        : null,
+      hits: hits.map(({ rank, chunk, fused }, i) => ({
+        rank,
+        id: chunk.id,
+        path: breadcrumb(chunk.meta),
+        fused,
+        relevant: (metrics?.matches[i]?.length ?? 0) > 0,
+        targets: metrics?.matches[i] ?? [],
+      })),
+    });
   }
 
+  const summary = summarizeEval(results);
+  if (summary.scored) sections.splice(1, 0, summarySection(results, summary));
+  sections.push(annBenchmark(retriever, queryEmbeddings));
+
+  // 再現と比較のため、重み・モデル・チャンク設定も一緒に残す
+  const run: EvalRun = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    config: {
+      collection: collection.name,
+      indexFile: rel(indexFile),
+      questionsFile: rel(qFile),
+      groundTruthFile: gtFile ? rel(gtFile) : null,
+      embeddingModel: retriever.model,
+      topK: TOP_K,
+      alpha: DEFAULT_HYBRID_ALPHA,
+      ann: retriever.index.ann ? { nlist: retriever.index.ann.nlist } : null,
+      ranking: retriever.ranking,
+      chunker: retriever.index.chunker ?? null,
+      ...(expansion !== "none" && { queryExpansion: expansion }),
+    },
+    summary,
+    questions: results,
+  };
+
   await fs.writeFile(OUT_FILE, sections.join("\n"), "utf-8");
+  const runFile = await writeEvalRun(run);
+  console.log(`\nwritten: ${rel(OUT_FILE)}`);
+  console.log(`written: ${rel(runFile)}`);
+  if (summary.scored) {
+    console.log(
+      `hit@${TOP_K}=${fmt(summary.hitAtK)} recall@${TOP_K}=${fmt(
+        summary.recallAtK
+      )} MRR=${fmt(summary.mrr)} nDCG@${TOP_K}=${fmt(summary.ndcgAtK)}`
+    );
+  }
+
+  const cache = sharedQueryCache().stats();
   console.log(
-    `\nwritten: ${path.relative(process.cwd(), OUT_FILE).replace(/\\/g, "/")}`
+    `query_cache: hits=${cache.hits} disk_hits=${cache.diskHits} misses=${cache.misses}`
   );
+
+  if (values.baseline) {
+    const baseFile = await resolveEvalRun(
+      values.baseline,
+      DEFAULT_EVAL_RUNS_DIR,
+      runFile
+    );
+    const comparison = compareRuns(await loadEvalRun(baseFile), run);
+    console.log(`\nbaseline: ${rel(baseFile)}`);
+    console.log(formatComparison(comparison));
+    const regressions = findRegressions(comparison, tolerance);
+    if (regressions.length) {
+      console.error(
+        `\nregression（tolerance=${tolerance}）:\n- ${regressions.join("\n- ")}`
+      );
+      process.exitCode = 1;
+    }
+  }
 }
 
 main().catch((e) => {
@@ -0,0 +1,191 @@
+import "dotenv/config";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  CollectionManager,
+  DEFAULT_ANSWER_TOP_K,
+  EVAL_FILE_DIRS,
+  answerQuestion,
+  breadcrumb,
+  createAnswerGenerator,
+  evaluateAnswer,
+  findEvalFile,
+  parseExpectedFacts,
+  parseGroundTruthMap,
+  parseQuestions,
+  resolveTarget,
+  summarizeAnswerEval,
+  type AnswerEvaluation,
+} from "../src/retrieval/index.js";
+
+const OUT_DIR = path.resolve("artifacts");
+const OUT_FILE = path.join(OUT_DIR, "eval_answers.md");
+const OUT_JSON = path.join(OUT_DIR, "eval_answers.json");
+
+function rel(file: string): string {
+  return path.relative(process.cwd(), file).replace(/\\/g, "/");
+}
+
+function fmt(n: number | null): string {
+  return n === null ? "-" : n.toFixed(3);
+}
+
+async function requireEvalFile(name: string): Promise<string> {
+  const found = await findEvalFile(name);
+  if (found) return found;
+  throw new Error(
+    `${name} が見つかりません（${EVAL_FILE_DIRS.join(" / ")} を探しました）`
+  );
+}
+
+/**
+ * /answer と同じ経路（検索 → 根拠 → 生成）で各設問に回答させ、回答そのものを採点する。
+ *   npm run eval:answers -- --generator stub   # オフライン（既定は ANSWER_GENERATOR / openai）
+ *   - 引用【n】が実際に渡した根拠を指しているか
+ *   - expected_facts.md の必須の事実を含むか（coverage）、それが引用先に書かれているか（faithfulness）
+ *   - 正解の根拠を渡したのに「不明」と答えていないか
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      collection: { type: "string" },
+      generator: { type: "string" },
+      "top-k": { type: "string", default: String(DEFAULT_ANSWER_TOP_K) },
+    },
+  });
+  const topK = Number(values["top-k"]);
+  if (!Number.isInteger(topK) || topK < 1) {
+    throw new Error(`--top-k は 1 以上の整数: ${values["top-k"]}`);
+  }
+
+  const collections = await CollectionManager.load();
+  const collection = collections.get(values.collection);
+  const retriever = await collections.retriever(collection.name);
+  // 文面を変えたときに比べられるよう、テンプレートの版を結果に残す
+  const prompt = await collections.prompt(collection.name);
+  const generator = createAnswerGenerator(values.generator);
+
+  const qFile = await requireEvalFile("evaluation_questions.md");
+  const factsFile = await requireEvalFile("expected_facts.md");
+  const gtFile = await findEvalFile("ground_truth_map.md");
+
+  const questions = parseQuestions(await fs.readFile(qFile, "utf-8"));
+  const expected = parseExpectedFacts(await fs.readFile(factsFile, "utf-8"));
+  const groundTruth = gtFile
+    ? parseGroundTruthMap(await fs.readFile(gtFile, "utf-8"))
+    : [];
+  if (questions.length === 0) {
+    throw new Error(`${rel(qFile)} から質問が1件も抽出できませんでした`);
+  }
+
+  const sections: string[] = [];
+  const results: Array<
+    AnswerEvaluation & { index: number; question: string; answer: string }
+  > = [];
+
+  for (let qi = 0; qi < questions.length; qi++) {
+    const q = questions[qi]!;
+    console.log(`answering ${qi + 1}/${questions.length}: ${q}`);
+
+    const { answer, chunks, citations } = await answerQuestion(
+      retriever,
+      generator,
+      q,
+      { topK, prompt }
+    );
+    const targets = (
+      groundTruth.find((e) => e.index === qi + 1)?.targets ?? []
+    ).map((t) => resolveTarget(retriever.chunks, t));
+    const facts = expected.find((e) => e.index === qi + 1)?.facts ?? [];
+    const ev = evaluateAnswer({ answer, citations, chunks, facts, targets });
+    results.push({ index: qi + 1, question: q, answer, ...ev });
+
+    const flags = [
+      ev.invalidCitations.length &&
+        `⚠️ 根拠に無い引用: ${ev.invalidCitations
+          .map((n) => `【${n}】`)
+          .join("")}`,
+      ev.unknownButRetrieved && "⚠️ 正解の根拠があるのに「不明」",
+      !citations.length && !ev.saysUnknown && "⚠️ 引用なし",
+    ].filter(Boolean);
+
+    sections.push(
+      `## Q${qi + 1}. ${q}\n\n` +
+        `- coverage: ${fmt(ev.coverage)}\n` +
+        `- faithfulness: ${fmt(ev.faithfulness)}\n` +
+        `- citations: ${
+          citations.map((n) => `【${n}】`).join("") || "なし"
+        }（valid=${fmt(ev.citationValidity)}）\n` +
+        `- facts: ${
+          ev.facts
+            .map(
+              (f) =>
+                `${f.inAnswer ? (f.supported ? "✅" : "⚠️") : "❌"} ${f.label}`
+            )
+            .join(" / ") || "（未定義）"
+        }\n` +
+        (flags.length ? `- ${flags.join("\n- ")}\n` : "") +
+        `\n### 回答\n\n${answer}\n\n` +
+        `### 根拠\n\n${chunks
+          .map((c, i) => `- 【${i + 1}】${breadcrumb(c.meta)}`)
+          .join("\n")}\n\n---\n`
+    );
+  }
+
+  const summary = summarizeAnswerEval(results);
+  const header =
+    `# 回答品質の評価結果\n\n` +
+    `- questions_file: ${rel(qFile)}\n` +
+    `- expected_facts_file: ${rel(factsFile)}\n` +
+    `- ground_truth_file: ${gtFile ? rel(gtFile) : "なし"}\n` +
+    `- collection: ${collection.name}\n` +
+    `- embedding_model: ${retriever.model}\n` +
+    `- generator: ${generator.model}\n` +
+    `- prompt: ${prompt.name}（${prompt.templateVersion}）\n` +
+    `- top_k: ${topK}\n\n` +
+    `## 集計\n\n` +
+    `- coverage: ${fmt(summary.coverage)}（必須の事実を回答に含んだ割合）\n` +
+    `- faithfulness: ${fmt(
+      summary.faithfulness
+    )}（回答中の事実が引用先の根拠に書かれている割合）\n` +
+    `- citation_validity: ${fmt(summary.citationValidity)}\n` +
+    `- invalid_citation_answers: ${summary.invalidCitationAnswers}\n` +
+    `- unknown_but_retrieved: ${summary.unknownButRetrieved}\n\n` +
+    `> ✅ 回答に含まれ引用先にもある / ⚠️ 回答にあるが引用先に無い / ❌ 回答に無い\n\n`;
+
+  await fs.mkdir(OUT_DIR, { recursive: true });
+  await fs.writeFile(OUT_FILE, header + sections.join("\n"), "utf-8");
+  await fs.writeFile(
+    OUT_JSON,
+    JSON.stringify(
+      {
+        createdAt: new Date().toISOString(),
+        collection: collection.name,
+        embeddingModel: retriever.model,
+        generator: generator.model,
+        prompt: { name: prompt.name, version: prompt.templateVersion },
+        topK,
+        summary,
+        questions: results,
+      },
+      null,
+      2
+    ) + "\n",
+    "utf-8"
+  );
+  console.log(`\nwritten: ${rel(OUT_FILE)}`);
+  console.log(`written: ${rel(OUT_JSON)}`);
+  console.log(
+    `coverage=${fmt(summary.coverage)} faithfulness=${fmt(
+      summary.faithfulness
+    )} citation_validity=${fmt(
+      summary.citationValidity
+    )} unknown_but_retrieved=${summary.unknownButRetrieved}`
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_EVAL_RUNS_DIR,
+  compareRuns,
+  findRegressions,
+  formatComparison,
+  loadEvalRun,
+  resolveEvalRun,
+} from "../src/retrieval/index.js";
+
+/**
+ * eval の実行結果 2 つを設問ごとに比べる。
+ *   npm run eval:compare                         # 1 つ前 → 最新
+ *   npm run eval:compare -- base.json head.json  # latest / previous も可
+ *   npm run eval:compare -- --check              # recall@k が下がっていたら exit 1
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      check: { type: "boolean", default: false },
+      tolerance: { type: "string", default: "0" },
+    },
+  });
+  const [baseRef = "previous", headRef = "latest"] = positionals;
+  const tolerance = Number(values.tolerance);
+  if (!(tolerance >= 0)) {
+    throw new Error(`--tolerance は 0 以上の数値: ${values.tolerance}`);
+  }
+
+  const baseFile = await resolveEvalRun(baseRef);
+  const headFile = await resolveEvalRun(headRef);
+  const comparison = compareRuns(
+    await loadEvalRun(baseFile),
+    await loadEvalRun(headFile)
+  );
+
+  const rel = (f: string) =>
+    path.relative(process.cwd(), f).replace(/\\/g, "/");
+  console.log(`runs_dir: ${rel(DEFAULT_EVAL_RUNS_DIR)}`);
+  console.log(`${rel(baseFile)} → ${rel(headFile)}\n`);
+  console.log(formatComparison(comparison));
+
+  const regressions = findRegressions(comparison, tolerance);
+  if (regressions.length) {
+    console.log(`\nregression:\n- ${regressions.join("\n- ")}`);
+    if (values.check) process.exitCode = 1;
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
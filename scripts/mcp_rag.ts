@@ -1,60 +1,36 @@
 import "dotenv/config";
-import fs from "node:fs/promises";
-import path from "node:path";
-import { OpenAI } from "openai";
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-
-type ChunkMeta = { source: string; heading: string; part: number };
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
-};
-type IndexFile = { model: string; chunks: IndexedChunk[] };
-
-const INDEX_FILE = path.resolve("artifacts/index.json");
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-// ---- similarity helpers ----
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
-}
-function norm(a: number[]) {
-  return Math.sqrt(dot(a, a));
-}
-function cosineSim(a: number[], b: number[]) {
-  const na = norm(a);
-  const nb = norm(b);
-  if (na === 0 || nb === 0) return 0;
-  return dot(a, b) / (na * nb);
-}
-
-function sourceWeight(source: string): number {
-  // 一次情報を優先（必要なら調整）
-  if (source === "docs/api.md") return 1.15;
-  if (source === "docs/architecture.md") return 1.1;
-  if (source === "docs/overview.md") return 1.05;
-  if (source === "docs/faq.md") return 0.95;
-  return 1.0;
-}
-
-async function loadIndex(): Promise<IndexFile> {
-  const raw = await fs.readFile(INDEX_FILE, "utf-8");
-  return JSON.parse(raw) as IndexFile;
-}
-
-async function embedQuery(q: string, model: string): Promise<number[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not set.");
-  }
-  const resp = await openai.embeddings.create({ model, input: [q] });
-  return resp.data[0].embedding as number[];
-}
+import {
+  CollectionManager,
+  ConversationStore,
+  DEFAULT_ANSWER_TOP_K,
+  DEFAULT_MAX_TURNS,
+  DEFAULT_RERANK_CANDIDATES,
+  QUERY_EXPANSIONS,
+  RERANKERS,
+  answerConversation,
+  answerStructured,
+  breadcrumb,
+  createAnswerGenerator,
+  createQueryCondenser,
+  createQueryRewriters,
+  createReranker,
+  expandQuery,
+  loadGlossary,
+  parseFilter,
+  previewText,
+  toCitation,
+  toContextSummary,
+  toPromptSummary,
+  unsupportedLanguage,
+  type AnswerGenerator,
+  type Conversation,
+  type Glossary,
+  type QueryCondenser,
+  type QueryExpansion,
+} from "../src/retrieval/index.js";
 
 // ---- MCP server ----
 const server = new McpServer({
@@ -62,13 +38,91 @@ const server = new McpServer({
   version: "0.1.0",
 });
 
-let index: IndexFile;
+let collections: CollectionManager;
+let generator: AnswerGenerator;
+let glossary: Glossary;
+let condenser: QueryCondenser;
+// rag_chat の会話（プロセス内、CONVERSATION_TTL_SECONDS で期限切れ）
+const conversations = new ConversationStore();
+
+const collectionArg = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    "Collection name (see rag_list_collections; default: the default collection)"
+  );
+
+const expandArg = z
+  .enum(QUERY_EXPANSIONS)
+  .optional()
+  .describe(
+    "Query expansion before retrieval: glossary (synonyms from glossary.config.json, e.g. OP = オペレーター), llm (glossary + LLM paraphrases in Japanese/English). Results of all variants are fused; the variants are echoed as queries (default: none)"
+  );
+
+const contextArg = z
+  .object({
+    maxTokens: z
+      .number()
+      .int()
+      .min(256)
+      .max(100_000)
+      .optional()
+      .describe("Estimated token budget for the evidence"),
+    neighbors: z
+      .number()
+      .int()
+      .min(0)
+      .max(3)
+      .optional()
+      .describe("Adjacent parts of the same section to add around each hit"),
+    parent: z
+      .boolean()
+      .optional()
+      .describe("Also add the first part of the parent section"),
+  })
+  .optional()
+  .describe(
+    "How the evidence is assembled (same as context in POST /answer). Adjacent parts are merged; what was added, truncated or dropped is echoed as context"
+  );
+
+/** 元のクエリ + 言い換え。検索にはすべて渡す（元のクエリは search 側で重複を除く） */
+function expandFor(query: string, expansion: QueryExpansion | undefined) {
+  return expandQuery(
+    query,
+    createQueryRewriters(expansion ?? "none", glossary)
+  );
+}
+
+server.registerTool(
+  "rag_list_collections",
+  {
+    description:
+      "List available collections with embedding model, chunk count and build time.",
+    inputSchema: {},
+  },
+  async () => {
+    const list = await collections.list();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { default: collections.defaultName, collections: list },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
 
 server.registerTool(
   "rag_search",
   {
     description:
-      "Search the shared knowledge base (artifacts/index.json) and return top matches with scores.",
+      "Search a collection of the shared knowledge base and return top matches with scores.",
     inputSchema: {
       query: z.string().min(1).describe("Natural language query"),
       topK: z
@@ -78,36 +132,106 @@ server.registerTool(
         .max(20)
         .optional()
         .describe("Top K (default: 5)"),
+      alpha: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe(
+          "Hybrid weight: 1 = vector only, 0 = BM25 only (default: HYBRID_ALPHA or 0.7)"
+        ),
+      collection: collectionArg,
+      filter: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          'Metadata filter applied before ranking, e.g. "source in [docs/api.md]", "tags contains payments", "heading startswith POST"'
+        ),
+      rerank: z
+        .enum(RERANKERS)
+        .optional()
+        .describe(
+          "Second-stage reranker over the top candidates: lexical (offline query-term overlap) or llm (OpenAI scorer). Omit to keep the fused order"
+        ),
+      rerankCandidates: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe(
+          `How many top candidates to rerank (default: ${DEFAULT_RERANK_CANDIDATES}, at least topK)`
+        ),
+      expand: expandArg,
     },
   },
-  async ({ query, topK }) => {
+  async ({
+    query,
+    topK,
+    alpha,
+    collection,
+    filter,
+    rerank,
+    rerankCandidates,
+    expand,
+  }) => {
     const k = topK ?? 5;
 
-    const qEmb = await embedQuery(query, index.model);
-
-    const scored = index.chunks
-      .map((c) => {
-        const score = cosineSim(qEmb, c.embedding);
-        const weighted = score * sourceWeight(c.meta.source);
-        const preview = c.text.replace(/\s+/g, " ").slice(0, 280);
-        return {
-          id: c.id,
-          score,
-          weighted,
-          source: c.meta.source,
-          heading: c.meta.heading,
-          part: c.meta.part,
-          preview,
-        };
+    const retriever = await collections.retriever(collection);
+    const parsed = filter === undefined ? undefined : parseFilter(filter);
+    const reranker = rerank && createReranker(rerank);
+    const queries = await expandFor(query, expand);
+    const hits = (
+      await retriever.search(query, {
+        topK: k,
+        alpha,
+        filter: parsed,
+        rerank: reranker,
+        rerankCandidates,
+        expansions: queries.map((v) => v.query),
       })
-      .sort((a, b) => b.weighted - a.weighted)
-      .slice(0, k);
+    ).map(({ rank, chunk, score, weighted, fused, breakdown, rerank }) => ({
+      id: chunk.id,
+      rank,
+      score,
+      weighted,
+      fused,
+      breakdown,
+      ...(rerank && {
+        rerank: {
+          score: rerank.score,
+          preRank: rerank.preRank,
+          postRank: rank,
+        },
+      }),
+      source: chunk.meta.source,
+      heading: chunk.meta.heading,
+      part: chunk.meta.part,
+      path: breadcrumb(chunk.meta),
+      owner: chunk.meta.owner,
+      tags: chunk.meta.tags,
+      status: chunk.meta.status,
+      version: chunk.meta.version,
+      preview: previewText(chunk.text, 280),
+    }));
 
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify({ model: index.model, hits: scored }, null, 2),
+          text: JSON.stringify(
+            {
+              collection: collection ?? collections.defaultName,
+              model: retriever.model,
+              ...(parsed && { filter: parsed.expression }),
+              ...(reranker && { reranker: reranker.name }),
+              ...(expand && expand !== "none" && { queries }),
+              hits,
+            },
+            null,
+            2
+          ),
         },
       ],
     };
@@ -117,18 +241,21 @@ server.registerTool(
 server.registerTool(
   "rag_get_chunk",
   {
-    description: "Get the full chunk text (and meta) by chunk id.",
+    description:
+      "Get the full chunk text (and meta) by chunk id. Old ids are resolved via the alias table and reported as moved_to.",
     inputSchema: {
       id: z.string().min(1).describe("Chunk id (from rag_search result)"),
+      collection: collectionArg,
     },
   },
-  async ({ id }) => {
-    const hit = index.chunks.find((c) => c.id === id);
-    if (!hit) {
+  async ({ id, collection }) => {
+    const resolved = await collections.resolveChunk(id, collection);
+    if (!resolved) {
       return {
         content: [{ type: "text", text: `NOT_FOUND: ${id}` }],
       };
     }
+    const { chunk: hit, movedTo } = resolved;
     return {
       content: [
         {
@@ -136,9 +263,14 @@ server.registerTool(
           text: JSON.stringify(
             {
               id: hit.id,
+              collection: resolved.collection,
+              ...(movedTo && { moved_to: movedTo }),
               source: hit.meta.source,
               heading: hit.meta.heading,
               part: hit.meta.part,
+              path: breadcrumb(hit.meta),
+              startLine: hit.meta.startLine,
+              endLine: hit.meta.endLine,
               text: hit.text,
             },
             null,
@@ -150,8 +282,215 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  "rag_answer",
+  {
+    description:
+      "Answer a question grounded in a collection (same pipeline as POST /answer). Returns the answer text (conclusion → details → sources) plus only the chunks it actually cited.",
+    inputSchema: {
+      question: z.string().min(1).describe("Natural language question"),
+      topK: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .describe(
+          `Chunks passed to the model (default: ${DEFAULT_ANSWER_TOP_K})`
+        ),
+      collection: collectionArg,
+      filter: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Metadata filter, same syntax as rag_search"),
+      language: z
+        .string()
+        .min(1)
+        .max(32)
+        .optional()
+        .describe(
+          'Answer language code, e.g. "ja" or "en" (default: the collection prompt template language). Languages the template cannot answer in are rejected'
+        ),
+      expand: expandArg,
+      context: contextArg,
+    },
+  },
+  async ({ question, topK, collection, filter, language, expand, context }) => {
+    const retriever = await collections.retriever(collection);
+    const prompt = await collections.prompt(collection);
+    // 対応していない言語は検索の前に弾く
+    const problem = unsupportedLanguage(prompt, language);
+    if (problem) throw new Error(problem);
+    const parsed = filter === undefined ? undefined : parseFilter(filter);
+    const queries = await expandFor(question, expand);
+    const result = await answerStructured(retriever, generator, question, {
+      topK,
+      filter: parsed,
+      language,
+      prompt,
+      expansions: queries.map((v) => v.query),
+      context,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              collection: collection ?? collections.defaultName,
+              model: result.model,
+              ...(parsed && { filter: parsed.expression }),
+              ...(expand && expand !== "none" && { queries }),
+              answer: result.text,
+              conclusion: result.answer.conclusion,
+              details: result.answer.details,
+              structured: result.structured,
+              citations: result.cited.map(toCitation),
+              dropped_citations: result.droppedCitations,
+              used_context_count: result.context.length,
+              context: toContextSummary(result.contextReport),
+              prompt: toPromptSummary(result.prompt),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+server.registerTool(
+  "rag_chat",
+  {
+    description:
+      "Multi-turn version of rag_answer. Follow-up questions are rewritten into a standalone query using the conversation so far. Pass conversationId from the previous result to continue a conversation kept on the server (expires after inactivity), or pass history yourself; with neither a new conversation is started. Citations are kept per turn.",
+    inputSchema: {
+      question: z.string().min(1).describe("The (follow-up) question"),
+      conversationId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("conversation_id returned by the previous rag_chat call"),
+      history: z
+        .array(z.object({ question: z.string().min(1), answer: z.string() }))
+        .max(DEFAULT_MAX_TURNS)
+        .optional()
+        .describe(
+          "Previous turns, oldest first (instead of conversationId; not stored on the server)"
+        ),
+      topK: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .describe(
+          `Chunks passed to the model (default: ${DEFAULT_ANSWER_TOP_K})`
+        ),
+      collection: collectionArg,
+      filter: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Metadata filter, same syntax as rag_search"),
+      language: z
+        .string()
+        .min(1)
+        .max(32)
+        .optional()
+        .describe(
+          'Answer language code, e.g. "ja" or "en" (default: the collection prompt template language). Languages the template cannot answer in are rejected'
+        ),
+      context: contextArg,
+    },
+  },
+  async ({
+    question,
+    conversationId,
+    history,
+    topK,
+    collection,
+    filter,
+    language,
+    context,
+  }) => {
+    let conversation: Conversation | undefined;
+    if (conversationId) {
+      conversation = conversations.get(conversationId);
+      if (!conversation) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `CONVERSATION_NOT_FOUND: ${conversationId}（期限切れの場合は conversationId を省略して新しく始めてください）`,
+            },
+          ],
+        };
+      }
+    }
+    const turns = conversation ? [...conversation.turns] : history ?? [];
+
+    const retriever = await collections.retriever(collection);
+    const prompt = await collections.prompt(collection);
+    // 対応していない言語は検索の前に弾く
+    const problem = unsupportedLanguage(prompt, language);
+    if (problem) throw new Error(problem);
+    const parsed = filter === undefined ? undefined : parseFilter(filter);
+    const result = await answerConversation(
+      retriever,
+      generator,
+      condenser,
+      turns,
+      question,
+      { topK, filter: parsed, language, prompt, context }
+    );
+    // 会話は回答できてから作る（検索や生成で失敗した問い合わせの空の会話を残さない）
+    if (!conversation && !history) conversation = conversations.create();
+    if (conversation) conversations.append(conversation.id, result.turn);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...(conversation && { conversation_id: conversation.id }),
+              turn: turns.length + 1,
+              standalone_question: result.standaloneQuestion,
+              collection: collection ?? collections.defaultName,
+              model: result.model,
+              ...(parsed && { filter: parsed.expression }),
+              answer: result.text,
+              conclusion: result.answer.conclusion,
+              details: result.answer.details,
+              structured: result.structured,
+              citations: result.cited.map(toCitation),
+              dropped_citations: result.droppedCitations,
+              used_context_count: result.context.length,
+              context: toContextSummary(result.contextReport),
+              prompt: toPromptSummary(result.prompt),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
 async function main() {
-  index = await loadIndex();
+  // ranking.config.json を保存すると再起動なしで反映される
+  collections = await CollectionManager.load(undefined, { watchRanking: true });
+  await collections.retriever();
+  // 生成器は ANSWER_GENERATOR（openai / stub）、モデルは GEN_MODEL で切り替える
+  generator = createAnswerGenerator();
+  glossary = await loadGlossary();
+  // 続きの質問の書き直しも生成器に合わせる（stub なら直前の質問を付けるだけ）
+  condenser = createQueryCondenser();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("rag-mcp-poc MCP server running on stdio");
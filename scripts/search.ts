@@ -1,87 +1,37 @@
 import "dotenv/config";
-import fs from "node:fs/promises";
-import path from "node:path";
 import readline from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
-import { OpenAI } from "openai";
-
-type ChunkMeta = { source: string; heading: string; part: number };
-
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
-};
-
-type IndexFile = {
-  model: string;
-  chunks: IndexedChunk[];
-};
-
-const INDEX_FILE = path.resolve("artifacts/index.json");
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
-}
-
-function norm(a: number[]) {
-  return Math.sqrt(dot(a, a));
-}
-
-function cosineSim(a: number[], b: number[]) {
-  const na = norm(a);
-  const nb = norm(b);
-  if (na === 0 || nb === 0) return 0;
-  return dot(a, b) / (na * nb);
-}
-
-async function embedQuery(q: string, model: string): Promise<number[]> {
-  const resp = await openai.embeddings.create({
-    model,
-    input: [q],
-  });
-  return resp.data[0].embedding as number[];
-}
-
-function sourceWeight(source: string): number {
-  if (source === "docs/api.md") return 1.35;
-  if (source === "docs/architecture.md") return 1.05;
-  if (source === "docs/overview.md") return 1.05;
-  if (source === "docs/faq.md") return 0.95;
-  return 1.0;
-}
-
-function headingWeight(heading: string, query: string): number {
-  const q = query;
-  const h = heading;
-
-  // リトライ系
-  if (q.includes("リトライ")) {
-    if (h.includes("リトライ")) return 1.35;
-    if (h.includes("バックオフ")) return 1.25;
-    if (h.includes("POST /v1/orders")) return 1.05; // 注文作成節も少しは関連
-  }
-
-  // 認証系（今回Q1はもうOKだが例）
-  if (q.includes("認証")) {
-    if (h.includes("OAuth") || h.includes("認証")) return 1.25;
-  }
-
-  return 1.0;
-}
+import { parseArgs } from "node:util";
+import {
+  CollectionManager,
+  breadcrumb,
+  parseFilter,
+  previewText,
+} from "../src/retrieval/index.js";
 
 async function main() {
-  const raw = await fs.readFile(INDEX_FILE, "utf-8");
-  const index = JSON.parse(raw) as IndexFile;
+  // npm run search -- --collection payments（既定は defaultCollection）
+  // npm run search -- --filter "tags contains payments"（全クエリに適用）
+  const { values } = parseArgs({
+    options: {
+      collection: { type: "string" },
+      filter: { type: "string" },
+    },
+  });
+  const collections = await CollectionManager.load();
+  const retriever = await collections.retriever(values.collection);
+  const filter =
+    values.filter === undefined ? undefined : parseFilter(values.filter);
 
   const rl = readline.createInterface({ input, output });
 
-  console.log(`loaded: ${index.chunks.length} chunks`);
-  console.log(`embedding model: ${index.model}`);
+  console.log(
+    `loaded: ${retriever.chunks.length} chunks (collection: ${
+      values.collection ?? collections.defaultName
+    })`
+  );
+  console.log(`embedding model: ${retriever.model}`);
+  if (filter) console.log(`filter: ${filter.expression}`);
   console.log("Enter empty line to quit.");
 
   try {
@@ -89,29 +39,16 @@ async function main() {
       const q = (await rl.question("\nquery> ")).trim();
       if (!q) break;
 
-      const qEmb = await embedQuery(q, index.model);
-
-      const scored = index.chunks
-        .map((c) => {
-          const score = cosineSim(qEmb, c.embedding);
-          const weighted =
-            score *
-            sourceWeight(c.meta.source) *
-            headingWeight(c.meta.heading, q);
-          return { chunk: c, score, weighted };
-        })
-        .sort((a, b) => b.weighted - a.weighted)
-        .slice(0, 5);
+      const hits = await retriever.search(q, { topK: 5, filter });
 
-      for (let i = 0; i < scored.length; i++) {
-        const { chunk, score, weighted } = scored[i]; // ←ここが重要
-        const preview = chunk.text.replace(/\s+/g, " ").slice(0, 220);
+      for (const { rank, chunk, score, weighted, breakdown } of hits) {
+        const preview = previewText(chunk.text, 220);
         console.log(
-          `\n[${i + 1}] weighted=${weighted.toFixed(4)} score=${score.toFixed(
+          `\n[${rank}] weighted=${weighted.toFixed(4)} score=${score.toFixed(
             4
-          )} source=${chunk.meta.source} heading=${chunk.meta.heading} part=${
-            chunk.meta.part
-          }`
+          )} (src=${breakdown.sourceWeight} head=${
+            breakdown.headingWeight
+          }) path=${breadcrumb(chunk.meta)} part=${chunk.meta.part}`
         );
         console.log(preview + (chunk.text.length > 220 ? "..." : ""));
       }
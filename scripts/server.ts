@@ -1,142 +1,223 @@
 import "dotenv/config";
-import fs from "node:fs/promises";
-import path from "node:path";
 import Fastify from "fastify";
 import { z } from "zod";
-import { OpenAI } from "openai";
+import {
+  CollectionManager,
+  ConversationStore,
+  DEFAULT_ANSWER_TOP_K,
+  DEFAULT_MAX_TURNS,
+  QUERY_EXPANSIONS,
+  RERANKERS,
+  answerConversation,
+  answerStructured,
+  breadcrumb,
+  createAnswerGenerator,
+  createQueryCondenser,
+  createQueryRewriters,
+  createReranker,
+  expandQuery,
+  loadGlossary,
+  parseFilter,
+  previewText,
+  sharedQueryCache,
+  streamAnswer,
+  toCitation,
+  toContextSummary,
+  toPromptSummary,
+  unsupportedLanguage,
+  type Conversation,
+  type QueryExpansion,
+  type StoredChunk,
+} from "../src/retrieval/index.js";
 
-type ChunkMeta = { source: string; heading: string; part: number };
-
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
-};
-
-type IndexFile = {
-  model: string;
-  chunks: IndexedChunk[];
-};
-
-const INDEX_FILE = path.resolve("artifacts/index.json");
 const PORT = Number(process.env.PORT ?? "8787");
 
-// 生成モデル（必要なら変更）
-const GEN_MODEL = process.env.GEN_MODEL ?? "gpt-5-mini";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
-}
-function norm(a: number[]) {
-  return Math.sqrt(dot(a, a));
-}
-function cosineSim(a: number[], b: number[]) {
-  const na = norm(a);
-  const nb = norm(b);
-  if (na === 0 || nb === 0) return 0;
-  return dot(a, b) / (na * nb);
-}
-
-function sourceWeight(source: string): number {
-  if (source === "docs/api.md") return 1.35;
-  if (source === "docs/architecture.md") return 1.05;
-  if (source === "docs/overview.md") return 1.05;
-  if (source === "docs/faq.md") return 0.95;
-  return 1.0;
-}
-
-// フェーズ1で作ったものを流用（必要最低限。精密化は後でOK）
-function headingWeight(heading: string, query: string): number {
-  const h = heading;
-
-  if (query.includes("リトライ")) {
-    if (h.includes("リトライ")) return 1.35;
-    if (h.includes("バックオフ")) return 1.25;
-    if (h.includes("POST /v1/orders")) return 1.05;
-  }
-  if (query.includes("認証")) {
-    if (h.includes("OAuth") || h.includes("認証")) return 1.25;
-  }
-  return 1.0;
+function formatCitations(chunks: StoredChunk[]) {
+  return chunks.map(toCitation);
 }
 
-async function embedQuery(q: string, model: string): Promise<number[]> {
-  const resp = await openai.embeddings.create({ model, input: [q] });
-  return resp.data[0].embedding as number[];
-}
+async function main() {
+  // ranking.config.json を保存すると再起動なしで反映される
+  const collections = await CollectionManager.load(undefined, {
+    watchRanking: true,
+  });
+  // 既定コレクションは起動時に読む（インデックスが無ければここで落とす）
+  await collections.retriever();
+  // 生成器は ANSWER_GENERATOR（openai / stub）、モデルは GEN_MODEL で切り替える
+  const generator = createAnswerGenerator();
+  // クエリの言い換えに使う用語集（glossary.config.json、GLOSSARY_CONFIG で変更可）
+  const glossary = await loadGlossary();
+  const expand = async (query: string, expansion: QueryExpansion) => {
+    const queries = await expandQuery(
+      query,
+      createQueryRewriters(expansion, glossary)
+    );
+    // 元のクエリも含めて渡してよい（search 側で重複を除く）
+    return { queries, expansions: queries.map((v) => v.query) };
+  };
+  // /chat の会話（プロセス内、CONVERSATION_TTL_SECONDS で期限切れ）と続きの質問の書き直し
+  const conversations = new ConversationStore();
+  const condenser = createQueryCondenser();
 
-function formatCitations(chunks: IndexedChunk[]) {
-  // 出典はシンプルに source + heading で十分（後で行番号など拡張）
-  return chunks.map((c) => ({
-    source: c.meta.source,
-    heading: c.meta.heading,
-    part: c.meta.part,
-    id: c.id,
-  }));
-}
+  const app = Fastify({ logger: true });
 
-async function main() {
-  if (!process.env.OPENAI_API_KEY)
-    throw new Error("OPENAI_API_KEY が未設定です");
+  // Body / Query の検証エラー（filter の構文・未知の collection・language など）はクライアントの誤りなので 400
+  app.setErrorHandler((error, req, reply) => {
+    if (error instanceof z.ZodError) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", message: z.prettifyError(error) });
+    }
+    // それ以外は Fastify 既定のエラー応答のまま
+    throw error;
+  });
 
-  const raw = await fs.readFile(INDEX_FILE, "utf-8");
-  const index = JSON.parse(raw) as IndexFile;
+  const Collection = z
+    .string()
+    .min(1)
+    .refine((c) => collections.has(c), {
+      message: `collection は ${collections.names().join(" / ")} のいずれか`,
+    })
+    .optional();
+
+  // 例: "tags contains payments and source in [docs/api.md]"（構文は filter.ts）
+  const Filter = z
+    .string()
+    .min(1)
+    .transform((s, ctx) => {
+      try {
+        return parseFilter(s);
+      } catch (e) {
+        ctx.addIssue({ code: "custom", message: (e as Error).message });
+        return z.NEVER;
+      }
+    })
+    .optional();
+
+  // none = そのまま / glossary = 用語集で言い換え / llm = 用語集 + LLM で言い換え
+  const Expand = z.enum(QUERY_EXPANSIONS).default("none");
+
+  // 根拠の組み立て: 推定トークンの予算・前後の part・親セクション（context.ts）
+  const Context = z
+    .object({
+      maxTokens: z.number().int().min(256).max(100_000).optional(),
+      neighbors: z.number().int().min(0).max(3).optional(),
+      parent: z.boolean().optional(),
+    })
+    .optional();
+
+  // 回答の言語（"ja" / "en" など）。コレクションのプロンプトテンプレートに無い言語は
+  // 既定の言語の指示に「この言語で書く」を足して答える（prompts.ts）。
+  // 答えられる言語はテンプレート次第なので、テンプレートを読んでから確かめる（unsupportedLanguage）
+  const Language = z.string().min(1).max(32).optional();
+
+  // --- /collections ---
+  app.get("/collections", async (_req, reply) => {
+    return reply.send({
+      default: collections.defaultName,
+      collections: await collections.list(),
+    });
+  });
 
-  const app = Fastify({ logger: true });
+  // --- /stats ---
+  // クエリ埋め込みキャッシュの当たり具合（QUERY_CACHE_SIZE / QUERY_CACHE_DIR）
+  app.get("/stats", async (_req, reply) => {
+    return reply.send({ queryCache: sharedQueryCache().stats() });
+  });
 
   // --- /search ---
   app.post("/search", async (req, reply) => {
     const Body = z.object({
       query: z.string().min(1),
       topK: z.number().int().min(1).max(20).default(5),
+      alpha: z.number().min(0).max(1).optional(),
+      collection: Collection,
+      filter: Filter,
+      // 上位 rerankCandidates 件を 2 段目で採点し直す（lexical はオフラインで使える）
+      rerank: z.enum(RERANKERS).optional(),
+      rerankCandidates: z.number().int().min(1).max(100).optional(),
+      expand: Expand,
     });
-    const { query, topK } = Body.parse(req.body);
-
-    const qEmb = await embedQuery(query, index.model);
-
-    const hits = index.chunks
-      .map((c) => {
-        const score = cosineSim(qEmb, c.embedding);
-        const weighted =
-          score *
-          sourceWeight(c.meta.source) *
-          headingWeight(c.meta.heading, query);
-        return { chunk: c, score, weighted };
-      })
-      .sort((a, b) => b.weighted - a.weighted)
-      .slice(0, topK)
-      .map(({ chunk, score, weighted }) => ({
+    const {
+      query,
+      topK,
+      alpha,
+      collection,
+      filter,
+      rerank,
+      rerankCandidates,
+      expand: expansion,
+    } = Body.parse(req.body);
+
+    const retriever = await collections.retriever(collection);
+    const reranker = rerank && createReranker(rerank);
+    const { queries, expansions } = await expand(query, expansion);
+    const results = await retriever.search(query, {
+      topK,
+      alpha,
+      filter,
+      rerank: reranker,
+      rerankCandidates,
+      expansions,
+    });
+    const hits = results.map(
+      ({ rank, chunk, score, weighted, fused, breakdown, rerank }) => ({
         id: chunk.id,
+        rank,
         score,
         weighted,
+        fused,
+        breakdown,
+        ...(rerank && {
+          rerank: {
+            score: rerank.score,
+            preRank: rerank.preRank,
+            postRank: rank,
+          },
+        }),
         source: chunk.meta.source,
         heading: chunk.meta.heading,
         part: chunk.meta.part,
-        preview: chunk.text.replace(/\s+/g, " ").slice(0, 240),
-      }));
+        path: breadcrumb(chunk.meta),
+        owner: chunk.meta.owner,
+        tags: chunk.meta.tags,
+        status: chunk.meta.status,
+        version: chunk.meta.version,
+        preview: previewText(chunk.text, 240),
+      })
+    );
 
-    return reply.send({ model: index.model, hits });
+    return reply.send({
+      collection: collection ?? collections.defaultName,
+      model: retriever.model,
+      ...(filter && { filter: filter.expression }),
+      ...(reranker && { reranker: reranker.name }),
+      ...(expansion !== "none" && { queries }),
+      hits,
+    });
   });
 
   // --- /fetch ---
   app.get("/fetch", async (req, reply) => {
-    const Query = z.object({ id: z.string().min(1) });
-    const { id } = Query.parse(req.query);
+    // collection 省略時は既定 → 他のコレクションの順に探す
+    const Query = z.object({ id: z.string().min(1), collection: Collection });
+    const { id, collection } = Query.parse(req.query);
 
-    const found = index.chunks.find((c) => c.id === id);
-    if (!found) return reply.code(404).send({ error: "not_found" });
+    const resolved = await collections.resolveChunk(id, collection);
+    if (!resolved) return reply.code(404).send({ error: "not_found" });
+    const { chunk: found, movedTo } = resolved;
 
     return reply.send({
       id: found.id,
+      collection: resolved.collection,
+      ...(movedTo && { moved_to: movedTo }),
       text: found.text,
       source: found.meta.source,
       heading: found.meta.heading,
       part: found.meta.part,
+      path: breadcrumb(found.meta),
+      startLine: found.meta.startLine,
+      endLine: found.meta.endLine,
     });
   });
 
@@ -144,55 +225,261 @@ async function main() {
   app.post("/answer", async (req, reply) => {
     const Body = z.object({
       question: z.string().min(1),
-      topK: z.number().int().min(1).max(20).default(8),
+      topK: z.number().int().min(1).max(20).default(DEFAULT_ANSWER_TOP_K),
+      collection: Collection,
+      filter: Filter,
+      language: Language,
+      expand: Expand,
+      context: Context,
     });
-    const { question, topK } = Body.parse(req.body);
-
-    // 1) retrieve
-    const qEmb = await embedQuery(question, index.model);
-
-    const top = index.chunks
-      .map((c) => {
-        const score = cosineSim(qEmb, c.embedding);
-        const weighted =
-          score *
-          sourceWeight(c.meta.source) *
-          headingWeight(c.meta.heading, question);
-        return { chunk: c, weighted };
-      })
-      .sort((a, b) => b.weighted - a.weighted)
-      .slice(0, topK)
-      .map((x) => x.chunk);
-
-    // 2) build context
-    const context = top
-      .map((c, i) => {
-        return `【${i + 1}】source=${c.meta.source} heading=${
-          c.meta.heading
-        }\n${c.text}`;
-      })
-      .join("\n\n");
+    const {
+      question,
+      topK,
+      collection,
+      filter,
+      language,
+      expand: expansion,
+      context,
+    } = Body.parse(req.body);
+
+    // (expand →) retrieve → build context → generate（構造化出力）→ 引用の検証
+    const retriever = await collections.retriever(collection);
+    const prompt = await collections.prompt(collection);
+    const problem = unsupportedLanguage(prompt, language);
+    if (problem) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", message: problem });
+    }
+    const { queries, expansions } = await expand(question, expansion);
+    const result = await answerStructured(retriever, generator, question, {
+      topK,
+      filter,
+      language,
+      prompt,
+      expansions,
+      context,
+    });
+    if (!result.structured) {
+      req.log.warn("answer output was not valid structured JSON; fell back");
+    }
 
-    // 3) generate (Responses API)
-    const instructions =
-      "あなたは注文管理システム(OrderHub)の仕様書アシスタントです。与えられた根拠だけを使って回答してください。根拠に無いことは推測せず「不明」と言ってください。最後に参照した根拠番号（【1】など）を列挙してください。";
+    // citations は回答が実際に引用した根拠だけ（順番 = 本文の【n】）
+    return reply.send({
+      question,
+      collection: collection ?? collections.defaultName,
+      ...(filter && { filter: filter.expression }),
+      ...(expansion !== "none" && { queries }),
+      answer: result.text,
+      conclusion: result.answer.conclusion,
+      details: result.answer.details,
+      structured: result.structured,
+      citations: formatCitations(result.cited),
+      dropped_citations: result.droppedCitations,
+      used_context_count: result.context.length,
+      context: toContextSummary(result.contextReport),
+      prompt: toPromptSummary(result.prompt),
+    });
+  });
+
+  // --- /answer/stream (RAG, server-sent events) ---
+  // event: citations（根拠）→ delta（回答の断片）… → done（全文・引用【n】・usage）
+  // 途中で失敗したら event: error。クライアントが切断したら生成を打ち切る
+  app.post("/answer/stream", async (req, reply) => {
+    const Body = z.object({
+      question: z.string().min(1),
+      topK: z.number().int().min(1).max(20).default(DEFAULT_ANSWER_TOP_K),
+      collection: Collection,
+      filter: Filter,
+      language: Language,
+      expand: Expand,
+      context: Context,
+    });
+    const {
+      question,
+      topK,
+      collection,
+      filter,
+      language,
+      expand: expansion,
+      context,
+    } = Body.parse(req.body);
+    const retriever = await collections.retriever(collection);
+    const prompt = await collections.prompt(collection);
+    const problem = unsupportedLanguage(prompt, language);
+    if (problem) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", message: problem });
+    }
+    const { queries, expansions } = await expand(question, expansion);
+
+    reply.hijack();
+    const res = reply.raw;
+    res.writeHead(200, {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) =>
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 
-    const resp = await openai.responses.create({
-      model: GEN_MODEL,
-      instructions,
-      input: `質問: ${question}\n\n根拠:\n${context}\n\n回答:`,
+    // 応答を書き終える前に接続が閉じた = クライアントの切断
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
     });
 
-    const answerText = resp.output_text ?? "(no output_text)";
+    try {
+      for await (const event of streamAnswer(
+        retriever,
+        generator,
+        question,
+        { topK, filter, language, prompt, expansions, context },
+        abort.signal
+      )) {
+        if (event.type === "context") {
+          send("citations", {
+            question,
+            collection: collection ?? collections.defaultName,
+            ...(filter && { filter: filter.expression }),
+            ...(expansion !== "none" && { queries }),
+            model: event.model,
+            citations: formatCitations(event.chunks),
+            used_context_count: event.chunks.length,
+            context: toContextSummary(event.report),
+            prompt: toPromptSummary(event.prompt),
+          });
+        } else if (event.type === "delta") {
+          send("delta", { text: event.text });
+        } else {
+          send("done", {
+            answer: event.answer,
+            cited: event.citations,
+            usage: event.usage,
+          });
+        }
+      }
+    } catch (e) {
+      if (abort.signal.aborted) {
+        req.log.info("answer stream cancelled by client");
+      } else {
+        req.log.error(e);
+        send("error", { error: (e as Error).message });
+      }
+    }
+    if (!abort.signal.aborted) res.end();
+  });
+
+  // --- /chat (multi-turn RAG) ---
+  // conversationId でサーバ側の会話を続ける。省略すると新しい会話を作り、conversation_id を返す。
+  // history（これまでの question / answer）を渡した場合はサーバに保存しない
+  app.post("/chat", async (req, reply) => {
+    const Body = z
+      .object({
+        question: z.string().min(1),
+        conversationId: z.string().min(1).optional(),
+        history: z
+          .array(z.object({ question: z.string().min(1), answer: z.string() }))
+          .max(DEFAULT_MAX_TURNS)
+          .optional(),
+        topK: z.number().int().min(1).max(20).default(DEFAULT_ANSWER_TOP_K),
+        collection: Collection,
+        filter: Filter,
+        language: Language,
+        context: Context,
+      })
+      .refine((b) => !(b.conversationId && b.history), {
+        message: "conversationId と history はどちらか一方だけ指定してください",
+      });
+    const {
+      question,
+      conversationId,
+      history,
+      topK,
+      collection,
+      filter,
+      language,
+      context,
+    } = Body.parse(req.body);
+
+    let conversation: Conversation | undefined;
+    if (conversationId) {
+      conversation = conversations.get(conversationId);
+      if (!conversation) {
+        return reply.code(404).send({ error: "conversation_not_found" });
+      }
+    }
+    const turns = conversation ? [...conversation.turns] : history ?? [];
+
+    // condense（続きの質問を単独の質問に）→ retrieve → generate → 引用の検証
+    const retriever = await collections.retriever(collection);
+    const prompt = await collections.prompt(collection);
+    const problem = unsupportedLanguage(prompt, language);
+    if (problem) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", message: problem });
+    }
+    const result = await answerConversation(
+      retriever,
+      generator,
+      condenser,
+      turns,
+      question,
+      { topK, filter, language, prompt, context }
+    );
+    // 会話は回答できてから作る（検索や生成で失敗した問い合わせの空の会話を残さない）
+    if (!conversation && !history) conversation = conversations.create();
+    if (conversation) conversations.append(conversation.id, result.turn);
 
     return reply.send({
+      ...(conversation && { conversation_id: conversation.id }),
+      turn: turns.length + 1,
       question,
-      answer: answerText,
-      citations: formatCitations(top),
-      used_context_count: top.length,
+      standalone_question: result.standaloneQuestion,
+      collection: collection ?? collections.defaultName,
+      ...(filter && { filter: filter.expression }),
+      answer: result.text,
+      conclusion: result.answer.conclusion,
+      details: result.answer.details,
+      structured: result.structured,
+      citations: formatCitations(result.cited),
+      dropped_citations: result.droppedCitations,
+      used_context_count: result.context.length,
+      context: toContextSummary(result.contextReport),
+      prompt: toPromptSummary(result.prompt),
     });
   });
 
+  // 会話のターンとターンごとの引用（chunk id）
+  app.get("/chat/:id", async (req, reply) => {
+    const { id } = z.object({ id: z.string().min(1) }).parse(req.params);
+    const conversation = conversations.get(id);
+    if (!conversation) {
+      return reply.code(404).send({ error: "conversation_not_found" });
+    }
+    return reply.send({
+      conversation_id: conversation.id,
+      created_at: conversation.createdAt,
+      turns: conversation.turns.map((t) => ({
+        question: t.question,
+        standalone_question: t.standaloneQuestion,
+        answer: t.answer,
+        citations: t.citations ?? [],
+        at: t.at,
+      })),
+    });
+  });
+
+  app.delete("/chat/:id", async (req, reply) => {
+    const { id } = z.object({ id: z.string().min(1) }).parse(req.params);
+    if (!conversations.delete(id)) {
+      return reply.code(404).send({ error: "conversation_not_found" });
+    }
+    return reply.code(204).send();
+  });
+
   await app.listen({ port: PORT, host: "0.0.0.0" });
   app.log.info(`server listening on http://localhost:${PORT}`);
 }
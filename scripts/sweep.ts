@@ -0,0 +1,233 @@
+import "dotenv/config";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  CollectionManager,
+  DEFAULT_RANKING_FILE,
+  DEFAULT_SWEEP_FILE,
+  EVAL_FILE_DIRS,
+  SWEEP_METRICS,
+  chunkSources,
+  expandSweep,
+  findEvalFile,
+  loadSweepSpace,
+  parseGroundTruthMap,
+  parseQuestions,
+  rankSweepResults,
+  runSweep,
+  type SweepMetric,
+  type SweepResult,
+} from "../src/retrieval/index.js";
+
+const OUT_DIR = path.resolve("artifacts");
+const OUT_FILE = path.join(OUT_DIR, "sweep_leaderboard.md");
+const BEST_FILE = path.join(OUT_DIR, "sweep_best.json");
+const BEST_RANKING_FILE = path.join(OUT_DIR, "sweep_best.ranking.config.json");
+
+function rel(file: string): string {
+  return path.relative(process.cwd(), file).replace(/\\/g, "/");
+}
+
+function fmt(n: number | null): string {
+  return n === null ? "-" : n.toFixed(3);
+}
+
+function isMetric(m: string): m is SweepMetric {
+  return (SWEEP_METRICS as string[]).includes(m);
+}
+
+/** 試行で振った値だけを短く書く（表の 1 列に収める） */
+function describe(r: SweepResult): string {
+  const { params } = r;
+  const parts = [
+    ...(params.defaultSourceWeight !== undefined
+      ? [`defaultSourceWeight=${params.defaultSourceWeight}`]
+      : []),
+    ...Object.entries(params.sourceWeights).map(([s, w]) => `${s}=${w}`),
+    ...Object.entries(params.headingRules).map(([n, w]) => `${n}=${w}`),
+  ];
+  return parts.join(", ") || "-";
+}
+
+/**
+ * 検索パラメータ（alpha / topK / sourceWeight / headingWeight / チャンク設定）を振って
+ * ground truth で採点し、順位表と一番良かった設定を書き出す。
+ *   npm run sweep                                   # sweep.config.json の探索空間
+ *   npm run sweep -- --space my.json --strategy random --trials 30 --metric ndcg
+ * 書き出した ranking 設定は RANKING_CONFIG=artifacts/sweep_best.ranking.config.json で試せる。
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      collection: { type: "string" },
+      space: { type: "string" },
+      strategy: { type: "string" },
+      trials: { type: "string" },
+      seed: { type: "string" },
+      metric: { type: "string", default: "recall" },
+      top: { type: "string", default: "20" },
+      "ground-truth": { type: "string" },
+    },
+  });
+  const metric = values.metric;
+  if (!isMetric(metric)) {
+    throw new Error(
+      `--metric は ${SWEEP_METRICS.join(" / ")} のいずれか: ${metric}`
+    );
+  }
+  const top = Number(values.top);
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error(`--top は 1 以上の整数: ${values.top}`);
+  }
+
+  const spaceFile = path.resolve(values.space ?? DEFAULT_SWEEP_FILE);
+  const space = await loadSweepSpace(spaceFile);
+  if (values.strategy) {
+    if (values.strategy !== "grid" && values.strategy !== "random") {
+      throw new Error(
+        `--strategy は grid / random のいずれか: ${values.strategy}`
+      );
+    }
+    space.strategy = values.strategy;
+  }
+  for (const key of ["trials", "seed"] as const) {
+    const v = values[key];
+    if (v === undefined) continue;
+    const n = Number(v);
+    if (!Number.isInteger(n) || (key === "trials" && n < 1)) {
+      throw new Error(`--${key} は整数: ${v}`);
+    }
+    space[key] = n;
+  }
+
+  const collections = await CollectionManager.load();
+  const collection = collections.get(values.collection);
+  const retriever = await collections.retriever(collection.name);
+
+  const qFile = await findEvalFile("evaluation_questions.md");
+  const gtFile = values["ground-truth"]
+    ? path.resolve(values["ground-truth"])
+    : await findEvalFile("ground_truth_map.md");
+  if (!qFile || !gtFile) {
+    throw new Error(
+      `evaluation_questions.md と ground_truth_map.md が必要です（${EVAL_FILE_DIRS.join(
+        " / "
+      )} を探しました）`
+    );
+  }
+  const questions = parseQuestions(await fs.readFile(qFile, "utf-8"));
+  const groundTruth = parseGroundTruthMap(await fs.readFile(gtFile, "utf-8"));
+  if (questions.length === 0 || groundTruth.length === 0) {
+    throw new Error(
+      `${rel(qFile)} / ${rel(gtFile)} から質問か正解が読めませんでした`
+    );
+  }
+
+  const trials = expandSweep(space);
+  console.log(
+    `collection: ${collection.name} / ${space.strategy}: ${trials.length} trials`
+  );
+  const results = await runSweep({
+    retriever,
+    questions,
+    groundTruth,
+    trials,
+    chunk: (chunker) => chunkSources(collection.sources, chunker),
+    onTrial: (r, done) =>
+      console.log(
+        `trial ${done}/${trials.length}: recall=${fmt(
+          r.summary.recallAtK
+        )} nDCG=${fmt(r.summary.ndcgAtK)} MRR=${fmt(r.summary.mrr)}`
+      ),
+  });
+
+  const ranked = rankSweepResults(results, metric);
+  const best = ranked[0]!;
+  const baseChunker = retriever.index.chunker;
+
+  const rows = ranked
+    .slice(0, top)
+    .map(
+      (r, i) =>
+        `| ${i + 1} | #${r.trial} | ${fmt(r.summary.recallAtK)} | ${fmt(
+          r.summary.ndcgAtK
+        )} | ${fmt(r.summary.mrr)} | ${fmt(r.summary.hitAtK)} | ${r.alpha} | ${
+          r.topK
+        } | ${
+          r.chunker ? `${r.chunker.maxChars}/${r.chunker.overlap}` : "-"
+        } | ${describe(r)} |`
+    );
+  const md =
+    `# 検索パラメータ sweep\n\n` +
+    `- space_file: ${rel(spaceFile)}\n` +
+    `- strategy: ${space.strategy}${
+      space.strategy === "random"
+        ? `（trials=${space.trials} seed=${space.seed}）`
+        : ""
+    }\n` +
+    `- trials: ${results.length}\n` +
+    `- metric: ${metric}\n` +
+    `- questions_file: ${rel(qFile)}\n` +
+    `- ground_truth_file: ${rel(gtFile)}\n` +
+    `- collection: ${collection.name}\n` +
+    `- embedding_model: ${retriever.model}\n` +
+    `- base_ranking: ${rel(collection.rankingFile ?? DEFAULT_RANKING_FILE)}\n` +
+    `- base_chunker: ${
+      baseChunker ? `${baseChunker.maxChars}/${baseChunker.overlap}` : "不明"
+    }\n\n` +
+    `> 指標は各試行の topK での値（@k が違う試行どうしは単純には比べられない）。ANN は使わず全件走査で測る\n\n` +
+    `| # | trial | recall@k | nDCG@k | MRR | hit@k | alpha | topK | chunker | weights |\n` +
+    `| --: | --: | --: | --: | --: | --: | --: | --: | --- | --- |\n` +
+    `${rows.join("\n")}\n`;
+
+  await fs.mkdir(OUT_DIR, { recursive: true });
+  await fs.writeFile(OUT_FILE, md, "utf-8");
+  await fs.writeFile(
+    BEST_FILE,
+    JSON.stringify(
+      {
+        createdAt: new Date().toISOString(),
+        collection: collection.name,
+        metric,
+        trial: best.trial,
+        summary: best.summary,
+        alpha: best.alpha,
+        topK: best.topK,
+        chunker: best.chunker,
+        ranking: best.ranking,
+      },
+      null,
+      2
+    ) + "\n",
+    "utf-8"
+  );
+  await fs.writeFile(
+    BEST_RANKING_FILE,
+    JSON.stringify(best.ranking, null, 2) + "\n",
+    "utf-8"
+  );
+
+  console.log(`\nwritten: ${rel(OUT_FILE)}`);
+  console.log(`written: ${rel(BEST_FILE)}`);
+  console.log(`written: ${rel(BEST_RANKING_FILE)}`);
+  console.log(
+    `best: trial #${best.trial} ${metric}=${fmt(
+      {
+        recall: best.summary.recallAtK,
+        ndcg: best.summary.ndcgAtK,
+        mrr: best.summary.mrr,
+        hit: best.summary.hitAtK,
+      }[metric]
+    )} alpha=${best.alpha} topK=${best.topK}${
+      best.chunker
+        ? ` chunker=${best.chunker.maxChars}/${best.chunker.overlap}`
+        : ""
+    } ${describe(best)}`
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,28 +1,37 @@
 import "dotenv/config";
 import express from "express";
-import fs from "node:fs/promises";
-import path from "node:path";
-import { OpenAI } from "openai";
 import { z } from "zod";
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CollectionManager,
+  ConversationStore,
+  DEFAULT_ANSWER_TOP_K,
+  DEFAULT_MAX_TURNS,
+  QUERY_EXPANSIONS,
+  answerConversation,
+  answerStructured,
+  breadcrumb,
+  createAnswerGenerator,
+  createQueryCondenser,
+  createQueryRewriters,
+  expandQuery,
+  loadGlossary,
+  parseFilter,
+  sharedQueryCache,
+  toCitation,
+  toContextSummary,
+  toPromptSummary,
+  unsupportedLanguage,
+  type ChunkFilter,
+  type ChunkMeta,
+  type ContextOptions,
+  type Conversation,
+  type ConversationTurn,
+  type QueryExpansion,
+} from "./retrieval/index.js";
 
-type ChunkMeta = { source: string; heading: string; part: number };
-
-type IndexedChunk = {
-  id: string;
-  text: string;
-  meta: ChunkMeta;
-  embedding: number[];
-};
-
-type IndexFile = {
-  model: string;
-  chunks: IndexedChunk[];
-};
-
-const INDEX_FILE = path.resolve("artifacts/index.json");
 const PORT = Number(process.env.PORT || 8787);
 
 // 末尾 / 必須
@@ -30,41 +39,21 @@ const DOC_BASE_URL =
   process.env.DOC_BASE_URL ||
   "https://github.com/Kou0402/rag-mcp-poc/blob/develop/";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
-}
-function norm(a: number[]) {
-  return Math.sqrt(dot(a, a));
-}
-function cosineSim(a: number[], b: number[]) {
-  const na = norm(a);
-  const nb = norm(b);
-  if (na === 0 || nb === 0) return 0;
-  return dot(a, b) / (na * nb);
-}
-
-function sourceWeight(source: string): number {
-  if (source === "docs/api.md") return 1.15;
-  if (source === "docs/architecture.md") return 1.1;
-  if (source === "docs/overview.md") return 1.05;
-  if (source === "docs/faq.md") return 0.95;
-  return 1.0;
-}
-
-async function embedQuery(q: string, model: string): Promise<number[]> {
-  const resp = await openai.embeddings.create({
-    model,
-    input: [q],
-  });
-  return resp.data[0].embedding as number[];
+function canonicalUrlFor(meta: ChunkMeta): string {
+  // GitHub の blob URL は #L10-L20 で行範囲を指せる
+  const lines =
+    meta.startLine && meta.endLine
+      ? `#L${meta.startLine}-L${meta.endLine}`
+      : "";
+  return `${DOC_BASE_URL}${meta.source}${lines}`;
 }
 
-function canonicalUrlFor(meta: ChunkMeta): string {
-  return `${DOC_BASE_URL}${meta.source}`;
+/** 一部クライアントは { arguments: ... } や { input: ... } で引数を二重に包む */
+function unwrap(v: unknown): unknown {
+  if (!v || typeof v !== "object") return v;
+  if ("arguments" in v) return unwrap(v.arguments);
+  if ("input" in v) return unwrap(v.input);
+  return v;
 }
 
 /**
@@ -72,17 +61,16 @@ function canonicalUrlFor(meta: ChunkMeta): string {
  * { query } / { input } / { arguments } といった形で来ることがある。
  * ここで必ず { query, topK } に正規化する。
  */
-function normalizeSearchArgs(raw: unknown): { query: string; topK: number } {
+function normalizeSearchArgs(raw: unknown): {
+  query: string;
+  topK: number;
+  alpha?: number;
+  collection?: string;
+  filter?: string;
+  expand?: QueryExpansion;
+} {
   const DEFAULT_TOPK = 8;
 
-  const unwrap = (v: any): any => {
-    if (!v || typeof v !== "object") return v;
-    // 一部クライアントは { arguments: ... } や { input: ... } を二重に包む
-    if ("arguments" in v) return unwrap((v as any).arguments);
-    if ("input" in v) return unwrap((v as any).input);
-    return v;
-  };
-
   const v = unwrap(raw);
 
   if (typeof v === "string") {
@@ -103,36 +91,183 @@ function normalizeSearchArgs(raw: unknown): { query: string; topK: number } {
         ? Math.max(1, Math.min(20, Math.trunc(o.topK)))
         : DEFAULT_TOPK;
 
-    if (typeof q === "string") return { query: q, topK };
+    const alpha =
+      typeof o.alpha === "number" && o.alpha >= 0 && o.alpha <= 1
+        ? o.alpha
+        : undefined;
+
+    const collection =
+      typeof o.collection === "string" && o.collection.trim()
+        ? o.collection.trim()
+        : undefined;
+
+    const filter =
+      typeof o.filter === "string" && o.filter.trim()
+        ? o.filter.trim()
+        : undefined;
+
+    // 知らない値は指定なし（none）として扱う
+    const expand = QUERY_EXPANSIONS.find((e) => e === o.expand);
+
+    if (typeof q === "string")
+      return {
+        query: q,
+        topK,
+        ...(alpha !== undefined && { alpha }),
+        ...(collection !== undefined && { collection }),
+        ...(filter !== undefined && { filter }),
+        ...(expand !== undefined && { expand }),
+      };
   }
 
   // どうしても取れない場合は空にして後段でエラー扱い
   return { query: "", topK: DEFAULT_TOPK };
 }
 
-function normalizeFetchArgs(raw: unknown): string {
-  const unwrap = (v: any): any => {
-    if (!v || typeof v !== "object") return v;
-    if ("arguments" in v) return unwrap((v as any).arguments);
-    if ("input" in v) return unwrap((v as any).input);
-    return v;
+/** context（{ maxTokens, neighbors, parent }）。範囲外の数値は HTTP と同じ範囲に丸め、形の合わないものは無視する */
+function normalizeContextArg(raw: unknown): ContextOptions | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = raw as Record<string, unknown>;
+  const clamp = (x: unknown, min: number, max: number) =>
+    typeof x === "number" && Number.isFinite(x)
+      ? Math.max(min, Math.min(max, Math.trunc(x)))
+      : undefined;
+  const maxTokens = clamp(o.maxTokens, 256, 100_000);
+  const neighbors = clamp(o.neighbors, 0, 3);
+  const parent = typeof o.parent === "boolean" ? o.parent : undefined;
+  return {
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(neighbors !== undefined && { neighbors }),
+    ...(parent !== undefined && { parent }),
+  };
+}
+
+/** answer も search と同じく引数の形の揺れを吸収する（question / query / q / 文字列） */
+function normalizeAnswerArgs(raw: unknown): {
+  question: string;
+  topK: number;
+  collection?: string;
+  filter?: string;
+  language?: string;
+  expand?: QueryExpansion;
+  context?: ContextOptions;
+} {
+  const v = unwrap(raw);
+
+  if (typeof v === "string") {
+    return { question: v, topK: DEFAULT_ANSWER_TOP_K };
+  }
+
+  if (v && typeof v === "object") {
+    const o: any = v;
+    const question = [o.question, o.query, o.q].find(
+      (x) => typeof x === "string"
+    );
+    const { topK, collection, filter, expand } = normalizeSearchArgs({
+      ...o,
+      query: question ?? "",
+    });
+    const language =
+      typeof o.language === "string" && o.language.trim()
+        ? o.language.trim()
+        : undefined;
+    const context = normalizeContextArg(o.context);
+
+    if (typeof question === "string")
+      return {
+        question,
+        topK:
+          typeof o.topK === "number" && Number.isFinite(o.topK)
+            ? topK
+            : DEFAULT_ANSWER_TOP_K,
+        ...(collection !== undefined && { collection }),
+        ...(filter !== undefined && { filter }),
+        ...(language !== undefined && { language }),
+        ...(expand !== undefined && { expand }),
+        ...(context !== undefined && { context }),
+      };
+  }
+
+  return { question: "", topK: DEFAULT_ANSWER_TOP_K };
+}
+
+/**
+ * chat は answer の引数に conversationId / history（{ question, answer } の配列）を足したもの。
+ * expand は受け付けない（検索するのは書き直した質問なので、HTTP /chat・rag_chat と同じく言い換えはしない）
+ */
+function normalizeChatArgs(raw: unknown): Omit<
+  ReturnType<typeof normalizeAnswerArgs>,
+  "expand"
+> & {
+  conversationId?: string;
+  history?: ConversationTurn[];
+} {
+  const { expand: _expand, ...args } = normalizeAnswerArgs(raw);
+  const o = unwrap(raw);
+  if (!o || typeof o !== "object") return args;
+
+  const conversationId =
+    "conversationId" in o &&
+    typeof o.conversationId === "string" &&
+    o.conversationId.trim()
+      ? o.conversationId.trim()
+      : undefined;
+  // 形の合わないターンは捨てる（古い方から切って上限に収める）
+  const history =
+    "history" in o && Array.isArray(o.history)
+      ? o.history
+          .flatMap((t: unknown): ConversationTurn[] => {
+            if (!t || typeof t !== "object") return [];
+            const { question, answer } = t as Record<string, unknown>;
+            return typeof question === "string" &&
+              question.trim() &&
+              typeof answer === "string"
+              ? [{ question, answer }]
+              : [];
+          })
+          .slice(-DEFAULT_MAX_TURNS)
+      : undefined;
+
+  return {
+    ...args,
+    ...(conversationId !== undefined && { conversationId }),
+    ...(history !== undefined && { history }),
   };
+}
 
+function normalizeFetchArgs(raw: unknown): { id: string; collection?: string } {
   const v = unwrap(raw);
 
-  if (typeof v === "string") return v;
+  if (typeof v === "string") return { id: v };
 
   if (v && typeof v === "object") {
     const o: any = v;
-    if (typeof o.id === "string") return o.id;
+    if (typeof o.id === "string")
+      return typeof o.collection === "string" && o.collection.trim()
+        ? { id: o.id, collection: o.collection.trim() }
+        : { id: o.id };
   }
 
-  return "";
+  return { id: "" };
 }
 
 async function main() {
-  const raw = await fs.readFile(INDEX_FILE, "utf-8");
-  const index = JSON.parse(raw) as IndexFile;
+  // ranking.config.json を保存すると再起動なしで反映される
+  const collections = await CollectionManager.load(undefined, {
+    watchRanking: true,
+  });
+  await collections.retriever();
+
+  // 生成器は ANSWER_GENERATOR（openai / stub）、モデルは GEN_MODEL で切り替える
+  const generator = createAnswerGenerator();
+  // クエリの言い換えに使う用語集（glossary.config.json、GLOSSARY_CONFIG で変更可）
+  const glossary = await loadGlossary();
+  const expandFor = (query: string, expansion: QueryExpansion = "none") =>
+    expandQuery(query, createQueryRewriters(expansion, glossary));
+
+  // chat の会話（プロセス内、CONVERSATION_TTL_SECONDS で期限切れ）と続きの質問の書き直し
+  const conversations = new ConversationStore();
+  const condenser = createQueryCondenser();
 
   const server = new McpServer({ name: "rag-mcp-poc", version: "1.0.0" });
 
@@ -143,11 +278,12 @@ async function main() {
    */
   server.tool(
     "search",
-    "Search knowledge base (Markdown docs) and return result list for citation.",
+    "Search knowledge base (Markdown docs) and return result list for citation. Optional `collection` selects the document collection (see list_collections). Optional `filter` narrows chunks before ranking, e.g. `tags contains payments and source in [docs/api.md]`. Optional `expand` (`glossary` / `llm`) also searches glossary synonyms or LLM paraphrases of the query and fuses the results; the variants are returned as `queries`.",
     z.any(),
     async (args) => {
       try {
-        const { query, topK } = normalizeSearchArgs(args);
+        const { query, topK, alpha, collection, filter, expand } =
+          normalizeSearchArgs(args);
         const q = query.trim();
 
         if (!q) {
@@ -166,25 +302,66 @@ async function main() {
           };
         }
 
-        const qEmb = await embedQuery(q, index.model);
+        if (collection !== undefined && !collections.has(collection)) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "unknown_collection",
+                  message: `available collections: ${collections
+                    .names()
+                    .join(", ")}`,
+                }),
+              },
+            ],
+          };
+        }
 
-        const scored = index.chunks
-          .map((c) => {
-            const score = cosineSim(qEmb, c.embedding);
-            const weighted = score * sourceWeight(c.meta.source);
-            return { chunk: c, score, weighted };
-          })
-          .sort((a, b) => b.weighted - a.weighted)
-          .slice(0, topK);
+        let parsed: ChunkFilter | undefined;
+        try {
+          parsed = filter === undefined ? undefined : parseFilter(filter);
+        } catch (e: any) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_filter",
+                  message: e?.message ?? String(e),
+                }),
+              },
+            ],
+          };
+        }
+
+        const retriever = await collections.retriever(collection);
+        const queries = await expandFor(q, expand);
+        const hits = await retriever.search(q, {
+          topK,
+          alpha,
+          filter: parsed,
+          expansions: queries.map((v) => v.query),
+        });
 
-        const results = scored.map(({ chunk }) => ({
+        const results = hits.map(({ chunk }) => ({
           id: chunk.id,
-          title: `${chunk.meta.heading} (${chunk.meta.source})`,
+          title: breadcrumb(chunk.meta),
           url: canonicalUrlFor(chunk.meta),
         }));
 
         return {
-          content: [{ type: "text", text: JSON.stringify({ results }) }],
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                results,
+                ...(expand && expand !== "none" && { queries }),
+              }),
+            },
+          ],
         };
       } catch (e: any) {
         console.error("[TOOL_ERR][search]", e);
@@ -210,7 +387,12 @@ async function main() {
     z.any(),
     async (args) => {
       try {
-        const id = normalizeFetchArgs(args).trim();
+        const fetchArgs = normalizeFetchArgs(args);
+        const id = fetchArgs.id.trim();
+        const collection =
+          fetchArgs.collection && collections.has(fetchArgs.collection)
+            ? fetchArgs.collection
+            : undefined;
 
         if (!id) {
           return {
@@ -227,8 +409,9 @@ async function main() {
           };
         }
 
-        const hit = index.chunks.find((c) => c.id === id);
-        if (!hit) {
+        // collection が無ければ既定 → 他のコレクションの順に探す
+        const resolved = await collections.resolveChunk(id, collection);
+        if (!resolved) {
           return {
             isError: true,
             content: [
@@ -246,12 +429,18 @@ async function main() {
           };
         }
 
+        // 旧 id で引かれた場合も本文は返し、現 id を moved_to で知らせる
+        const { chunk: hit, movedTo } = resolved;
         const doc = {
           id: hit.id,
-          title: `${hit.meta.heading} (${hit.meta.source})`,
+          title: breadcrumb(hit.meta),
           text: hit.text,
           url: canonicalUrlFor(hit.meta),
-          metadata: hit.meta,
+          metadata: {
+            ...hit.meta,
+            collection: resolved.collection,
+            ...(movedTo && { moved_to: movedTo }),
+          },
         };
 
         return {
@@ -275,6 +464,330 @@ async function main() {
     }
   );
 
+  server.tool(
+    "answer",
+    "Answer a question grounded in the knowledge base (same pipeline as the HTTP /answer). Returns the answer text (conclusion → details → sources) and only the chunks it cited. Optional `topK`, `collection`, `filter`, `expand` (same as search), `language` (e.g. `ja`, `en`) and `context` (`{maxTokens, neighbors, parent}`: evidence token budget, adjacent parts and parent section to add, same as HTTP /answer).",
+    z.any(),
+    async (args) => {
+      try {
+        const {
+          question,
+          topK,
+          collection,
+          filter,
+          language,
+          expand,
+          context,
+        } = normalizeAnswerArgs(args);
+        const q = question.trim();
+
+        if (!q) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_question",
+                  message:
+                    "answer arguments did not contain a valid question string",
+                }),
+              },
+            ],
+          };
+        }
+
+        if (collection !== undefined && !collections.has(collection)) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "unknown_collection",
+                  message: `available collections: ${collections
+                    .names()
+                    .join(", ")}`,
+                }),
+              },
+            ],
+          };
+        }
+
+        let parsed: ChunkFilter | undefined;
+        try {
+          parsed = filter === undefined ? undefined : parseFilter(filter);
+        } catch (e: any) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_filter",
+                  message: e?.message ?? String(e),
+                }),
+              },
+            ],
+          };
+        }
+
+        const retriever = await collections.retriever(collection);
+        const prompt = await collections.prompt(collection);
+        const problem = unsupportedLanguage(prompt, language);
+        if (problem) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_language",
+                  message: problem,
+                }),
+              },
+            ],
+          };
+        }
+        const queries = await expandFor(q, expand);
+        const result = await answerStructured(retriever, generator, q, {
+          topK,
+          filter: parsed,
+          language,
+          prompt,
+          expansions: queries.map((v) => v.query),
+          context,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                ...(expand && expand !== "none" && { queries }),
+                answer: result.text,
+                conclusion: result.answer.conclusion,
+                details: result.answer.details,
+                structured: result.structured,
+                citations: result.cited.map((c) => ({
+                  ...toCitation(c),
+                  title: breadcrumb(c.meta),
+                  url: canonicalUrlFor(c.meta),
+                })),
+                dropped_citations: result.droppedCitations,
+                context: toContextSummary(result.contextReport),
+                prompt: toPromptSummary(result.prompt),
+                model: result.model,
+              }),
+            },
+          ],
+        };
+      } catch (e: any) {
+        console.error("[TOOL_ERR][answer]", e);
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: "answer_failed",
+                message: e?.message ?? String(e),
+              }),
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "chat",
+    "Multi-turn version of answer. Follow-up questions are rewritten into a standalone query from the conversation so far. Pass `conversationId` from the previous result to continue a server-side conversation (expires after inactivity), or `history` ([{question, answer}], oldest first) to keep state on the client; with neither a new conversation is started. Citations are kept per turn. Other arguments are the same as answer, except `expand` (not supported).",
+    z.any(),
+    async (args) => {
+      try {
+        const {
+          question,
+          topK,
+          collection,
+          filter,
+          language,
+          context,
+          conversationId,
+          history,
+        } = normalizeChatArgs(args);
+        const q = question.trim();
+
+        if (!q) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_question",
+                  message:
+                    "chat arguments did not contain a valid question string",
+                }),
+              },
+            ],
+          };
+        }
+
+        let conversation: Conversation | undefined;
+        if (conversationId) {
+          conversation = conversations.get(conversationId);
+          if (!conversation) {
+            return {
+              isError: true,
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: "conversation_not_found",
+                    message:
+                      "unknown or expired conversationId; omit it to start a new conversation",
+                  }),
+                },
+              ],
+            };
+          }
+        }
+
+        if (collection !== undefined && !collections.has(collection)) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "unknown_collection",
+                  message: `available collections: ${collections
+                    .names()
+                    .join(", ")}`,
+                }),
+              },
+            ],
+          };
+        }
+
+        let parsed: ChunkFilter | undefined;
+        try {
+          parsed = filter === undefined ? undefined : parseFilter(filter);
+        } catch (e: any) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_filter",
+                  message: e?.message ?? String(e),
+                }),
+              },
+            ],
+          };
+        }
+
+        const turns = conversation ? [...conversation.turns] : history ?? [];
+        const retriever = await collections.retriever(collection);
+        const prompt = await collections.prompt(collection);
+        const problem = unsupportedLanguage(prompt, language);
+        if (problem) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "invalid_language",
+                  message: problem,
+                }),
+              },
+            ],
+          };
+        }
+        const result = await answerConversation(
+          retriever,
+          generator,
+          condenser,
+          turns,
+          q,
+          {
+            topK,
+            filter: parsed,
+            language,
+            prompt,
+            context,
+          }
+        );
+        // 会話は回答できてから作る（検索や生成で失敗した問い合わせの空の会話を残さない）
+        if (!conversation && !history) conversation = conversations.create();
+        if (conversation) conversations.append(conversation.id, result.turn);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                ...(conversation && { conversation_id: conversation.id }),
+                turn: turns.length + 1,
+                standalone_question: result.standaloneQuestion,
+                answer: result.text,
+                conclusion: result.answer.conclusion,
+                details: result.answer.details,
+                structured: result.structured,
+                citations: result.cited.map((c) => ({
+                  ...toCitation(c),
+                  title: breadcrumb(c.meta),
+                  url: canonicalUrlFor(c.meta),
+                })),
+                dropped_citations: result.droppedCitations,
+                context: toContextSummary(result.contextReport),
+                prompt: toPromptSummary(result.prompt),
+                model: result.model,
+              }),
+            },
+          ],
+        };
+      } catch (e: any) {
+        console.error("[TOOL_ERR][chat]", e);
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: "chat_failed",
+                message: e?.message ?? String(e),
+              }),
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_collections",
+    "List available document collections with chunk counts and build times.",
+    z.any(),
+    async () => {
+      const list = await collections.list();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              default: collections.defaultName,
+              collections: list,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
   });
@@ -315,6 +828,9 @@ async function main() {
   });
 
   app.get("/healthz", (_req, res) => res.status(200).send("ok"));
+  app.get("/stats", (_req, res) =>
+    res.status(200).json({ queryCache: sharedQueryCache().stats() })
+  );
 
   app.all("/mcp", async (req, res) => {
     try {
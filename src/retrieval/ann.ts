@@ -0,0 +1,185 @@
+import { VectorMatrix } from "./vectors.js";
+
+/**
+ * IVF（inverted file）による近似最近傍探索。
+ * - ビルド: 正規化済みベクトルを球面 k-means で nlist 個のクラスタに分ける
+ * - 検索: クエリに近い nprobe 個のクラスタの中だけを内積で走査する
+ * ベクトル本体は VectorMatrix をそのまま使い、ここではセントロイドと所属だけを持つ。
+ */
+
+export type IvfBuildOptions = {
+  nlist?: number; // 既定: round(sqrt(n))
+  iterations?: number;
+  seed?: number;
+};
+
+// 0 なら nlist / 4（切り上げ）を調べる
+export const DEFAULT_ANN_NPROBE = Number(process.env.ANN_NPROBE ?? "0") || 0;
+// build:index --ann auto のとき、この件数以上なら IVF を作る（小さいコーパスは全件走査で十分速い）
+export const ANN_MIN_CHUNKS = Number(process.env.ANN_MIN_CHUNKS ?? "2000");
+// 候補がこれより少ないと RRF のベクトル順位が粗くなるので全件走査に戻す
+export const ANN_MIN_CANDIDATES = 100;
+
+// 決定的なビルドにするための小さな PRNG（mulberry32）
+function rng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dotAt(
+  a: Float32Array,
+  ao: number,
+  b: Float32Array,
+  bo: number,
+  dim: number
+) {
+  let s = 0;
+  for (let j = 0; j < dim; j++) s += a[ao + j]! * b[bo + j]!;
+  return s;
+}
+
+export class IvfIndex {
+  readonly centroids: VectorMatrix;
+  readonly assignments: Int32Array; // ベクトル i が属するクラスタ
+  readonly lists: Int32Array[]; // クラスタ c に属するベクトル番号
+
+  constructor(centroids: VectorMatrix, assignments: Int32Array) {
+    this.centroids = centroids;
+    this.assignments = assignments;
+    const buckets: number[][] = Array.from(
+      { length: centroids.count },
+      () => []
+    );
+    assignments.forEach((c, i) => {
+      const bucket = buckets[c];
+      if (!bucket) throw new Error(`invalid IVF assignment: ${c} at ${i}`);
+      bucket.push(i);
+    });
+    this.lists = buckets.map((b) => Int32Array.from(b));
+  }
+
+  get nlist(): number {
+    return this.centroids.count;
+  }
+
+  static build(vectors: VectorMatrix, options: IvfBuildOptions = {}): IvfIndex {
+    const n = vectors.count;
+    const dim = vectors.dim;
+    const nlist = Math.max(
+      1,
+      Math.min(n, options.nlist ?? Math.round(Math.sqrt(n)))
+    );
+    const iterations = options.iterations ?? 15;
+    const random = rng(options.seed ?? 42);
+    const data = vectors.data;
+
+    // k-means++ 初期化（類似度が低い = 遠いものほど選ばれやすい）
+    const centroids = new Float32Array(nlist * dim);
+    const first = Math.floor(random() * n);
+    centroids.set(vectors.row(first), 0);
+    const best = new Float64Array(n).fill(-Infinity);
+    for (let c = 1; c < nlist; c++) {
+      let total = 0;
+      const dist = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        best[i] = Math.max(
+          best[i]!,
+          dotAt(data, i * dim, centroids, (c - 1) * dim, dim)
+        );
+        dist[i] = Math.max(0, 1 - best[i]!);
+        total += dist[i]!;
+      }
+      let r = random() * total;
+      let pick = n - 1;
+      for (let i = 0; i < n; i++) {
+        r -= dist[i]!;
+        if (r <= 0) {
+          pick = i;
+          break;
+        }
+      }
+      centroids.set(vectors.row(pick), c * dim);
+    }
+
+    const assignments = new Int32Array(n);
+    for (let it = 0; it < iterations; it++) {
+      let changed = 0;
+      for (let i = 0; i < n; i++) {
+        let bestC = 0;
+        let bestS = -Infinity;
+        for (let c = 0; c < nlist; c++) {
+          const s = dotAt(data, i * dim, centroids, c * dim, dim);
+          if (s > bestS) {
+            bestS = s;
+            bestC = c;
+          }
+        }
+        if (it === 0 || assignments[i] !== bestC) changed++;
+        assignments[i] = bestC;
+      }
+
+      // セントロイド更新（球面 k-means なので平均を正規化し直す）
+      const sums = new Float32Array(nlist * dim);
+      const counts = new Int32Array(nlist);
+      for (let i = 0; i < n; i++) {
+        const c = assignments[i]!;
+        counts[c]!++;
+        for (let j = 0; j < dim; j++) sums[c * dim + j]! += data[i * dim + j]!;
+      }
+      for (let c = 0; c < nlist; c++) {
+        if (counts[c] === 0) continue; // 空クラスタは前のセントロイドを残す
+        const row = VectorMatrix.fromArrays([
+          sums.subarray(c * dim, (c + 1) * dim),
+        ]);
+        centroids.set(row.data, c * dim);
+      }
+      if (changed === 0) break;
+    }
+
+    return new IvfIndex(new VectorMatrix(dim, centroids), assignments);
+  }
+
+  /** クエリ（正規化済み）に近い nprobe 個のクラスタに属するベクトル番号 */
+  candidates(q: Float32Array, nprobe = DEFAULT_ANN_NPROBE): Int32Array {
+    const probe = Math.min(
+      this.nlist,
+      nprobe > 0 ? nprobe : Math.max(1, Math.ceil(this.nlist / 4))
+    );
+    const scores = this.centroids.dotAll(q);
+    const order = Array.from(scores.keys()).sort(
+      (a, b) => scores[b]! - scores[a]!
+    );
+    const picked = order.slice(0, probe).map((c) => this.lists[c]!);
+    const out = new Int32Array(picked.reduce((s, l) => s + l.length, 0));
+    let off = 0;
+    for (const l of picked) {
+      out.set(l, off);
+      off += l.length;
+    }
+    return out;
+  }
+}
+
+/** ベクトルのみの上位 k 件（exact = 全件走査 / ann = IVF）。recall 計測用 */
+export function vectorTopK(
+  vectors: VectorMatrix,
+  q: Float32Array,
+  k: number,
+  ivf?: IvfIndex,
+  nprobe?: number
+): number[] {
+  const ids = ivf
+    ? Array.from(ivf.candidates(q, nprobe))
+    : Array.from({ length: vectors.count }, (_, i) => i);
+  const scored = ids.map((i) => ({ i, s: vectors.dotRow(i, q) }));
+  return scored
+    .sort((a, b) => b.s - a.s)
+    .slice(0, k)
+    .map((x) => x.i);
+}
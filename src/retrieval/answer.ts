@@ -0,0 +1,190 @@
+import { breadcrumb } from "./chunker.js";
+import {
+  assembleContext,
+  type AssembledContext,
+  type ContextOptions,
+  type ContextReport,
+} from "./context.js";
+import {
+  streamGeneration,
+  type AnswerGenerator,
+  type GenerationInput,
+  type GenerationUsage,
+} from "./generator.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  renderPrompt,
+  type PromptInfo,
+  type PromptOptions,
+} from "./prompts.js";
+import type { Retriever } from "./retriever.js";
+import type { SearchOptions, StoredChunk } from "./types.js";
+
+export const DEFAULT_ANSWER_TOP_K = 8;
+
+export type AnswerResult = {
+  answer: string;
+  model: string;
+  // 生成器に渡した根拠（【n】の n = 添字 + 1）
+  chunks: StoredChunk[];
+  // 回答中の【n】（出現順・重複なし）。範囲外の番号もそのまま残す
+  citations: number[];
+  // 根拠の組み立て結果（まとめた・切り詰めた・外したチャンク）
+  contextReport: ContextReport;
+  // 使ったプロンプトテンプレート
+  prompt: PromptInfo;
+};
+
+export type RetrieveOptions = SearchOptions & {
+  // 根拠の組み立て（context.ts）。省略時は予算 DEFAULT_CONTEXT_MAX_TOKENS・足さない
+  context?: ContextOptions | undefined;
+};
+
+export type AnswerOptions = RetrieveOptions & PromptOptions;
+
+/** 逐次版 /answer のイベント。context → delta（0 回以上）→ done の順に流れる */
+export type AnswerStreamEvent =
+  | {
+      type: "context";
+      model: string;
+      chunks: StoredChunk[];
+      report: ContextReport;
+      prompt: PromptInfo;
+    }
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      answer: string;
+      citations: number[];
+      usage: GenerationUsage | null;
+    };
+
+/** 根拠を【1】見出しパス\n本文 … の形にする（withIds なら見出しパスの後ろに（id: …）を付ける） */
+export function buildContext(
+  chunks: StoredChunk[],
+  options: { withIds?: boolean } = {}
+): string {
+  return chunks
+    .map(
+      (c, i) =>
+        `【${i + 1}】${breadcrumb(c.meta)}${
+          options.withIds ? `（id: ${c.id}）` : ""
+        }\n${c.text}`
+    )
+    .join("\n\n");
+}
+
+/** 【1】【2】のほか【1,2】【1、3】のようなまとめ書きも拾う */
+export function parseCitations(answer: string): number[] {
+  const out: number[] = [];
+  for (const m of answer.normalize("NFKC").matchAll(/【([\d,、\s]+)】/g)) {
+    for (const n of m[1]!.split(/[,、\s]+/)) {
+      const v = Number(n);
+      if (n && Number.isInteger(v) && !out.includes(v)) out.push(v);
+    }
+  }
+  return out;
+}
+
+/**
+ * 回答の根拠を検索して組み立てる（topK の既定は DEFAULT_ANSWER_TOP_K）。
+ * 同じセクションの連続する part は 1 つの根拠にまとまるので、chunks は topK 件より少ないことがある。
+ */
+export async function retrieveContext(
+  retriever: Retriever,
+  question: string,
+  options: RetrieveOptions = {}
+): Promise<AssembledContext> {
+  const { context, ...search } = options;
+  const hits = await retriever.search(question, {
+    ...search,
+    topK: search.topK ?? DEFAULT_ANSWER_TOP_K,
+  });
+  return assembleContext(
+    retriever,
+    hits.map((h) => h.chunk),
+    context
+  );
+}
+
+async function retrieveForAnswer(
+  retriever: Retriever,
+  question: string,
+  options: AnswerOptions
+): Promise<AssembledContext & { input: GenerationInput; prompt: PromptInfo }> {
+  const { prompt = DEFAULT_PROMPT_TEMPLATE, language, ...search } = options;
+  const rendered = renderPrompt(prompt, "answer", language);
+  const { chunks, report } = await retrieveContext(retriever, question, search);
+  const context = buildContext(chunks);
+  return {
+    chunks,
+    report,
+    prompt: rendered.info,
+    input: {
+      instructions: rendered.instructions,
+      input: rendered.input(question, context),
+      question,
+      context,
+      passages: chunks.map((c) => c.text),
+      ids: chunks.map((c) => c.id),
+    },
+  };
+}
+
+/** 検索 → 根拠の組み立て → 生成（/answer と回答品質 eval の共通経路） */
+export async function answerQuestion(
+  retriever: Retriever,
+  generator: AnswerGenerator,
+  question: string,
+  options: AnswerOptions = {}
+): Promise<AnswerResult> {
+  const { chunks, report, input, prompt } = await retrieveForAnswer(
+    retriever,
+    question,
+    options
+  );
+  const answer = await generator.generate(input);
+
+  return {
+    answer,
+    model: generator.model,
+    chunks,
+    citations: parseCitations(answer),
+    contextReport: report,
+    prompt,
+  };
+}
+
+/**
+ * answerQuestion の逐次版。根拠を先に返し、回答は生成されたそばから流す。
+ * signal が abort されたら（クライアントの切断など）生成を打ち切り、done は流さない。
+ */
+export async function* streamAnswer(
+  retriever: Retriever,
+  generator: AnswerGenerator,
+  question: string,
+  options: AnswerOptions = {},
+  signal?: AbortSignal
+): AsyncGenerator<AnswerStreamEvent> {
+  const { chunks, report, input, prompt } = await retrieveForAnswer(
+    retriever,
+    question,
+    options
+  );
+  yield { type: "context", model: generator.model, chunks, report, prompt };
+  if (signal?.aborted) return;
+
+  for await (const event of streamGeneration(generator, input, signal)) {
+    if (signal?.aborted) return;
+    if (event.type === "delta") {
+      yield event;
+    } else {
+      yield {
+        type: "done",
+        answer: event.text,
+        citations: parseCitations(event.text),
+        usage: event.usage,
+      };
+    }
+  }
+}
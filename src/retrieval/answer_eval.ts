@@ -0,0 +1,147 @@
+import { matchesTarget, type ResolvedTarget } from "./ground_truth.js";
+import type { StoredChunk } from "./types.js";
+
+/**
+ * 回答品質の評価。expected_facts.md の表で設問ごとに「回答に含まれるべき事実」を決める。
+ *   | # | 必須の事実 |
+ *   | 6 | `100 リクエスト/分` |
+ *   | 8 | `Kafka` `at-least-once／少なくとも1回` |
+ * バッククォート 1 つが事実 1 つ。「／」で区切った表記ゆれはどれか 1 つあればよい。
+ */
+export type ExpectedFact = {
+  label: string;
+  alternatives: string[];
+};
+
+// 根拠に無いことを答えるときの言い方（プロンプトテンプレートの指示: ja「不明」・en "unknown"）。
+// 回答の言語によらず、どれかがあれば不明と答えたとみなす
+const UNKNOWN_MARKERS = /不明|\bunknown\b/i;
+
+export type ExpectedFactsEntry = {
+  index: number; // evaluation_questions.md の何問目か
+  facts: ExpectedFact[];
+};
+
+export type AnswerEvaluation = {
+  citations: number[];
+  invalidCitations: number[]; // 根拠の番号に無い【n】
+  citationValidity: number | null; // 引用が 1 つも無ければ null
+  facts: Array<{ label: string; inAnswer: boolean; supported: boolean }>;
+  coverage: number | null; // 必須の事実のうち回答に含まれた割合（事実が未定義なら null）
+  // 回答に含まれた事実のうち、引用した根拠にも書かれている割合（含まれた事実が無ければ null）
+  faithfulness: number | null;
+  saysUnknown: boolean;
+  groundTruthRetrieved: boolean | null; // 正解が未定義なら null
+  // 正解の根拠を渡したのに「不明」と答えた
+  unknownButRetrieved: boolean;
+};
+
+export type AnswerEvalSummary = {
+  questions: number;
+  coverage: number | null;
+  faithfulness: number | null;
+  citationValidity: number | null;
+  invalidCitationAnswers: number;
+  unknownButRetrieved: number;
+};
+
+export function parseExpectedFacts(md: string): ExpectedFactsEntry[] {
+  const entries: ExpectedFactsEntry[] = [];
+  for (const line of md.split(/\r?\n/)) {
+    if (!line.trim().startsWith("|")) continue;
+    const cells = line
+      .trim()
+      .replace(/^\||\|$/g, "")
+      .split("|")
+      .map((c) => c.trim());
+    // ヘッダ行と区切り行は # 列が数字にならないので落ちる
+    const index = Number(cells[0]);
+    if (cells[0] === "" || !Number.isInteger(index)) continue;
+    const body = cells.slice(1).join("|");
+    const facts = [...body.matchAll(/`([^`]+)`/g)].map((m) => ({
+      label: m[1]!.trim(),
+      alternatives: m[1]!
+        .split("／")
+        .map((a) => a.trim())
+        .filter(Boolean),
+    }));
+    entries.push({ index, facts });
+  }
+  return entries;
+}
+
+/** 全角半角・大文字小文字・空白の違いは無視して比べる */
+function norm(s: string): string {
+  return s.normalize("NFKC").toLowerCase().replace(/\s+/g, "");
+}
+
+function mentions(text: string, fact: ExpectedFact): boolean {
+  const t = norm(text);
+  return fact.alternatives.some((a) => t.includes(norm(a)));
+}
+
+export function evaluateAnswer(input: {
+  answer: string;
+  citations: number[];
+  chunks: StoredChunk[]; // 生成器に渡した根拠（【n】の n = 添字 + 1）
+  facts: ExpectedFact[];
+  targets: ResolvedTarget[];
+}): AnswerEvaluation {
+  const { answer, citations, chunks, facts, targets } = input;
+  const invalidCitations = citations.filter(
+    (n) => !Number.isInteger(n) || n < 1 || n > chunks.length
+  );
+  const cited = citations
+    .filter((n) => !invalidCitations.includes(n))
+    .map((n) => chunks[n - 1]!.text)
+    .join("\n");
+
+  const factResults = facts.map((f) => {
+    const inAnswer = mentions(answer, f);
+    return {
+      label: f.label,
+      inAnswer,
+      supported: inAnswer && mentions(cited, f),
+    };
+  });
+  const inAnswer = factResults.filter((f) => f.inAnswer);
+
+  const saysUnknown = UNKNOWN_MARKERS.test(answer);
+  const groundTruthRetrieved = targets.length
+    ? chunks.some((c) => targets.some((t) => matchesTarget(c, t)))
+    : null;
+
+  return {
+    citations,
+    invalidCitations,
+    citationValidity: citations.length
+      ? (citations.length - invalidCitations.length) / citations.length
+      : null,
+    facts: factResults,
+    coverage: facts.length ? inAnswer.length / facts.length : null,
+    faithfulness: inAnswer.length
+      ? inAnswer.filter((f) => f.supported).length / inAnswer.length
+      : null,
+    saysUnknown,
+    groundTruthRetrieved,
+    unknownButRetrieved: saysUnknown && groundTruthRetrieved === true,
+  };
+}
+
+export function summarizeAnswerEval(
+  results: AnswerEvaluation[]
+): AnswerEvalSummary {
+  const avg = (xs: Array<number | null>) => {
+    const ns = xs.filter((x): x is number => x !== null);
+    return ns.length ? ns.reduce((a, b) => a + b, 0) / ns.length : null;
+  };
+  return {
+    questions: results.length,
+    coverage: avg(results.map((r) => r.coverage)),
+    faithfulness: avg(results.map((r) => r.faithfulness)),
+    citationValidity: avg(results.map((r) => r.citationValidity)),
+    invalidCitationAnswers: results.filter((r) => r.invalidCitations.length)
+      .length,
+    unknownButRetrieved: results.filter((r) => r.unknownButRetrieved).length,
+  };
+}
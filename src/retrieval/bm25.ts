@@ -0,0 +1,91 @@
+/**
+ * 日本語 + コード識別子向けの BM25。
+ * - 英数字・識別子（IDEMPOTENCY_CONFLICT, 409, /v1/orders, PATCH）は語単位
+ * - それ以外（かな・漢字など）は単語境界が無いので文字 bigram
+ */
+
+const IDENT_RE = /[a-z0-9_]+(?:[./-][a-z0-9_{}]+)*|\/[a-z0-9_{}./-]+/g;
+const CJK_RUN_RE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+/gu;
+
+export function tokenize(text: string): string[] {
+  const normalized = text.normalize("NFKC").toLowerCase();
+  const tokens: string[] = [];
+
+  for (const m of normalized.matchAll(IDENT_RE)) {
+    tokens.push(m[0]);
+    // "idempotency_conflict" や "/v1/orders" は部分一致でも拾えるよう分解も入れる
+    const parts = m[0].split(/[_./-]+/).filter(Boolean);
+    if (parts.length > 1) tokens.push(...parts);
+  }
+
+  for (const m of normalized.matchAll(CJK_RUN_RE)) {
+    const chars = Array.from(m[0]);
+    if (chars.length === 1) {
+      tokens.push(chars[0]!);
+      continue;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      tokens.push(chars[i]! + chars[i + 1]!);
+    }
+  }
+  return tokens;
+}
+
+export type Bm25Params = { k1: number; b: number };
+
+export const DEFAULT_BM25_PARAMS: Bm25Params = { k1: 1.2, b: 0.75 };
+
+export class Bm25Index {
+  private readonly termFreqs: Array<Map<string, number>>;
+  private readonly docLens: number[];
+  private readonly docFreq = new Map<string, number>();
+  private readonly avgDocLen: number;
+  private readonly params: Bm25Params;
+
+  constructor(texts: string[], params: Bm25Params = DEFAULT_BM25_PARAMS) {
+    this.params = params;
+    this.termFreqs = texts.map((t) => {
+      const tf = new Map<string, number>();
+      for (const tok of tokenize(t)) tf.set(tok, (tf.get(tok) ?? 0) + 1);
+      return tf;
+    });
+    this.docLens = this.termFreqs.map((tf) => {
+      let len = 0;
+      for (const n of tf.values()) len += n;
+      return len;
+    });
+    for (const tf of this.termFreqs) {
+      for (const term of tf.keys()) {
+        this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+      }
+    }
+    const total = this.docLens.reduce((s, n) => s + n, 0);
+    this.avgDocLen = texts.length === 0 ? 0 : total / texts.length;
+  }
+
+  get size(): number {
+    return this.termFreqs.length;
+  }
+
+  /** 各文書の BM25 スコア（入力 texts と同じ並び） */
+  score(query: string): number[] {
+    const { k1, b } = this.params;
+    const n = this.size;
+    const terms = new Set(tokenize(query));
+    const scores = new Array<number>(n).fill(0);
+
+    for (const term of terms) {
+      const df = this.docFreq.get(term);
+      if (!df) continue;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      for (let i = 0; i < n; i++) {
+        const tf = this.termFreqs[i]!.get(term);
+        if (!tf) continue;
+        const lenNorm = 1 - b + (b * this.docLens[i]!) / (this.avgDocLen || 1);
+        scores[i]! += (idf * tf * (k1 + 1)) / (tf + k1 * lenNorm);
+      }
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * 見出し構造を保ったまま Markdown をチャンクに分割する。
+ * - 見出しはパンくず（["POST /v1/orders", "レスポンス"]）で持つ
+ * - コードフェンスと表は途中で切らない（maxChars を超えても 1 ブロックのまま）
+ * - 段落 → 行 → 文（。！？ など）の順で境界を探し、最後の手段として文字数で切る
+ * - 行番号は 1 始まり・両端含む
+ */
+
+export type ChunkerOptions = {
+  maxChars: number;
+  overlap: number;
+};
+
+export const DEFAULT_CHUNKER_OPTIONS: ChunkerOptions = {
+  maxChars: 1500,
+  overlap: 150,
+};
+
+export type MarkdownChunk = {
+  heading: string; // 直近の見出し（無ければ「（先頭）」）
+  headingPath: string[];
+  part: number;
+  text: string;
+  startLine: number;
+  endLine: number;
+};
+
+export const ROOT_HEADING = "（先頭）";
+
+export type Line = { text: string; no: number };
+
+export type Section = { headingPath: string[]; lines: Line[] };
+
+type Unit = {
+  text: string;
+  startLine: number;
+  endLine: number;
+  // 直前のユニットとの区切り（ブロック境界は空行、同じ段落内は改行、同じ行内は無し）
+  joinBefore: string;
+  // コード・表など分割してはいけないもの（オーバーラップにも使わない）
+  atomic: boolean;
+};
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const TABLE_RE = /^\s*\|/;
+const SENTENCE_RE = /.+?(?:[。！？]|[.!?](?=\s)|$)\s*/gu;
+
+/** コードフェンス内を除いて見出し行を検出する */
+function scanHeadings(
+  lines: string[]
+): Array<{ level: number; text: string } | undefined> {
+  let fence: string | undefined;
+  return lines.map((text) => {
+    const f = text.match(FENCE_RE);
+    if (f) {
+      if (!fence) fence = f[1];
+      else if (f[1] === fence) fence = undefined;
+      return undefined;
+    }
+    const m = fence ? null : text.match(HEADING_RE);
+    return m ? { level: m[1]!.length, text: m[2]!.trim() } : undefined;
+  });
+}
+
+function splitSections(md: string): Section[] {
+  const lines = md.split(/\r?\n/);
+  const headings = scanHeadings(lines);
+  // H1 が 1 つだけなら文書タイトルとみなし、配下のパンくずには含めない
+  const h1Count = headings.filter((h) => h?.level === 1).length;
+
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; text: string }> = [];
+  let current: Section = { headingPath: [], lines: [] };
+
+  lines.forEach((text, i) => {
+    const h = headings[i];
+    if (!h) {
+      current.lines.push({ text, no: i + 1 });
+      return;
+    }
+    sections.push(current);
+    while (stack.length && stack[stack.length - 1]!.level >= h.level) {
+      stack.pop();
+    }
+    stack.push(h);
+    const path = stack.map((s) => s.text);
+    if (h1Count === 1 && stack[0]!.level === 1 && path.length > 1) path.shift();
+    current = { headingPath: path, lines: [] };
+  });
+  sections.push(current);
+  return sections;
+}
+
+/** セクション本文を「段落 / コード / 表」のブロックに分け、さらに分割可能な単位にする */
+function toUnits(lines: Line[], maxChars: number): Unit[] {
+  const units: Unit[] = [];
+  let i = 0;
+
+  const pushBlock = (block: Line[], atomic: boolean) => {
+    if (block.length === 0) return;
+    const first = block[0]!;
+    const last = block[block.length - 1]!;
+    const text = block.map((l) => l.text).join("\n");
+    if (atomic || text.length <= maxChars) {
+      units.push({
+        text,
+        startLine: first.no,
+        endLine: last.no,
+        joinBefore: "\n\n",
+        atomic,
+      });
+      return;
+    }
+    // 長い段落は行 → 文 → 文字数の順に細かくする
+    block.forEach((l, li) => {
+      const pieces =
+        l.text.length <= maxChars ? [l.text] : splitSentences(l.text, maxChars);
+      pieces.forEach((p, pi) => {
+        units.push({
+          text: p,
+          startLine: l.no,
+          endLine: l.no,
+          joinBefore: pi > 0 ? "" : li > 0 ? "\n" : "\n\n",
+          atomic: false,
+        });
+      });
+    });
+  };
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.text.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE_RE);
+    if (fence) {
+      const block = [line];
+      i++;
+      while (i < lines.length) {
+        const l = lines[i++]!;
+        block.push(l);
+        if (l.text.match(FENCE_RE)?.[1] === fence[1]) break;
+      }
+      pushBlock(block, true);
+      continue;
+    }
+
+    if (TABLE_RE.test(line.text)) {
+      const block: Line[] = [];
+      while (i < lines.length && TABLE_RE.test(lines[i]!.text)) {
+        block.push(lines[i++]!);
+      }
+      pushBlock(block, true);
+      continue;
+    }
+
+    const block: Line[] = [];
+    while (
+      i < lines.length &&
+      lines[i]!.text.trim() &&
+      !FENCE_RE.test(lines[i]!.text) &&
+      !TABLE_RE.test(lines[i]!.text)
+    ) {
+      block.push(lines[i++]!);
+    }
+    pushBlock(block, false);
+  }
+  return units;
+}
+
+function splitSentences(text: string, maxChars: number): string[] {
+  const out: string[] = [];
+  for (const m of text.matchAll(SENTENCE_RE)) {
+    const s = m[0];
+    if (s.length <= maxChars) {
+      out.push(s);
+      continue;
+    }
+    for (let i = 0; i < s.length; i += maxChars)
+      out.push(s.slice(i, i + maxChars));
+  }
+  return out;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((u, i) => (i === 0 ? u.text : u.joinBefore + u.text))
+    .join("")
+    .trim();
+}
+
+function packUnits(units: Unit[], options: ChunkerOptions): Unit[][] {
+  const { maxChars, overlap } = options;
+  const chunks: Unit[][] = [];
+  let current: Unit[] = [];
+  let size = 0;
+
+  for (const u of units) {
+    const added = (current.length ? u.joinBefore.length : 0) + u.text.length;
+    if (current.length && size + added > maxChars) {
+      chunks.push(current);
+
+      // 末尾から overlap 文字以内のユニットを次のチャンクの先頭に持ち越す
+      const carry: Unit[] = [];
+      let carried = 0;
+      for (let j = current.length - 1; j >= 0; j--) {
+        const c = current[j]!;
+        if (c.atomic || carried + c.text.length > overlap) break;
+        carry.unshift(c);
+        carried += c.text.length + c.joinBefore.length;
+      }
+      // 持ち越し分だけで溢れる場合は持ち越さない
+      current = carried + added > maxChars ? [] : carry;
+      size = current.length ? joinUnits(current).length : 0;
+    }
+    size += (current.length ? u.joinBefore.length : 0) + u.text.length;
+    current.push(u);
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+}
+
+/** 見出しパスと行番号付きの行に分けたセクションを分割する（Markdown 以外のローダー用） */
+export function chunkSections(
+  sections: Section[],
+  options: ChunkerOptions
+): MarkdownChunk[] {
+  if (options.overlap >= options.maxChars) {
+    throw new Error(
+      `overlap (${options.overlap}) は maxChars (${options.maxChars}) より小さくしてください`
+    );
+  }
+
+  const out: MarkdownChunk[] = [];
+  for (const section of sections) {
+    const units = toUnits(section.lines, options.maxChars);
+    const packed = packUnits(units, options);
+    packed.forEach((group, part) => {
+      const text = joinUnits(group);
+      if (!text) return;
+      out.push({
+        heading: section.headingPath.at(-1) ?? ROOT_HEADING,
+        headingPath: section.headingPath,
+        part,
+        text,
+        startLine: group[0]!.startLine,
+        endLine: group[group.length - 1]!.endLine,
+      });
+    });
+  }
+  return out;
+}
+
+export function chunkMarkdown(
+  md: string,
+  options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS
+): MarkdownChunk[] {
+  return chunkSections(splitSections(md), options);
+}
+
+/** 見出しを解釈しないテキスト（.txt など）。ファイル全体を 1 セクションとして分割する */
+export function chunkPlainText(
+  text: string,
+  options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS
+): MarkdownChunk[] {
+  const lines = text.split(/\r?\n/).map((t, i) => ({ text: t, no: i + 1 }));
+  return chunkSections([{ headingPath: [], lines }], options);
+}
+
+/** 表示用のパンくず: docs/api.md > POST /v1/orders > レスポンス */
+export function breadcrumb(meta: {
+  source: string;
+  heading: string;
+  headingPath?: string[] | undefined;
+}): string {
+  const path = meta.headingPath ?? [meta.heading];
+  return [meta.source, ...path].join(" > ");
+}
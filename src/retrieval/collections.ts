@@ -0,0 +1,338 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { DEFAULT_INDEX_FILE, readIndexInfo } from "./index_store.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  type PromptTemplate,
+} from "./prompts.js";
+import { DEFAULT_RANKING_FILE, watchRankingConfig } from "./ranking.js";
+import { Retriever } from "./retriever.js";
+import type { ResolvedChunk } from "./types.js";
+
+/**
+ * collections.config.json のスキーマ。
+ * コレクションごとにソース（glob）・埋め込みモデル・インデックスファイルを持つ。
+ *   sources       : リポジトリルートからの glob。先頭 "!" は除外
+ *   embeddingModel: 省略時は build:index の --provider / EMBEDDING_PROVIDER に従う
+ *   rankingFile   : 省略時は ranking.config.json
+ *   promptFile    : 回答の指示のテンプレート（prompts.ts）。省略時は組み込みの既定テンプレート
+ * 設定ファイルが無い場合は docs/ を読む 1 コレクションだけとして動く（従来どおり）。
+ */
+const CollectionSchema = z.object({
+  description: z.string().default(""),
+  sources: z.array(z.string().min(1)).min(1),
+  embeddingModel: z.string().min(1).optional(),
+  indexFile: z.string().min(1),
+  rankingFile: z.string().min(1).optional(),
+  promptFile: z.string().min(1).optional(),
+});
+
+export const CollectionsConfigSchema = z
+  .object({
+    version: z.literal(1),
+    defaultCollection: z.string().min(1),
+    collections: z.record(
+      z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "英小文字・数字・- _ のみ"),
+      CollectionSchema
+    ),
+  })
+  .refine((c) => c.defaultCollection in c.collections, {
+    message: "defaultCollection が collections にありません",
+    path: ["defaultCollection"],
+  });
+
+export type CollectionsConfig = z.infer<typeof CollectionsConfigSchema>;
+export type CollectionConfig = z.infer<typeof CollectionSchema> & {
+  name: string;
+};
+
+export const DEFAULT_COLLECTIONS_FILE = path.resolve(
+  process.env.COLLECTIONS_CONFIG ?? "collections.config.json"
+);
+
+/** 設定ファイルが無いときの既定（従来の docs/ → artifacts/index.meta.json） */
+export const FALLBACK_COLLECTIONS: CollectionsConfig = {
+  version: 1,
+  defaultCollection: "default",
+  collections: {
+    default: {
+      description: "docs/ 配下のドキュメント",
+      sources: ["docs/**"],
+      indexFile: path.relative(process.cwd(), DEFAULT_INDEX_FILE),
+    },
+  },
+};
+
+export function parseCollectionsConfig(
+  raw: unknown,
+  origin = "collections config"
+): CollectionsConfig {
+  const parsed = CollectionsConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`${origin} が不正です:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export async function loadCollectionsConfig(
+  file: string = DEFAULT_COLLECTIONS_FILE
+): Promise<CollectionsConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf-8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return FALLBACK_COLLECTIONS;
+    }
+    throw e;
+  }
+  return parseCollectionsConfig(JSON.parse(raw), path.basename(file));
+}
+
+// ---- glob ----
+
+const GLOB_CHARS = /[*?{]/;
+
+/** `**` / `*` / `?` / `{a,b}` だけを扱う最小限の glob（パス区切りは / ） */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" は 0 個以上のディレクトリ、末尾の "**" は配下すべて
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") re += "[^/]*";
+    else if (ch === "?") re += "[^/]";
+    else if (ch === "{") {
+      const end = glob.indexOf("}", i);
+      if (end < 0) throw new Error(`glob の { が閉じていません: ${glob}`);
+      const alts = glob.slice(i + 1, end).split(",");
+      re += `(?:${alts
+        .map((a) => a.replace(/[.+^$()|[\]\\]/g, "\\$&"))
+        .join("|")})`;
+      i = end;
+    } else re += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`);
+}
+
+async function walk(dir: string, out: string[]): Promise<void> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return; // 無いディレクトリは 0 件扱い
+  }
+  for (const e of entries) {
+    if (e.name === "node_modules" || e.name === ".git") continue;
+    const full = path.join(dir, e.name);
+    if (e.isDirectory()) await walk(full, out);
+    else if (e.isFile()) out.push(full);
+  }
+}
+
+/** glob に一致するファイルを cwd からの相対パス（/ 区切り）で返す */
+export async function expandGlobs(
+  patterns: string[],
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const include = patterns.filter((p) => !p.startsWith("!"));
+  const exclude = patterns
+    .filter((p) => p.startsWith("!"))
+    .map((p) => globToRegExp(p.slice(1)));
+
+  const found = new Set<string>();
+  for (const pattern of include) {
+    // glob 文字を含まない先頭部分のディレクトリから探す
+    const segments = pattern.split("/");
+    const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+    const base =
+      firstGlob < 0 ? pattern : segments.slice(0, firstGlob).join("/");
+    const re = globToRegExp(pattern);
+    const files: string[] = [];
+    await walk(path.resolve(cwd, base || "."), files);
+    if (firstGlob < 0) files.push(path.resolve(cwd, pattern));
+    for (const f of files) {
+      const rel = path.relative(cwd, f).replace(/\\/g, "/");
+      if (re.test(rel) && !exclude.some((x) => x.test(rel))) found.add(rel);
+    }
+  }
+  // パターンに一致しても実在しないもの（glob 無しの直接指定）は落とす
+  const out: string[] = [];
+  for (const rel of [...found].sort()) {
+    try {
+      if ((await fs.stat(path.resolve(cwd, rel))).isFile()) out.push(rel);
+    } catch {
+      // skip
+    }
+  }
+  return out;
+}
+
+// ---- 実行時 ----
+
+export type CollectionInfo = {
+  name: string;
+  description: string;
+  default: boolean;
+  indexFile: string;
+  built: boolean;
+  model: string | null;
+  chunks: number | null;
+  builtAt: string | null; // 未ビルドなら null
+};
+
+/**
+ * コレクション名 → Retriever。初回アクセス時にインデックスを読み込んでキャッシュする。
+ * HTTP / MCP サーバと search / eval はここからコレクションを引く。
+ */
+export class CollectionManager {
+  readonly config: CollectionsConfig;
+  private readonly watch: boolean;
+  private readonly retrievers = new Map<string, Promise<Retriever>>();
+  private readonly prompts = new Map<string, Promise<PromptTemplate>>();
+  private readonly stops: Array<() => void> = [];
+
+  // watchRanking: ranking.config.json の変更を読み込み済みの Retriever に反映する
+  constructor(
+    config: CollectionsConfig,
+    options: { watchRanking?: boolean } = {}
+  ) {
+    this.config = config;
+    this.watch = options.watchRanking ?? false;
+  }
+
+  static async load(
+    file?: string,
+    options: { watchRanking?: boolean } = {}
+  ): Promise<CollectionManager> {
+    return new CollectionManager(await loadCollectionsConfig(file), options);
+  }
+
+  get defaultName(): string {
+    return this.config.defaultCollection;
+  }
+
+  names(): string[] {
+    return Object.keys(this.config.collections);
+  }
+
+  has(name: string): boolean {
+    return Object.hasOwn(this.config.collections, name);
+  }
+
+  get(name: string = this.defaultName): CollectionConfig {
+    const c = this.has(name) ? this.config.collections[name] : undefined;
+    if (!c) {
+      throw new Error(
+        `unknown collection: ${name}（利用可能: ${this.names().join(", ")}）`
+      );
+    }
+    return { ...c, name };
+  }
+
+  retriever(name: string = this.defaultName): Promise<Retriever> {
+    const c = this.get(name);
+    let loading = this.retrievers.get(c.name);
+    if (!loading) {
+      loading = this.open(c);
+      // 失敗はキャッシュしない（ビルド後に再試行できるように）
+      loading.catch(() => this.retrievers.delete(c.name));
+      this.retrievers.set(c.name, loading);
+    }
+    return loading;
+  }
+
+  /** コレクションのプロンプトテンプレート（初回に読み込んでキャッシュする） */
+  prompt(name: string = this.defaultName): Promise<PromptTemplate> {
+    const c = this.get(name);
+    if (!c.promptFile) return Promise.resolve(DEFAULT_PROMPT_TEMPLATE);
+    let loading = this.prompts.get(c.name);
+    if (!loading) {
+      loading = loadPromptTemplate(path.resolve(c.promptFile));
+      loading.catch(() => this.prompts.delete(c.name));
+      this.prompts.set(c.name, loading);
+    }
+    return loading;
+  }
+
+  private async open(c: CollectionConfig): Promise<Retriever> {
+    const rankingFile = path.resolve(c.rankingFile ?? DEFAULT_RANKING_FILE);
+    const retriever = await Retriever.load({
+      indexFile: path.resolve(c.indexFile),
+      rankingFile,
+    });
+    if (c.embeddingModel && retriever.model !== c.embeddingModel) {
+      throw new Error(
+        `collection ${c.name} のインデックスは ${retriever.model} で作られています（設定は ${c.embeddingModel}）。` +
+          `npm run build:index -- --collection ${c.name} で作り直してください`
+      );
+    }
+    if (this.watch) {
+      this.stops.push(
+        watchRankingConfig(rankingFile, (cfg) => (retriever.ranking = cfg))
+      );
+    }
+    return retriever;
+  }
+
+  /** 一覧用。インデックス本体（ベクトル）は読まずにメタデータだけ見る */
+  async list(): Promise<CollectionInfo[]> {
+    return Promise.all(
+      this.names().map(async (name) => {
+        const c = this.get(name);
+        const info = await readIndexInfo(path.resolve(c.indexFile));
+        return {
+          name,
+          description: c.description,
+          default: name === this.defaultName,
+          indexFile: c.indexFile,
+          built: info !== undefined,
+          model: info?.model ?? null,
+          chunks: info?.chunks ?? null,
+          builtAt: info?.builtAt ?? null,
+        };
+      })
+    );
+  }
+
+  /**
+   * chunk id を引く。collection 指定が無ければ既定 → 他のビルド済みコレクションの順に探す
+   * （remote MCP の fetch は id しか受け取らないため）
+   */
+  async resolveChunk(
+    id: string,
+    name?: string
+  ): Promise<(ResolvedChunk & { collection: string }) | undefined> {
+    const order = name
+      ? [name]
+      : [
+          this.defaultName,
+          ...this.names().filter((n) => n !== this.defaultName),
+        ];
+    for (const n of order) {
+      let retriever: Retriever;
+      try {
+        retriever = await this.retriever(n);
+      } catch (e) {
+        if (name) throw e;
+        continue; // 未ビルドのコレクションは飛ばす
+      }
+      const resolved = retriever.resolveChunk(id);
+      if (resolved) return { ...resolved, collection: n };
+    }
+    return undefined;
+  }
+
+  close(): void {
+    for (const stop of this.stops.splice(0)) stop();
+  }
+}
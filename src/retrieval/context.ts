@@ -0,0 +1,259 @@
+import { breadcrumb } from "./chunker.js";
+import type { Retriever } from "./retriever.js";
+import type { ChunkMeta, StoredChunk } from "./types.js";
+
+/**
+ * 回答に渡す根拠の組み立て。検索結果のチャンクをそのまま並べる代わりに
+ *   1) 同じセクションで part が連続するチャンクを 1 つの根拠にまとめる（オーバーラップは除く）
+ *   2) 指定があれば前後の part（neighbors）や親セクション（parent）も足す
+ *   3) 推定トークン数の予算に収まるよう、順位の低い根拠から切り詰め・除外する
+ * まとめた根拠は先頭の検索結果の id を持つ StoredChunk として返す（引用や /fetch はその id で引ける）。
+ */
+export type ContextOptions = {
+  // 根拠全体の推定トークン数の上限
+  maxTokens?: number | undefined;
+  // 検索結果の前後いくつの part まで足すか（0 = 足さない）
+  neighbors?: number | undefined;
+  // 親セクション（見出しパスの 1 つ上）の本文も足す（検索結果より後ろの優先度）
+  parent?: boolean | undefined;
+};
+
+export type ContextBlockReport = {
+  id: string;
+  // まとめたチャンク（part 順）
+  chunkIds: string[];
+  tokens: number;
+  truncated: boolean;
+};
+
+export type ContextReport = {
+  maxTokens: number;
+  tokens: number;
+  blocks: ContextBlockReport[];
+  // 検索結果以外から足したチャンク（前後の part・親セクション）
+  added: string[];
+  // 予算に収めるため途中で切った根拠に含まれるチャンク
+  truncated: string[];
+  // 予算に入らず外したチャンク
+  dropped: string[];
+};
+
+export type AssembledContext = {
+  chunks: StoredChunk[];
+  report: ContextReport;
+};
+
+export const DEFAULT_CONTEXT_MAX_TOKENS = Number(
+  process.env.CONTEXT_MAX_TOKENS ?? "6000"
+);
+
+// 【n】見出しパス（id: …）の行のうち、見出しパス以外の分
+const HEADER_TOKENS = 16;
+// 予算の残りがこれ未満なら切り詰めずに外す（数行だけの根拠は役に立たない）
+const MIN_TRUNCATED_TOKENS = 64;
+const TRUNCATED_MARK = "\n…（以下省略）";
+// 行番号の無いチャンク同士では、これより短い一致はオーバーラップとみなさない
+const MIN_OVERLAP_CHARS = 8;
+
+/**
+ * トークン数の推定（tokenizer は持たない）。
+ * ASCII は 4 文字で 1 トークン、かな漢字などそれ以外は 1 文字 1 トークンと数える。
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) < 0x80) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other);
+}
+
+/** 同じセクション（ファイル + 見出しパス）のチャンクを束ねるキー */
+export function sectionKey(
+  meta: Pick<ChunkMeta, "source" | "heading" | "headingPath">
+): string {
+  return [meta.source, ...(meta.headingPath ?? [meta.heading])].join("\u0000");
+}
+
+/** 前のチャンクの末尾と重なる部分を次のチャンクの先頭から除く */
+function dropOverlap(prev: StoredChunk, next: StoredChunk): string {
+  const { endLine } = prev.meta;
+  const { startLine } = next.meta;
+  const lines = endLine !== undefined && startLine !== undefined;
+  if (lines && startLine > endLine) return next.text;
+  const min = lines ? 1 : MIN_OVERLAP_CHARS;
+  for (let n = Math.min(prev.text.length, next.text.length); n >= min; n--) {
+    if (prev.text.endsWith(next.text.slice(0, n))) {
+      return next.text.slice(n).trimStart();
+    }
+  }
+  return next.text;
+}
+
+/** 予算（トークン）に収まるところで切る。後ろ半分に改行があればそこで切る */
+function truncateToTokens(text: string, budget: number): string {
+  const limit = budget - estimateTokens(TRUNCATED_MARK);
+  let used = 0;
+  let end = 0;
+  for (const ch of text) {
+    used += ch.charCodeAt(0) < 0x80 ? 0.25 : 1;
+    if (used > limit) break;
+    end += ch.length;
+  }
+  const newline = text.lastIndexOf("\n", end);
+  const cut = newline > end / 2 ? newline : end;
+  return text.slice(0, cut).trimEnd() + TRUNCATED_MARK;
+}
+
+type Block = { rank: number; chunks: StoredChunk[]; primary: StoredChunk };
+
+export function assembleContext(
+  retriever: Retriever,
+  hits: StoredChunk[],
+  options: ContextOptions = {}
+): AssembledContext {
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS;
+  const neighbors = options.neighbors ?? 0;
+  const hitIds = new Set(hits.map((c) => c.id));
+
+  // 使うチャンクと優先度（小さいほど先）。足したチャンクは元の検索結果の順位を引き継ぐ
+  const ranks = new Map<string, number>();
+  const chunks = new Map<string, StoredChunk>();
+  const select = (chunk: StoredChunk, rank: number) => {
+    chunks.set(chunk.id, chunk);
+    ranks.set(chunk.id, Math.min(ranks.get(chunk.id) ?? rank, rank));
+  };
+  hits.forEach((hit, i) => {
+    select(hit, i);
+    if (neighbors <= 0) return;
+    const section = retriever.sectionChunks(hit.meta);
+    const at = section.findIndex((c) => c.id === hit.id);
+    if (at < 0) return;
+    // 同じ根拠にまとまったとき、先頭の id が検索結果の方になるよう少しだけ後ろにする
+    for (const c of section.slice(
+      Math.max(0, at - neighbors),
+      at + neighbors + 1
+    ))
+      select(c, i + 0.5);
+  });
+  if (options.parent) {
+    hits.forEach((hit, i) => {
+      const path = hit.meta.headingPath;
+      if (!path || path.length < 2) return;
+      const parentPath = path.slice(0, -1);
+      const parent = retriever.sectionChunks({
+        source: hit.meta.source,
+        heading: parentPath.at(-1)!,
+        headingPath: parentPath,
+      });
+      for (const c of parent) select(c, hits.length + i);
+    });
+  }
+
+  // セクションごとに part 順に並べ、連続する part を 1 つの根拠にする
+  const bySection = new Map<string, StoredChunk[]>();
+  for (const c of chunks.values()) {
+    const key = sectionKey(c.meta);
+    bySection.set(key, [...(bySection.get(key) ?? []), c]);
+  }
+  const blocks: Block[] = [];
+  for (const section of bySection.values()) {
+    section.sort((a, b) => a.meta.part - b.meta.part);
+    let run: StoredChunk[] = [];
+    const flush = () => {
+      if (!run.length) return;
+      const primary = run.reduce((a, b) =>
+        ranks.get(b.id)! < ranks.get(a.id)! ? b : a
+      );
+      blocks.push({ rank: ranks.get(primary.id)!, chunks: run, primary });
+      run = [];
+    };
+    for (const c of section) {
+      if (run.length && c.meta.part !== run.at(-1)!.meta.part + 1) flush();
+      run.push(c);
+    }
+    flush();
+  }
+  blocks.sort((a, b) => a.rank - b.rank);
+
+  const out: StoredChunk[] = [];
+  const report: ContextReport = {
+    maxTokens,
+    tokens: 0,
+    blocks: [],
+    added: [],
+    truncated: [],
+    dropped: [],
+  };
+  for (const block of blocks) {
+    const ids = block.chunks.map((c) => c.id);
+    const first = block.chunks[0]!;
+    const last = block.chunks.at(-1)!;
+    let text = block.chunks
+      .map((c, i) => (i === 0 ? c.text : dropOverlap(block.chunks[i - 1]!, c)))
+      .filter(Boolean)
+      .join("\n");
+
+    const header =
+      HEADER_TOKENS + estimateTokens(breadcrumb(block.primary.meta));
+    const rest = maxTokens - report.tokens;
+    let tokens = header + estimateTokens(text);
+    let truncated = false;
+    if (tokens > rest) {
+      if (rest - header < MIN_TRUNCATED_TOKENS) {
+        report.dropped.push(...ids);
+        continue;
+      }
+      text = truncateToTokens(text, rest - header);
+      tokens = header + estimateTokens(text);
+      truncated = true;
+      report.truncated.push(...ids);
+    }
+
+    report.tokens += tokens;
+    report.blocks.push({
+      id: block.primary.id,
+      chunkIds: ids,
+      tokens,
+      truncated,
+    });
+    report.added.push(...ids.filter((id) => !hitIds.has(id)));
+    out.push(
+      block.chunks.length === 1 && !truncated
+        ? first
+        : {
+            id: block.primary.id,
+            text,
+            // meta は id と同じ primary のもの。行範囲だけ先頭の開始行から末尾の終了行まで広げる
+            meta: {
+              ...block.primary.meta,
+              ...(first.meta.startLine !== undefined && {
+                startLine: first.meta.startLine,
+              }),
+              ...(last.meta.endLine !== undefined && {
+                endLine: last.meta.endLine,
+              }),
+            },
+          }
+    );
+  }
+  return { chunks: out, report };
+}
+
+/** 組み立て結果をレスポンス用の形にする（HTTP / MCP で共通） */
+export function toContextSummary(report: ContextReport) {
+  return {
+    tokens: report.tokens,
+    max_tokens: report.maxTokens,
+    blocks: report.blocks.map((b) => ({
+      id: b.id,
+      chunk_ids: b.chunkIds,
+      tokens: b.tokens,
+      truncated: b.truncated,
+    })),
+    added: report.added,
+    truncated: report.truncated,
+    dropped: report.dropped,
+  };
+}
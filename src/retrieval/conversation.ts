@@ -0,0 +1,207 @@
+import { randomUUID } from "node:crypto";
+import { getOpenAI } from "./openai.js";
+import { DEFAULT_GEN_MODEL, type AnswerGenerator } from "./generator.js";
+import type { AnswerOptions } from "./answer.js";
+import type { Retriever } from "./retriever.js";
+import {
+  answerStructured,
+  type StructuredAnswerResult,
+} from "./structured_answer.js";
+
+/**
+ * 複数ターンの /answer（/chat と MCP の chat ツール）。
+ * 続きの質問（「じゃあ誰が確定できる？」）を履歴から単独で意味の通る質問に書き直し（condense）、
+ * それで検索・生成する。ターンごとの引用は会話に残す。
+ * 会話はクライアントが履歴を毎回送るか、サーバ側の ConversationStore（TTL 付き）に id で持たせる。
+ */
+export type ConversationTurn = {
+  question: string;
+  answer: string;
+  // 以下はサーバ側に保存したターンのみ
+  standaloneQuestion?: string;
+  citations?: string[]; // 引用した chunk id
+  at?: string; // ISO 8601
+};
+
+export type Conversation = {
+  id: string;
+  turns: ConversationTurn[];
+  createdAt: string;
+  // TTL はここから数える（ターンを足すたびに延びる）
+  updatedAtMs: number;
+};
+
+export const DEFAULT_CONVERSATION_TTL_MS =
+  Number(process.env.CONVERSATION_TTL_SECONDS ?? "1800") * 1000;
+// 1 つの会話に残すターン数（古いものから捨てる）
+export const DEFAULT_MAX_TURNS = 20;
+// condense に渡す直近のターン数
+export const DEFAULT_HISTORY_TURNS = 3;
+
+export type ConversationStoreOptions = {
+  ttlMs?: number;
+  maxTurns?: number;
+  // テスト用に時計を差し替える
+  now?: () => number;
+};
+
+/** プロセス内に会話を持つ（再起動で消える）。期限切れは触ったときに掃除する */
+export class ConversationStore {
+  readonly ttlMs: number;
+  readonly maxTurns: number;
+  private readonly now: () => number;
+  private readonly conversations = new Map<string, Conversation>();
+
+  constructor(options: ConversationStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CONVERSATION_TTL_MS;
+    this.maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+    this.now = options.now ?? Date.now;
+  }
+
+  create(): Conversation {
+    this.sweep();
+    const now = this.now();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      turns: [],
+      createdAt: new Date(now).toISOString(),
+      updatedAtMs: now,
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  /** 無い・期限切れなら undefined */
+  get(id: string): Conversation | undefined {
+    this.sweep();
+    return this.conversations.get(id);
+  }
+
+  append(id: string, turn: ConversationTurn): Conversation {
+    const conversation = this.get(id);
+    if (!conversation) throw new Error(`unknown conversation: ${id}`);
+    conversation.turns.push(turn);
+    conversation.turns.splice(0, conversation.turns.length - this.maxTurns);
+    conversation.updatedAtMs = this.now();
+    return conversation;
+  }
+
+  delete(id: string): boolean {
+    return this.conversations.delete(id);
+  }
+
+  get size(): number {
+    this.sweep();
+    return this.conversations.size;
+  }
+
+  private sweep(): void {
+    const expiredBefore = this.now() - this.ttlMs;
+    for (const [id, c] of this.conversations) {
+      if (c.updatedAtMs <= expiredBefore) this.conversations.delete(id);
+    }
+  }
+}
+
+/** 続きの質問を、履歴なしで検索できる単独の質問に書き直す */
+export interface QueryCondenser {
+  readonly name: string;
+  condense(history: ConversationTurn[], question: string): Promise<string>;
+}
+
+/**
+ * ネットワーク不要・決定的な condense。直前の質問を前に付けるだけ
+ * （「じゃあ誰が確定できる？」→「返金の流れは？ じゃあ誰が確定できる？」）。
+ */
+export class ConcatQueryCondenser implements QueryCondenser {
+  readonly name = "stub:concat";
+
+  async condense(history: ConversationTurn[], question: string) {
+    const last = history.at(-1);
+    return last ? `${last.question} ${question}` : question;
+  }
+}
+
+const CONDENSE_INSTRUCTIONS =
+  "あなたは社内仕様書検索のクエリ作成者です。会話の履歴と最後の質問から、履歴を見なくても意味が通る質問文を 1 つ作ってください。指示語（それ・その・あれ など）や省略された主語は履歴の具体的な語に置き換え、質問の言語は変えないでください。質問文だけを出力してください。";
+
+/** 既存の OpenAI クライアント（responses API）で書き直す。履歴が無ければ呼ばない */
+export class LlmQueryCondenser implements QueryCondenser {
+  readonly name: string;
+
+  constructor(readonly model: string = DEFAULT_GEN_MODEL) {
+    this.name = `llm:${model}`;
+  }
+
+  async condense(history: ConversationTurn[], question: string) {
+    if (history.length === 0) return question;
+    const turns = history
+      .map((t) => `Q: ${t.question}\nA: ${t.answer}`)
+      .join("\n\n");
+    const resp = await getOpenAI().responses.create({
+      model: this.model,
+      instructions: CONDENSE_INSTRUCTIONS,
+      input: `履歴:\n${turns}\n\n最後の質問: ${question}\n\n書き直した質問:`,
+    });
+    return resp.output_text?.trim() || question;
+  }
+}
+
+/**
+ * 回答生成器に合わせて condense を選ぶ（stub の生成器なら stub の condense）。
+ * llm のモデルは CONDENSE_MODEL > GEN_MODEL > 既定の生成モデル。
+ */
+export function createQueryCondenser(
+  name: string | undefined = process.env.ANSWER_GENERATOR
+): QueryCondenser {
+  const condenser = (name ?? "openai").toLowerCase();
+  if (condenser === "openai") {
+    return new LlmQueryCondenser(
+      process.env.CONDENSE_MODEL ?? process.env.GEN_MODEL ?? DEFAULT_GEN_MODEL
+    );
+  }
+  if (condenser === "stub") return new ConcatQueryCondenser();
+  throw new Error(
+    `unknown query condenser: ${name}（openai / stub のいずれかを指定）`
+  );
+}
+
+export type ConversationAnswerResult = StructuredAnswerResult & {
+  // 検索と生成に使った、単独で意味の通る質問
+  standaloneQuestion: string;
+  // 保存用のターン（回答は結論と詳細の本文だけ）
+  turn: ConversationTurn;
+};
+
+/** condense → answerStructured。履歴は直近 historyTurns ターンだけ使う */
+export async function answerConversation(
+  retriever: Retriever,
+  generator: AnswerGenerator,
+  condenser: QueryCondenser,
+  history: ConversationTurn[],
+  question: string,
+  options: AnswerOptions & { historyTurns?: number } = {}
+): Promise<ConversationAnswerResult> {
+  const { historyTurns = DEFAULT_HISTORY_TURNS, ...answerOptions } = options;
+  const recent = historyTurns > 0 ? history.slice(-historyTurns) : [];
+  const standaloneQuestion = await condenser.condense(recent, question);
+  const result = await answerStructured(
+    retriever,
+    generator,
+    standaloneQuestion,
+    answerOptions
+  );
+  return {
+    ...result,
+    standaloneQuestion,
+    turn: {
+      question,
+      answer: [...result.answer.conclusion, ...result.answer.details]
+        .map((s) => s.text)
+        .join("\n"),
+      standaloneQuestion,
+      citations: result.cited.map((c) => c.id),
+      at: new Date().toISOString(),
+    },
+  };
+}
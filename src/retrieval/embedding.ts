@@ -0,0 +1,140 @@
+import { getOpenAI } from "./openai.js";
+
+/**
+ * 埋め込みの実装を差し替えるためのインターフェース。
+ * model は IndexFile.model にそのまま記録され、検索時はそこから provider を復元する。
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-large";
+export const DEFAULT_LOCAL_DIM = 1024;
+
+const LOCAL_MODEL_PREFIX = "local:hashed-ngram:";
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(model: string = DEFAULT_OPENAI_EMBEDDING_MODEL) {
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const resp = await getOpenAI().embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return resp.data.map((d) => d.embedding);
+  }
+}
+
+/**
+ * ネットワーク不要・決定的なローカル埋め込み。
+ * 文字 2/3-gram（日本語向け）と英数字トークン（API パスやエラーコード向け）を
+ * 符号付き feature hashing で dim 次元に落とし、L2 正規化する。
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dim: number;
+
+  constructor(dim: number = DEFAULT_LOCAL_DIM) {
+    if (!Number.isInteger(dim) || dim <= 0) {
+      throw new Error(`invalid local embedding dim: ${dim}`);
+    }
+    this.dim = dim;
+    this.model = `${LOCAL_MODEL_PREFIX}${dim}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => hashedNgramVector(t, this.dim));
+  }
+}
+
+export function localFeatures(text: string): string[] {
+  const normalized = text.normalize("NFKC").toLowerCase();
+  const features: string[] = [];
+
+  for (const m of normalized.matchAll(/[a-z0-9_]+(?:[./-][a-z0-9_]+)*/g)) {
+    features.push(`w:${m[0]}`);
+  }
+
+  const chars = Array.from(normalized.replace(/\s+/g, " "));
+  for (const n of [2, 3]) {
+    for (let i = 0; i + n <= chars.length; i++) {
+      const gram = chars.slice(i, i + n).join("");
+      if (gram.includes(" ")) continue;
+      features.push(`${n}:${gram}`);
+    }
+  }
+  return features;
+}
+
+// FNV-1a 32bit
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function hashedNgramVector(text: string, dim: number): number[] {
+  const tf = new Map<string, number>();
+  for (const f of localFeatures(text)) tf.set(f, (tf.get(f) ?? 0) + 1);
+
+  const vec = new Array<number>(dim).fill(0);
+  for (const [f, count] of tf) {
+    const h = fnv1a(f);
+    const sign = h & 0x80000000 ? -1 : 1;
+    vec[h % dim]! += sign * (1 + Math.log(count));
+  }
+
+  let n = 0;
+  for (const v of vec) n += v * v;
+  n = Math.sqrt(n);
+  return n === 0 ? vec : vec.map((v) => v / n);
+}
+
+/**
+ * 新しくインデックスを作るときの provider を決める。
+ * 優先順位: 引数 > EMBEDDING_PROVIDER > openai
+ */
+export function createEmbeddingProvider(
+  name: string | undefined = process.env.EMBEDDING_PROVIDER
+): EmbeddingProvider {
+  const provider = (name ?? "openai").toLowerCase();
+  if (provider === "openai") {
+    return new OpenAIEmbeddingProvider(
+      process.env.EMBEDDING_MODEL ?? DEFAULT_OPENAI_EMBEDDING_MODEL
+    );
+  }
+  if (provider === "local") {
+    const dim = process.env.LOCAL_EMBEDDING_DIM;
+    return new LocalEmbeddingProvider(dim ? Number(dim) : DEFAULT_LOCAL_DIM);
+  }
+  throw new Error(
+    `unknown embedding provider: ${name}（openai / local のいずれかを指定）`
+  );
+}
+
+/** IndexFile.model から、クエリ埋め込みに使う provider を復元する */
+export function providerForModel(model: string): EmbeddingProvider {
+  if (model.startsWith(LOCAL_MODEL_PREFIX)) {
+    return new LocalEmbeddingProvider(
+      Number(model.slice(LOCAL_MODEL_PREFIX.length))
+    );
+  }
+  return new OpenAIEmbeddingProvider(model);
+}
+
+export async function embedQuery(
+  provider: EmbeddingProvider,
+  q: string
+): Promise<number[]> {
+  const [first] = await provider.embed([q]);
+  if (!first) throw new Error("embedding response is empty");
+  return first;
+}
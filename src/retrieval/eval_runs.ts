@@ -0,0 +1,357 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ChunkerOptions } from "./chunker.js";
+import type { QueryExpansion } from "./query_rewrite.js";
+import type { RankingConfig } from "./ranking.js";
+
+/**
+ * eval の実行結果（1 回分）。artifacts/eval_runs/<createdAt>.json に履歴として残し、
+ * compare で 2 回分を設問ごとに突き合わせる。
+ */
+export const DEFAULT_EVAL_RUNS_DIR = path.resolve(
+  process.env.EVAL_RUNS_DIR ?? "artifacts/eval_runs"
+);
+
+export type EvalConfig = {
+  collection: string;
+  indexFile: string;
+  questionsFile: string;
+  groundTruthFile: string | null;
+  embeddingModel: string;
+  topK: number;
+  alpha: number;
+  ann: { nlist: number } | null;
+  ranking: RankingConfig;
+  // 古いインデックス（chunker を記録していない）では null
+  chunker: ChunkerOptions | null;
+  // クエリの言い換え（--expand）。変換しなかった実行では省略
+  queryExpansion?: QueryExpansion;
+};
+
+export type EvalMetrics = {
+  hit: number;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+};
+
+export type EvalQuestionResult = {
+  index: number; // 1 始まり
+  question: string;
+  groundTruth: Array<{
+    source: string;
+    headingPath: string[];
+    resolved: boolean;
+  }>;
+  metrics: EvalMetrics | null; // 正解が無い設問は null
+  hits: Array<{
+    rank: number;
+    id: string;
+    path: string;
+    fused: number;
+    relevant: boolean;
+    targets: number[]; // groundTruth の添字
+  }>;
+};
+
+export type EvalSummary = {
+  questions: number;
+  scored: number;
+  // scored が 0 なら null
+  hitAtK: number | null;
+  recallAtK: number | null;
+  mrr: number | null;
+  ndcgAtK: number | null;
+};
+
+export type EvalRun = {
+  version: 1;
+  createdAt: string; // ISO 8601
+  config: EvalConfig;
+  summary: EvalSummary;
+  questions: EvalQuestionResult[];
+};
+
+export function summarizeEval(questions: EvalQuestionResult[]): EvalSummary {
+  return summarizeMetrics(questions.map((q) => q.metrics));
+}
+
+/** 設問ごとの指標（正解の無い設問は null）を平均する */
+export function summarizeMetrics(
+  metrics: Array<EvalMetrics | null>
+): EvalSummary {
+  const scored = metrics.flatMap((m) => (m ? [m] : []));
+  const avg = (f: (m: EvalMetrics) => number) =>
+    scored.length
+      ? scored.reduce((sum, m) => sum + f(m), 0) / scored.length
+      : null;
+  return {
+    questions: metrics.length,
+    scored: scored.length,
+    hitAtK: avg((m) => m.hit),
+    recallAtK: avg((m) => m.recall),
+    mrr: avg((m) => m.reciprocalRank),
+    ndcgAtK: avg((m) => m.ndcg),
+  };
+}
+
+export async function writeEvalRun(
+  run: EvalRun,
+  dir = DEFAULT_EVAL_RUNS_DIR
+): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  // ":" は Windows でファイル名に使えないので置き換える（辞書順 = 時系列は保たれる）
+  const file = path.join(dir, `${run.createdAt.replace(/:/g, "-")}.json`);
+  await fs.writeFile(file, JSON.stringify(run, null, 2) + "\n", "utf-8");
+  return file;
+}
+
+/** 古い順 */
+export async function listEvalRuns(
+  dir = DEFAULT_EVAL_RUNS_DIR
+): Promise<string[]> {
+  try {
+    const names = await fs.readdir(dir);
+    return names
+      .filter((n) => n.endsWith(".json"))
+      .sort()
+      .map((n) => path.join(dir, n));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+}
+
+export async function loadEvalRun(file: string): Promise<EvalRun> {
+  const raw = JSON.parse(await fs.readFile(file, "utf-8"));
+  if (raw?.version !== 1 || !Array.isArray(raw.questions)) {
+    throw new Error(`eval の実行結果として読めません: ${file}`);
+  }
+  return raw as EvalRun;
+}
+
+/**
+ * "latest"（最新）/ "previous"（その 1 つ前）/ ファイルパスのいずれかで実行結果を指す。
+ * exclude は今書いたばかりの実行結果を "latest" から外すのに使う。
+ */
+export async function resolveEvalRun(
+  ref: string,
+  dir = DEFAULT_EVAL_RUNS_DIR,
+  exclude?: string
+): Promise<string> {
+  if (ref !== "latest" && ref !== "previous") return path.resolve(ref);
+  const runs = (await listEvalRuns(dir)).filter(
+    (f) => path.resolve(f) !== (exclude && path.resolve(exclude))
+  );
+  const file = runs[runs.length - (ref === "latest" ? 1 : 2)];
+  if (!file) {
+    throw new Error(`${ref} に当たる実行結果が ${dir} にありません`);
+  }
+  return file;
+}
+
+export type QuestionDiff = {
+  index: number;
+  question: string;
+  base: EvalMetrics | null;
+  head: EvalMetrics | null;
+  // 最初に正解が出た順位（top-k 外は null）
+  firstHit: { base: number | null; head: number | null };
+  newlyMissed: string[]; // base では top-k に入っていた正解（"source > 見出し"）
+  newlyFound: string[];
+  rankChanges: Array<{
+    id: string;
+    relevant: boolean;
+    base: number | null;
+    head: number | null;
+  }>;
+};
+
+export type EvalComparison = {
+  base: { createdAt: string; summary: EvalSummary };
+  head: { createdAt: string; summary: EvalSummary };
+  configChanges: Array<{ key: string; base: string; head: string }>;
+  questions: QuestionDiff[];
+};
+
+function flattenConfig(config: EvalConfig): Map<string, string> {
+  // ranking は sourceWeights / headingRules 単位で差分が見えるよう 1 段だけ開く
+  const out = new Map<string, string>();
+  for (const [k, v] of Object.entries(config)) {
+    if (k === "ranking" && v && typeof v === "object") {
+      for (const [rk, rv] of Object.entries(v)) {
+        out.set(`ranking.${rk}`, JSON.stringify(rv));
+      }
+    } else {
+      out.set(k, JSON.stringify(v));
+    }
+  }
+  return out;
+}
+
+function coveredTargets(q: EvalQuestionResult): Set<string> {
+  const covered = new Set<string>();
+  for (const h of q.hits) {
+    for (const t of h.targets) {
+      const gt = q.groundTruth[t];
+      if (gt) covered.add([gt.source, ...gt.headingPath].join(" > "));
+    }
+  }
+  return covered;
+}
+
+/** 設問は index（何問目か）で突き合わせる */
+export function compareRuns(base: EvalRun, head: EvalRun): EvalComparison {
+  const baseConfig = flattenConfig(base.config);
+  const headConfig = flattenConfig(head.config);
+  const configChanges = [
+    ...new Set([...baseConfig.keys(), ...headConfig.keys()]),
+  ].flatMap((key) => {
+    const b = baseConfig.get(key) ?? "-";
+    const h = headConfig.get(key) ?? "-";
+    return b === h ? [] : [{ key, base: b, head: h }];
+  });
+
+  const baseByIndex = new Map(base.questions.map((q) => [q.index, q]));
+  const questions = head.questions.map((hq): QuestionDiff => {
+    const bq = baseByIndex.get(hq.index);
+    const firstHit = (q: EvalQuestionResult | undefined) =>
+      q?.hits.find((h) => h.relevant)?.rank ?? null;
+    const bCovered = bq ? coveredTargets(bq) : new Set<string>();
+    const hCovered = coveredTargets(hq);
+
+    const ids = [
+      ...new Set([...(bq?.hits ?? []), ...hq.hits].map((h) => h.id)),
+    ];
+    const rankChanges = ids.flatMap((id) => {
+      const b = bq?.hits.find((h) => h.id === id);
+      const h = hq.hits.find((x) => x.id === id);
+      const br = b?.rank ?? null;
+      const hr = h?.rank ?? null;
+      return br === hr
+        ? []
+        : [
+            {
+              id,
+              relevant: !!(b?.relevant || h?.relevant),
+              base: br,
+              head: hr,
+            },
+          ];
+    });
+
+    return {
+      index: hq.index,
+      question: hq.question,
+      base: bq?.metrics ?? null,
+      head: hq.metrics,
+      firstHit: { base: firstHit(bq), head: firstHit(hq) },
+      newlyMissed: [...bCovered].filter((t) => !hCovered.has(t)),
+      newlyFound: [...hCovered].filter((t) => !bCovered.has(t)),
+      rankChanges,
+    };
+  });
+
+  return {
+    base: { createdAt: base.createdAt, summary: base.summary },
+    head: { createdAt: head.createdAt, summary: head.summary },
+    configChanges,
+    questions,
+  };
+}
+
+/**
+ * recall@k が base より下がった箇所。全体平均だけでなく設問ごとに見る
+ * （Q10 を直して Q9 を落とした、が平均で相殺されないように）。
+ */
+export function findRegressions(
+  comparison: EvalComparison,
+  tolerance = 0
+): string[] {
+  const out: string[] = [];
+  const b = comparison.base.summary.recallAtK;
+  const h = comparison.head.summary.recallAtK;
+  if (b !== null && (h === null || h < b - tolerance)) {
+    out.push(`recall@k: ${fmt(b)} → ${fmt(h)}`);
+  }
+  for (const q of comparison.questions) {
+    if (q.base && (!q.head || q.head.recall < q.base.recall - tolerance)) {
+      out.push(
+        `Q${q.index} recall@k: ${fmt(q.base.recall)} → ${fmt(
+          q.head?.recall ?? null
+        )}${
+          q.newlyMissed.length
+            ? `（外れた正解: ${q.newlyMissed.join(" ／ ")}）`
+            : ""
+        }`
+      );
+    }
+  }
+  return out;
+}
+
+function fmt(n: number | null): string {
+  return n === null ? "-" : n.toFixed(3);
+}
+
+function rank(n: number | null): string {
+  return n === null ? "圏外" : String(n);
+}
+
+/** compare / 閾値チェックの結果をターミナル向けのテキストにする */
+export function formatComparison(c: EvalComparison): string {
+  const lines: string[] = [
+    `base: ${c.base.createdAt}`,
+    `head: ${c.head.createdAt}`,
+    "",
+  ];
+
+  if (c.configChanges.length) {
+    lines.push("config:");
+    for (const { key, base, head } of c.configChanges) {
+      lines.push(`  ${key}: ${base} → ${head}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("summary:");
+  for (const key of ["hitAtK", "recallAtK", "mrr", "ndcgAtK"] as const) {
+    const b = c.base.summary[key];
+    const h = c.head.summary[key];
+    const delta =
+      b !== null && h !== null
+        ? ` (${h - b >= 0 ? "+" : ""}${(h - b).toFixed(3)})`
+        : "";
+    lines.push(`  ${key}: ${fmt(b)} → ${fmt(h)}${delta}`);
+  }
+  lines.push("");
+
+  const before = lines.length;
+  for (const q of c.questions) {
+    const changed =
+      q.newlyMissed.length ||
+      q.newlyFound.length ||
+      q.firstHit.base !== q.firstHit.head ||
+      q.base?.recall !== q.head?.recall;
+    if (!changed && !q.rankChanges.some((r) => r.relevant)) continue;
+
+    lines.push(`Q${q.index}. ${q.question}`);
+    lines.push(
+      `  first hit: ${rank(q.firstHit.base)} → ${rank(
+        q.firstHit.head
+      )}  recall: ${fmt(q.base?.recall ?? null)} → ${fmt(
+        q.head?.recall ?? null
+      )}`
+    );
+    for (const t of q.newlyMissed) lines.push(`  - missed: ${t}`);
+    for (const t of q.newlyFound) lines.push(`  + found : ${t}`);
+    const others = q.rankChanges.filter((r) => !r.relevant).length;
+    for (const r of q.rankChanges.filter((r) => r.relevant)) {
+      lines.push(`  ✅ ${r.id}: ${rank(r.base)} → ${rank(r.head)}`);
+    }
+    if (others) lines.push(`  （正解以外の順位変動 ${others} 件）`);
+  }
+  if (lines.length === before) lines.push("設問ごとの変化なし");
+
+  return lines.join("\n");
+}
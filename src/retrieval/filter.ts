@@ -0,0 +1,280 @@
+import type { ChunkFilter, ChunkMeta } from "./types.js";
+
+/**
+ * 検索前にチャンクを絞り込むフィルタ式。
+ *   source in [docs/api.md, docs/faq.md]
+ *   tags contains payments and status != draft
+ *   heading startswith "POST /v1/orders" or path contains レスポンス
+ *   not (owner = payments-team)
+ * フィールド: source / heading（末尾見出し）/ path（見出しパス "A > B"）/ tags / owner / status / version
+ * 演算子   : = / != / in [..] / not in [..] / contains / startswith（prefix, ^= も可）
+ * and は or より強く結合する。比較は大文字小文字を区別しない。
+ * 値は空白や記号を含む場合だけ "..." か '...' で囲む。
+ */
+
+const FIELDS = [
+  "source",
+  "heading",
+  "path",
+  "tags",
+  "owner",
+  "status",
+  "version",
+] as const;
+type Field = (typeof FIELDS)[number];
+
+type Op = "=" | "!=" | "in" | "not in" | "contains" | "startswith";
+
+type Node =
+  | { kind: "and" | "or"; left: Node; right: Node }
+  | { kind: "not"; node: Node }
+  | { kind: "cond"; field: Field; op: Op; values: string[] };
+
+type Token = {
+  type: "word" | "string" | "punct";
+  value: string;
+  pos: number;
+};
+
+const TOKEN_RE =
+  /\s*(?:(!=|==|\^=|=|[()[\],])|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s()[\],=!^"']+))/y;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  let pos = 0;
+  while (pos < input.length) {
+    if (!input.slice(pos).trim()) break;
+    TOKEN_RE.lastIndex = pos;
+    const m = TOKEN_RE.exec(input);
+    if (!m) throw syntaxError(input, pos, "解釈できない文字があります");
+    const at = pos + (m[0].length - m[0].trimStart().length);
+    if (m[1] !== undefined)
+      tokens.push({ type: "punct", value: m[1], pos: at });
+    else if (m[2] !== undefined || m[3] !== undefined) {
+      const raw = (m[2] ?? m[3])!;
+      tokens.push({
+        type: "string",
+        value: raw.replace(/\\(.)/g, "$1"),
+        pos: at,
+      });
+    } else tokens.push({ type: "word", value: m[4]!, pos: at });
+    pos = TOKEN_RE.lastIndex;
+  }
+  return tokens;
+}
+
+function syntaxError(input: string, pos: number, message: string): Error {
+  return new Error(
+    `filter の構文エラー（${pos + 1} 文字目）: ${message}: ${input}`
+  );
+}
+
+class Parser {
+  private i = 0;
+  constructor(
+    private readonly input: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  parse(): Node {
+    const node = this.or();
+    const rest = this.tokens[this.i];
+    if (rest) throw this.error(rest, `余分なトークン "${rest.value}"`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.i];
+  }
+
+  private error(t: Token | undefined, message: string): Error {
+    return syntaxError(this.input, t?.pos ?? this.input.length, message);
+  }
+
+  private keyword(word: string): boolean {
+    const t = this.peek();
+    if (t?.type === "word" && t.value.toLowerCase() === word) {
+      this.i++;
+      return true;
+    }
+    return false;
+  }
+
+  private punct(value: string): boolean {
+    const t = this.peek();
+    if (t?.type === "punct" && t.value === value) {
+      this.i++;
+      return true;
+    }
+    return false;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.keyword("or")) left = { kind: "or", left, right: this.and() };
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.unary();
+    while (this.keyword("and"))
+      left = { kind: "and", left, right: this.unary() };
+    return left;
+  }
+
+  private unary(): Node {
+    if (this.keyword("not")) return { kind: "not", node: this.unary() };
+    if (this.punct("(")) {
+      const node = this.or();
+      if (!this.punct(")")) throw this.error(this.peek(), ") がありません");
+      return node;
+    }
+    return this.cond();
+  }
+
+  private cond(): Node {
+    const t = this.peek();
+    const field = t?.type === "word" ? t.value.toLowerCase() : undefined;
+    if (!FIELDS.includes(field as Field)) {
+      throw this.error(t, `フィールドは ${FIELDS.join(" / ")} のいずれか`);
+    }
+    this.i++;
+    const op = this.op();
+    const values =
+      op === "in" || op === "not in" ? this.list() : [this.value()];
+    return { kind: "cond", field: field as Field, op, values };
+  }
+
+  private op(): Op {
+    const t = this.peek();
+    if (this.punct("=") || this.punct("==")) return "=";
+    if (this.punct("!=")) return "!=";
+    if (this.punct("^=")) return "startswith";
+    if (this.keyword("in")) return "in";
+    if (this.keyword("contains")) return "contains";
+    if (this.keyword("startswith") || this.keyword("prefix"))
+      return "startswith";
+    if (this.keyword("not")) {
+      if (this.keyword("in")) return "not in";
+      throw this.error(this.peek(), "not の後には in が必要です");
+    }
+    throw this.error(
+      t,
+      "演算子は = / != / in / not in / contains / startswith のいずれか"
+    );
+  }
+
+  private value(): string {
+    const t = this.peek();
+    if (t?.type !== "word" && t?.type !== "string") {
+      throw this.error(t, "値がありません");
+    }
+    this.i++;
+    return t.value;
+  }
+
+  private list(): string[] {
+    if (!this.punct("[")) return [this.value()];
+    const values: string[] = [];
+    if (this.punct("]")) return values;
+    do values.push(this.value());
+    while (this.punct(","));
+    if (!this.punct("]")) throw this.error(this.peek(), "] がありません");
+    return values;
+  }
+}
+
+function fieldValues(meta: ChunkMeta, field: Field): string[] {
+  switch (field) {
+    case "source":
+      return [meta.source];
+    case "heading":
+      return [meta.heading];
+    case "path":
+      return [(meta.headingPath ?? [meta.heading]).join(" > ")];
+    case "tags":
+      return meta.tags ?? [];
+    default: {
+      const v = meta[field];
+      return v === undefined ? [] : [v];
+    }
+  }
+}
+
+function evaluate(node: Node, meta: ChunkMeta): boolean {
+  switch (node.kind) {
+    case "and":
+      return evaluate(node.left, meta) && evaluate(node.right, meta);
+    case "or":
+      return evaluate(node.left, meta) || evaluate(node.right, meta);
+    case "not":
+      return !evaluate(node.node, meta);
+    case "cond": {
+      const actual = fieldValues(meta, node.field).map((v) => v.toLowerCase());
+      const expected = node.values.map((v) => v.toLowerCase());
+      const x = expected[0] ?? "";
+      switch (node.op) {
+        case "=":
+          return actual.includes(x);
+        case "!=":
+          return !actual.includes(x);
+        case "in":
+          return actual.some((v) => expected.includes(v));
+        case "not in":
+          return !actual.some((v) => expected.includes(v));
+        case "contains":
+          // tags はタグの一致、それ以外は部分一致
+          return node.field === "tags"
+            ? actual.includes(x)
+            : actual.some((v) => v.includes(x));
+        case "startswith":
+          return actual.some((v) => v.startsWith(x));
+      }
+    }
+  }
+}
+
+function quote(v: string): string {
+  return /^[^\s()[\],=!^"']+$/.test(v) && !/^(and|or|not|in)$/i.test(v)
+    ? v
+    : `"${v.replace(/["\\]/g, "\\$&")}"`;
+}
+
+function format(node: Node, parent?: "and" | "or"): string {
+  switch (node.kind) {
+    case "and":
+    case "or": {
+      const s = `${format(node.left, node.kind)} ${node.kind} ${format(
+        node.right,
+        node.kind
+      )}`;
+      return parent && parent !== node.kind ? `(${s})` : s;
+    }
+    case "not":
+      return node.node.kind === "cond"
+        ? `not ${format(node.node)}`
+        : `not (${format(node.node)})`;
+    case "cond":
+      return node.op === "in" || node.op === "not in"
+        ? `${node.field} ${node.op} [${node.values.map(quote).join(", ")}]`
+        : `${node.field} ${node.op} ${quote(node.values[0]!)}`;
+  }
+}
+
+export function parseFilter(expression: string): ChunkFilter {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new Error("filter が空です");
+  const ast = new Parser(expression, tokens).parse();
+  return {
+    expression: format(ast),
+    test: (meta) => evaluate(ast, meta),
+  };
+}
+
+export function toChunkFilter(
+  filter: string | ChunkFilter | undefined
+): ChunkFilter | undefined {
+  if (filter === undefined) return undefined;
+  return typeof filter === "string" ? parseFilter(filter) : filter;
+}
@@ -0,0 +1,63 @@
+import { parse } from "yaml";
+import type { DocumentAttributes } from "./types.js";
+
+/**
+ * 先頭の YAML front matter（--- で囲んだブロック）を読む。
+ *   ---
+ *   owner: payments-team
+ *   tags: [payments, refund]
+ *   status: approved
+ *   version: 2.1
+ *   ---
+ * body は front matter の行を空行に置き換えたもの（チャンクの行番号を元ファイルと揃えるため）。
+ * 認識するのは owner / tags / status / version だけで、それ以外のキーは無視する。
+ * 値は数値に読み替えず書いたとおりの文字列で持つ（failsafe スキーマ。version: 1.10 が "1.1" にならない）。
+ */
+const FRONT_MATTER_RE = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export function parseFrontMatter(content: string): {
+  attributes: DocumentAttributes;
+  body: string;
+} {
+  const m = content.match(FRONT_MATTER_RE);
+  if (!m) return { attributes: {}, body: content };
+
+  let raw: unknown;
+  try {
+    raw = parse(m[1]!, { schema: "failsafe" });
+  } catch (e) {
+    throw new Error(
+      `front matter の YAML が不正です: ${e instanceof Error ? e.message : e}`
+    );
+  }
+  const lines = m[0].split("\n").length - 1;
+  const body = "\n".repeat(lines) + content.slice(m[0].length);
+  return { attributes: toAttributes(raw), body };
+}
+
+function scalar(v: unknown): string | undefined {
+  if (typeof v === "string") return v.trim() || undefined;
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  return undefined;
+}
+
+function toAttributes(raw: unknown): DocumentAttributes {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+  const o = raw as Record<string, unknown>;
+  // tags は配列でも "a, b" の文字列でも書けるようにする
+  const tags = (
+    Array.isArray(o.tags)
+      ? o.tags.map(scalar)
+      : (scalar(o.tags)?.split(",") ?? []).map((t) => t.trim())
+  ).filter((t): t is string => !!t);
+
+  const owner = scalar(o.owner);
+  const status = scalar(o.status);
+  const version = scalar(o.version);
+  return {
+    ...(owner && { owner }),
+    ...(tags.length && { tags }),
+    ...(status && { status }),
+    ...(version && { version }),
+  };
+}
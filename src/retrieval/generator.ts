@@ -0,0 +1,235 @@
+import { tokenize } from "./bm25.js";
+import { getOpenAI } from "./openai.js";
+
+/**
+ * 回答生成の実装を差し替えるためのインターフェース（/answer と回答品質 eval で共用）。
+ * context は【1】【2】… の番号付きで渡し、回答はその番号で引用する。
+ */
+export interface AnswerGenerator {
+  readonly model: string;
+  generate(input: GenerationInput): Promise<string>;
+  // 逐次出力できる実装だけ持つ（無ければ streamGeneration が generate の結果を 1 回で流す）
+  // signal が abort されたら生成を打ち切る
+  stream?(
+    input: GenerationInput,
+    signal?: AbortSignal
+  ): AsyncIterable<GenerationEvent>;
+}
+
+export type GenerationInput = {
+  instructions: string;
+  // モデルに渡す本文（プロンプトテンプレートの input。prompts.ts の renderPrompt で作る）
+  input: string;
+  question: string;
+  // 【n】見出しパス + 本文、を空行区切りで並べたもの
+  context: string;
+  // context と同じ並びの本文（番号 = 添字 + 1）
+  passages: string[];
+  // passages と同じ並びの chunk id
+  ids: string[];
+  // 指定時は JSON（schema に沿った形）で答えさせる
+  format?: GenerationFormat | undefined;
+};
+
+export type GenerationFormat = {
+  name: string;
+  schema: Record<string, unknown>; // JSON Schema
+};
+
+export type GenerationUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+/** delta を 0 回以上流し、最後に done を 1 回だけ流す */
+export type GenerationEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; usage: GenerationUsage | null };
+
+export const DEFAULT_GEN_MODEL = "gpt-5-mini";
+
+// 出力は呼び出し側で zod 検証してフォールバックするので strict にはしない
+// （strict は使えるキーワードが限られ、minItems などを書けなくなる）
+function toTextFormat(format: GenerationFormat | undefined) {
+  return format
+    ? {
+        text: {
+          format: {
+            type: "json_schema" as const,
+            name: format.name,
+            schema: format.schema,
+            strict: false,
+          },
+        },
+      }
+    : {};
+}
+
+export class OpenAIAnswerGenerator implements AnswerGenerator {
+  readonly model: string;
+
+  constructor(model: string = DEFAULT_GEN_MODEL) {
+    this.model = model;
+  }
+
+  async generate(input: GenerationInput): Promise<string> {
+    const resp = await getOpenAI().responses.create({
+      model: this.model,
+      instructions: input.instructions,
+      input: input.input,
+      ...toTextFormat(input.format),
+    });
+    return resp.output_text ?? "(no output_text)";
+  }
+
+  async *stream(
+    input: GenerationInput,
+    signal?: AbortSignal
+  ): AsyncIterable<GenerationEvent> {
+    const events = await getOpenAI().responses.create(
+      {
+        model: this.model,
+        instructions: input.instructions,
+        input: input.input,
+        ...toTextFormat(input.format),
+        stream: true,
+      },
+      { ...(signal && { signal }) }
+    );
+    let text = "";
+    for await (const event of events) {
+      if (event.type === "response.output_text.delta") {
+        text += event.delta;
+        yield { type: "delta", text: event.delta };
+      } else if (event.type === "response.completed") {
+        const usage = event.response.usage;
+        yield {
+          type: "done",
+          text: event.response.output_text || text,
+          usage: usage
+            ? {
+                inputTokens: usage.input_tokens,
+                outputTokens: usage.output_tokens,
+                totalTokens: usage.total_tokens,
+              }
+            : null,
+        };
+        return;
+      } else if (event.type === "response.failed" || event.type === "error") {
+        throw new Error(
+          `generation failed: ${
+            event.type === "error"
+              ? event.message
+              : event.response.error?.message ?? "unknown error"
+          }`
+        );
+      }
+    }
+    // completed が来ないまま終わった（incomplete など）ときも、それまでの分で閉じる
+    yield { type: "done", text, usage: null };
+  }
+}
+
+/**
+ * ネットワーク不要・決定的なスタブ。
+ * 質問と語（BM25 と同じトークン）が多く重なる根拠の行を抜き出し、【n】を付けて並べる。
+ * 何も重ならなければ「不明」と答える（本物の生成器に指示しているのと同じ振る舞い）。
+ * format 指定時は構造化回答（structured_answer.ts）の形の JSON で、1 行目を結論にして返す。
+ */
+export class StubAnswerGenerator implements AnswerGenerator {
+  readonly model = "stub:extractive";
+
+  constructor(private readonly maxLines = 3, private readonly minOverlap = 2) {}
+
+  async generate(input: GenerationInput): Promise<string> {
+    const picked = this.pick(input);
+    if (input.format) {
+      const sentences = picked.map((l) => ({
+        text: l.line,
+        citations: [input.ids[l.n - 1] ?? `${l.n}`],
+      }));
+      return JSON.stringify({
+        conclusion: sentences.length
+          ? sentences.slice(0, 1)
+          : [{ text: "根拠からは不明です。", citations: [] }],
+        details: sentences.slice(1),
+      });
+    }
+
+    if (picked.length === 0) return "根拠からは不明です。";
+    const refs = [...new Set(picked.map((l) => `【${l.n}】`))].join("");
+    return `${picked
+      .map((l) => `${l.line}【${l.n}】`)
+      .join("\n")}\n\n参照: ${refs}`;
+  }
+
+  private pick(input: GenerationInput) {
+    const q = new Set(tokenize(input.question));
+    const lines = input.passages.flatMap((text, i) =>
+      text
+        .split(/\r?\n|(?<=。)/)
+        .map((l) => l.replace(/^[\s*#>|-]+/, "").trim())
+        .filter((l) => l && !l.startsWith("```"))
+        .map((line, li) => ({
+          line,
+          n: i + 1,
+          order: i * 10000 + li,
+          overlap: new Set(tokenize(line).filter((t) => q.has(t))).size,
+        }))
+    );
+    return lines
+      .filter((l) => l.overlap >= this.minOverlap)
+      .sort((a, b) => b.overlap - a.overlap || a.order - b.order)
+      .slice(0, this.maxLines)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /** 本番の逐次出力を真似て、行ごとに流す */
+  async *stream(
+    input: GenerationInput,
+    signal?: AbortSignal
+  ): AsyncIterable<GenerationEvent> {
+    const text = await this.generate(input);
+    for (const piece of text.split(/(?<=\n)/)) {
+      if (signal?.aborted) return;
+      yield { type: "delta", text: piece };
+    }
+    yield { type: "done", text, usage: null };
+  }
+}
+
+/** stream を持たない生成器でも同じ形で流せるようにする */
+export async function* streamGeneration(
+  generator: AnswerGenerator,
+  input: GenerationInput,
+  signal?: AbortSignal
+): AsyncIterable<GenerationEvent> {
+  if (generator.stream) {
+    yield* generator.stream(input, signal);
+    return;
+  }
+  const text = await generator.generate(input);
+  if (signal?.aborted) return;
+  yield { type: "delta", text };
+  yield { type: "done", text, usage: null };
+}
+
+/**
+ * /answer や eval で使う生成器を決める。
+ * 優先順位: 引数 > ANSWER_GENERATOR > openai（モデルは GEN_MODEL）
+ */
+export function createAnswerGenerator(
+  name: string | undefined = process.env.ANSWER_GENERATOR
+): AnswerGenerator {
+  const generator = (name ?? "openai").toLowerCase();
+  if (generator === "openai") {
+    return new OpenAIAnswerGenerator(
+      process.env.GEN_MODEL ?? DEFAULT_GEN_MODEL
+    );
+  }
+  if (generator === "stub") return new StubAnswerGenerator();
+  throw new Error(
+    `unknown answer generator: ${name}（openai / stub のいずれかを指定）`
+  );
+}
@@ -0,0 +1,223 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ChunkMeta, StoredChunk } from "./types.js";
+
+/**
+ * docs/ground_truth_map.md の表を読み、検索結果を自動判定する。
+ *   | # | 質問 | 根拠（ファイル > 見出し） |
+ *   | 3 | 冪等性の担保 | `docs/api.md` > `共通ヘッダ` > `Idempotency-Key…` ＋ `docs/overview.md` > `非機能（抜粋）` |
+ * 「＋」で区切った根拠はそれぞれ別の正解（target）として数える。
+ */
+export type GroundTruthTarget = {
+  source: string;
+  headingPath: string[];
+};
+
+export type GroundTruthEntry = {
+  index: number; // 表の # 列（evaluation_questions.md の何問目か）
+  label: string;
+  targets: GroundTruthTarget[];
+};
+
+/**
+ * インデックスに照らして解決した target。
+ * 見出しとして見つかった部分を section、見つからなかった残り（"409 Conflict" のような本文中の語）を anchors にする。
+ */
+export type ResolvedTarget = {
+  target: GroundTruthTarget;
+  section: string[];
+  anchors: string[];
+  // source の見出しが 1 つも見つからない（表の書き間違いかインデックスが古い）
+  resolved: boolean;
+};
+
+export type RankingMetrics = {
+  hit: number; // hit@k（0 or 1）
+  recall: number; // recall@k（top-k でカバーできた target の割合）
+  reciprocalRank: number; // 最初に正解が出た順位の逆数（top-k 外は 0）
+  ndcg: number; // nDCG@k（target ごとに最初に当たったチャンクだけ gain 1）
+  // hits と同じ並びで、各チャンクが当たった target の番号
+  matches: number[][];
+};
+
+/** 評価用のファイル（evaluation_questions.md など）はリポジトリ直下 → docs/ → artifacts/ の順に探す */
+export const EVAL_FILE_DIRS = [".", "docs", "artifacts"];
+
+export async function findEvalFile(
+  name: string,
+  dirs: string[] = EVAL_FILE_DIRS
+): Promise<string | undefined> {
+  for (const dir of dirs) {
+    const file = path.resolve(dir, name);
+    try {
+      await fs.access(file);
+      return file;
+    } catch {
+      // continue
+    }
+  }
+  return undefined;
+}
+
+export function parseQuestions(md: string): string[] {
+  // 1) 先頭の "1. xxx" / "1) xxx" / "- xxx" みたいなのを拾う
+  const lines = md.split(/\r?\n/).map((l) => l.trim());
+  const qs: string[] = [];
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    const m1 = line.match(/^\d+[\.\)]\s*(.+)$/); // 1. / 1)
+    if (m1?.[1]) {
+      qs.push(m1[1].trim());
+      continue;
+    }
+
+    const m2 = line.match(/^[-*]\s+(.+)$/); // - / *
+    if (m2?.[1]) {
+      qs.push(m2[1].trim());
+      continue;
+    }
+
+    // "Q1: xxx" 形式も許容
+    const m3 = line.match(/^Q\d+[:：]\s*(.+)$/i);
+    if (m3?.[1]) {
+      qs.push(m3[1].trim());
+      continue;
+    }
+  }
+
+  // 2) それでも取れない場合、本文中の "?" を含む行を拾う（保険）
+  if (qs.length === 0) {
+    for (const line of lines) {
+      if (line.includes("?") || line.includes("？")) qs.push(line);
+    }
+  }
+
+  return qs;
+}
+
+export function parseGroundTruthMap(md: string): GroundTruthEntry[] {
+  const entries: GroundTruthEntry[] = [];
+  for (const line of md.split(/\r?\n/)) {
+    if (!line.trim().startsWith("|")) continue;
+    const cells = line
+      .trim()
+      .replace(/^\||\|$/g, "")
+      .split("|")
+      .map((c) => c.trim());
+    // ヘッダ行と区切り行（| --: | --- |）は # 列が数字にならないので落ちる
+    const index = Number(cells[0]);
+    if (cells.length < 3 || !Number.isInteger(index) || cells[0] === "") {
+      continue;
+    }
+    const targets = cells[cells.length - 1]!.split("＋")
+      .map(parseTarget)
+      .filter((t): t is GroundTruthTarget => t !== undefined);
+    entries.push({ index, label: cells[1]!, targets });
+  }
+  return entries;
+}
+
+function parseTarget(s: string): GroundTruthTarget | undefined {
+  const quoted = [...s.matchAll(/`([^`]+)`/g)].map((m) => m[1]!.trim());
+  const parts = quoted.length
+    ? quoted
+    : s
+        .split(">")
+        .map((p) => p.trim())
+        .filter(Boolean);
+  const [source, ...headingPath] = parts;
+  return source ? { source, headingPath } : undefined;
+}
+
+function norm(s: string): string {
+  return s.normalize("NFKC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** "Q7" が "Q7. Web管理画面で…" に当たるよう、区切り文字までの前方一致も許す（"Q1" と "Q10" は区別） */
+function headingMatches(heading: string, segment: string): boolean {
+  const h = norm(heading);
+  const s = norm(segment);
+  return h === s || (h.startsWith(s) && !/[\p{L}\p{N}]/u.test(h[s.length]!));
+}
+
+function pathOf(meta: ChunkMeta): string[] {
+  return meta.headingPath ?? [meta.heading];
+}
+
+function sharedPrefix(path: string[], segments: string[]): number {
+  let n = 0;
+  while (
+    n < path.length &&
+    n < segments.length &&
+    headingMatches(path[n]!, segments[n]!)
+  ) {
+    n++;
+  }
+  return n;
+}
+
+export function resolveTarget(
+  chunks: StoredChunk[],
+  target: GroundTruthTarget
+): ResolvedTarget {
+  const inSource = chunks.filter((c) => c.meta.source === target.source);
+  const depth = Math.max(
+    0,
+    ...inSource.map((c) => sharedPrefix(pathOf(c.meta), target.headingPath))
+  );
+  return {
+    target,
+    section: target.headingPath.slice(0, depth),
+    anchors: target.headingPath.slice(depth),
+    resolved:
+      inSource.length > 0 && (depth > 0 || target.headingPath.length === 0),
+  };
+}
+
+export function matchesTarget(
+  chunk: StoredChunk,
+  resolved: ResolvedTarget
+): boolean {
+  if (!resolved.resolved || chunk.meta.source !== resolved.target.source) {
+    return false;
+  }
+  const path = pathOf(chunk.meta);
+  if (sharedPrefix(path, resolved.section) < resolved.section.length) {
+    return false;
+  }
+  const text = norm(chunk.text);
+  return resolved.anchors.every((a) => text.includes(norm(a)));
+}
+
+/** top-k（hits はすでに k 件に切ってある前提）を target に照らして採点する */
+export function scoreRanking(
+  hits: StoredChunk[],
+  targets: ResolvedTarget[]
+): RankingMetrics {
+  const matches = hits.map((chunk) =>
+    targets.flatMap((t, ti) => (matchesTarget(chunk, t) ? [ti] : []))
+  );
+  const covered = new Set<number>();
+  let dcg = 0;
+  let firstHit = 0;
+  matches.forEach((m, i) => {
+    if (m.length && !firstHit) firstHit = i + 1;
+    const fresh = m.filter((ti) => !covered.has(ti));
+    if (fresh.length) dcg += 1 / Math.log2(i + 2);
+    fresh.forEach((ti) => covered.add(ti));
+  });
+
+  let idcg = 0;
+  for (let i = 0; i < Math.min(targets.length, hits.length); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+  return {
+    hit: firstHit ? 1 : 0,
+    recall: targets.length ? covered.size / targets.length : 0,
+    reciprocalRank: firstHit ? 1 / firstHit : 0,
+    ndcg: idcg ? dcg / idcg : 0,
+    matches,
+  };
+}
@@ -0,0 +1,100 @@
+import { chunkMarkdown } from "./chunker.js";
+import type { DocumentLoader } from "./loaders.js";
+
+/**
+ * HTML エクスポート（Confluence / Google Docs など）を Markdown 相当のテキストに直してから分割する。
+ * - h1〜h6 は Markdown の見出しにする（パンくずを Markdown と揃えるため）
+ * - pre はコードフェンス、li は箇条書き、表は | 区切りの行にする
+ * - script / style / コメントは捨て、それ以外のタグは外す
+ * 変換後の行番号は元の HTML と対応しないので startLine / endLine は付けない。
+ */
+export const htmlLoader: DocumentLoader = {
+  name: "html",
+  extensions: [".html", ".htm"],
+  load: (content, options) =>
+    chunkMarkdown(htmlToMarkdown(content), options).map(
+      ({ startLine: _s, endLine: _e, ...c }) => c
+    ),
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code =
+        e[1] === "x" || e[1] === "X"
+          ? parseInt(e.slice(2), 16)
+          : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+/** インライン要素だけのテキストにする（見出し・セルなど 1 行に収めるもの） */
+function inlineText(html: string): string {
+  return decodeEntities(stripTags(html)).replace(/\s+/g, " ").trim();
+}
+
+export function htmlToMarkdown(html: string): string {
+  // pre の中身は空白を保ったまま最後に戻す
+  const blocks: string[] = [];
+  const stash = (text: string) =>
+    `\n\n\u0000${blocks.push(text) - 1}\u0000\n\n`;
+
+  let s = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|head|template)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_m, body: string) =>
+      stash(
+        "```\n" +
+          decodeEntities(stripTags(body)).replace(/^\n|\n$/g, "") +
+          "\n```"
+      )
+    )
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_m, body: string) => {
+      const rows = [...body.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map(
+        (r) =>
+          [...r[1]!.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((c) =>
+            inlineText(c[1]!).replace(/\|/g, "\\|")
+          )
+      );
+      if (rows.length === 0) return "\n\n";
+      const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+      // 先頭行をヘッダとして区切り行を入れる
+      lines.splice(1, 0, `|${" --- |".repeat(rows[0]!.length)}`);
+      return stash(lines.join("\n"));
+    })
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_m, level: string, body: string) =>
+        `\n\n${"#".repeat(Number(level))} ${inlineText(body)}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|dl|dt|dd|blockquote|figure|hr)\b[^>]*>/gi,
+      "\n\n"
+    );
+
+  s = decodeEntities(stripTags(s));
+  s = s
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\u0000(\d+)\u0000/g, (_m, i: string) => blocks[Number(i)]!);
+  return s.trim() + "\n";
+}
@@ -0,0 +1,96 @@
+import { ROOT_HEADING } from "./chunker.js";
+import { contentHash } from "./incremental.js";
+import type { ChunkMeta, StoredChunk } from "./types.js";
+
+/**
+ * チャンク id は「source::見出しパス::part」。
+ * 同じファイルに同じ見出しパスのセクションが複数ある場合は 2 つ目以降に ~2, ~3 ... を付ける。
+ *   docs/api.md::POST /v1/orders > レスポンス::0
+ *   docs/faq.md::FAQ~2::0
+ */
+export function chunkId(
+  source: string,
+  headingPath: string[],
+  part: number,
+  occurrence = 1
+): string {
+  const path = headingPath.length ? headingPath.join(" > ") : ROOT_HEADING;
+  const dup = occurrence > 1 ? `~${occurrence}` : "";
+  return `${source}::${path}${dup}::${part}`;
+}
+
+/**
+ * チャンカー出力（ファイル内の出現順）に id を振る。
+ * part が 0 に戻ったら新しいセクションなので、同じパスの出現回数を数える。
+ */
+export function assignChunkIds<T extends { meta: ChunkMeta }>(
+  chunks: T[]
+): Array<T & { id: string }> {
+  const seen = new Map<string, number>();
+  return chunks.map((c) => {
+    const path = c.meta.headingPath ?? [c.meta.heading];
+    const key = `${c.meta.source}\u0000${path.join("\u0000")}`;
+    if (c.meta.part === 0) seen.set(key, (seen.get(key) ?? 0) + 1);
+    return {
+      ...c,
+      id: chunkId(c.meta.source, path, c.meta.part, seen.get(key) ?? 1),
+    };
+  });
+}
+
+/** id 重複はビルド失敗にする（fetch が先頭の 1 件だけを返してしまうため） */
+export function assertUniqueIds(chunks: Array<{ id: string }>): void {
+  const seen = new Set<string>();
+  const dups = new Set<string>();
+  for (const c of chunks) {
+    if (seen.has(c.id)) dups.add(c.id);
+    seen.add(c.id);
+  }
+  if (dups.size > 0) {
+    throw new Error(`chunk id が重複しています:\n- ${[...dups].join("\n- ")}`);
+  }
+}
+
+/**
+ * 前回インデックスから消えた id → 今回の id の対応表を作る（引用済み id を生かすため）。
+ *   1) 本文ハッシュが一致するチャンク
+ *   2) 同じ source・同じ末尾見出し・同じ part（見出し名以外の構造が変わった場合）
+ * 前回の aliases も引き継ぎ、行き先が消えていれば辿り直す。
+ * 同じ旧 id が複数あった場合（旧形式の重複 id）は、従来 fetch が返していた先頭を採用する。
+ */
+export function buildAliases(
+  previous:
+    | { chunks: StoredChunk[]; aliases?: Record<string, string> | undefined }
+    | undefined,
+  chunks: StoredChunk[]
+): Record<string, string> {
+  if (!previous) return {};
+
+  const live = new Set(chunks.map((c) => c.id));
+  const byHash = new Map<string, string>();
+  const byLeaf = new Map<string, string>();
+  for (const c of chunks) {
+    const hash = c.hash ?? contentHash(c.text);
+    if (!byHash.has(hash)) byHash.set(hash, c.id);
+    const leaf = `${c.meta.source}\u0000${c.meta.heading}\u0000${c.meta.part}`;
+    if (!byLeaf.has(leaf)) byLeaf.set(leaf, c.id);
+  }
+
+  const moved = new Map<string, string>();
+  for (const c of previous.chunks) {
+    if (live.has(c.id) || moved.has(c.id)) continue;
+    const target =
+      byHash.get(c.hash ?? contentHash(c.text)) ??
+      byLeaf.get(`${c.meta.source}\u0000${c.meta.heading}\u0000${c.meta.part}`);
+    if (target) moved.set(c.id, target);
+  }
+
+  const aliases: Record<string, string> = {};
+  for (const [from, to] of Object.entries(previous.aliases ?? {})) {
+    if (live.has(from)) continue;
+    const target = live.has(to) ? to : moved.get(to);
+    if (target) aliases[from] = target;
+  }
+  for (const [from, to] of moved) aliases[from] = to;
+  return aliases;
+}
@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import type { IndexedChunk, IndexFile } from "./types.js";
+
+export type PendingChunk = Omit<IndexedChunk, "embedding" | "hash">;
+
+export type BuildSummary = {
+  added: number;
+  updated: number;
+  removed: number;
+  reused: number;
+};
+
+export type IncrementalPlan = {
+  // embedding が確定したもの（前回インデックスから流用）
+  reused: IndexedChunk[];
+  // これから埋め込みが必要なもの
+  toEmbed: Array<Omit<IndexedChunk, "embedding">>;
+  // 出力順を保つため、chunks と同じ並びで reused / toEmbed のどちらに入ったかを持つ
+  order: Array<{ kind: "reused" | "toEmbed"; at: number }>;
+  summary: BuildSummary;
+};
+
+/** 埋め込みは本文だけで決まるので、本文のハッシュを再利用キーにする */
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text, "utf-8").digest("hex");
+}
+
+/**
+ * 前回インデックスと今回のチャンク列を突き合わせ、埋め込み済みを流用できるものを選ぶ。
+ * - 本文ハッシュが前回と一致 → reused（id が変わっていても流用）
+ * - 同じ id が前回もあったが本文が変化 → updated
+ * - それ以外 → added
+ * - 前回にあって今回無い id → removed
+ * model が違う場合は埋め込み空間が異なるので何も流用しない。
+ */
+export function planIncrementalBuild(
+  previous: IndexFile | undefined,
+  model: string,
+  chunks: PendingChunk[]
+): IncrementalPlan {
+  const prevChunks = previous?.model === model ? previous.chunks : [];
+
+  const byHash = new Map<string, number[]>();
+  for (const c of prevChunks) {
+    byHash.set(c.hash ?? contentHash(c.text), c.embedding);
+  }
+  const prevIds = new Set(prevChunks.map((c) => c.id));
+  const nextIds = new Set(chunks.map((c) => c.id));
+
+  const plan: IncrementalPlan = {
+    reused: [],
+    toEmbed: [],
+    order: [],
+    summary: { added: 0, updated: 0, removed: 0, reused: 0 },
+  };
+
+  for (const c of chunks) {
+    const hash = contentHash(c.text);
+    const embedding = byHash.get(hash);
+    if (embedding) {
+      plan.order.push({ kind: "reused", at: plan.reused.length });
+      plan.reused.push({ ...c, hash, embedding });
+      plan.summary.reused++;
+      continue;
+    }
+    plan.order.push({ kind: "toEmbed", at: plan.toEmbed.length });
+    plan.toEmbed.push({ ...c, hash });
+    if (prevIds.has(c.id)) plan.summary.updated++;
+    else plan.summary.added++;
+  }
+
+  for (const c of prevChunks) {
+    if (!nextIds.has(c.id)) plan.summary.removed++;
+  }
+
+  return plan;
+}
+
+/** plan と新規埋め込み結果から、元のチャンク順で IndexedChunk[] を組み立てる */
+export function assembleChunks(
+  plan: IncrementalPlan,
+  embedded: IndexedChunk[]
+): IndexedChunk[] {
+  return plan.order.map(({ kind, at }) => {
+    const c = kind === "reused" ? plan.reused[at] : embedded[at];
+    if (!c) throw new Error(`missing ${kind} chunk at ${at}`);
+    return c;
+  });
+}
@@ -0,0 +1,312 @@
+export * from "./types.js";
+export { dot, norm, cosineSim } from "./similarity.js";
+export {
+  DEFAULT_RANKING_FILE,
+  NEUTRAL_RANKING,
+  RankingConfigSchema,
+  headingWeight,
+  loadRankingConfig,
+  parseRankingConfig,
+  sourceWeight,
+  watchRankingConfig,
+} from "./ranking.js";
+export type { RankingConfig } from "./ranking.js";
+export {
+  DEFAULT_LOCAL_DIM,
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+  LocalEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+  embedQuery,
+  localFeatures,
+  providerForModel,
+} from "./embedding.js";
+export type { EmbeddingProvider } from "./embedding.js";
+export { getOpenAI } from "./openai.js";
+export {
+  DEFAULT_CHUNKER_OPTIONS,
+  ROOT_HEADING,
+  breadcrumb,
+  chunkMarkdown,
+  chunkPlainText,
+} from "./chunker.js";
+export type { ChunkerOptions, MarkdownChunk } from "./chunker.js";
+export {
+  DEFAULT_LOADERS,
+  createLoaderRegistry,
+  loadDocument,
+  loaderFor,
+  markdownLoader,
+  textLoader,
+  toChunkMeta,
+} from "./loaders.js";
+export type {
+  DocumentChunk,
+  DocumentLoader,
+  LoaderRegistry,
+} from "./loaders.js";
+export { htmlLoader, htmlToMarkdown } from "./html_loader.js";
+export { chunkOpenApi, openApiLoader } from "./openapi_loader.js";
+export { chunkTsDoc, tsDocLoader } from "./ts_loader.js";
+export {
+  assertUniqueIds,
+  assignChunkIds,
+  buildAliases,
+  chunkId,
+} from "./ids.js";
+export { Bm25Index, DEFAULT_BM25_PARAMS, tokenize } from "./bm25.js";
+export type { Bm25Params } from "./bm25.js";
+export {
+  DEFAULT_INDEX_FILE,
+  LEGACY_INDEX_FILE,
+  annFileFor,
+  loadIndex,
+  loadIndexFile,
+  readIndexInfo,
+  resolveIndexFile,
+  toLoadedIndex,
+  vectorsFileFor,
+  writeIndex,
+} from "./index_store.js";
+export {
+  INT8_SCALE,
+  VectorMatrix,
+  dequantizeInt8,
+  normalize,
+  quantizeInt8,
+} from "./vectors.js";
+export {
+  ANN_MIN_CANDIDATES,
+  ANN_MIN_CHUNKS,
+  DEFAULT_ANN_NPROBE,
+  IvfIndex,
+  vectorTopK,
+} from "./ann.js";
+export type { IvfBuildOptions } from "./ann.js";
+export {
+  DEFAULT_HYBRID_ALPHA,
+  DEFAULT_TOP_K,
+  RRF_K,
+  Retriever,
+  parseHybridAlpha,
+  previewText,
+} from "./retriever.js";
+export type { RetrieverInit, RetrieverOptions } from "./retriever.js";
+export {
+  CollectionManager,
+  CollectionsConfigSchema,
+  DEFAULT_COLLECTIONS_FILE,
+  FALLBACK_COLLECTIONS,
+  expandGlobs,
+  globToRegExp,
+  loadCollectionsConfig,
+  parseCollectionsConfig,
+} from "./collections.js";
+export type {
+  CollectionConfig,
+  CollectionInfo,
+  CollectionsConfig,
+} from "./collections.js";
+export {
+  assembleChunks,
+  contentHash,
+  planIncrementalBuild,
+} from "./incremental.js";
+export type {
+  BuildSummary,
+  IncrementalPlan,
+  PendingChunk,
+} from "./incremental.js";
+export { parseFilter, toChunkFilter } from "./filter.js";
+export { parseFrontMatter } from "./front_matter.js";
+export {
+  EVAL_FILE_DIRS,
+  findEvalFile,
+  matchesTarget,
+  parseGroundTruthMap,
+  parseQuestions,
+  resolveTarget,
+  scoreRanking,
+} from "./ground_truth.js";
+export type {
+  GroundTruthEntry,
+  GroundTruthTarget,
+  RankingMetrics,
+  ResolvedTarget,
+} from "./ground_truth.js";
+export {
+  DEFAULT_EVAL_RUNS_DIR,
+  compareRuns,
+  findRegressions,
+  formatComparison,
+  listEvalRuns,
+  loadEvalRun,
+  resolveEvalRun,
+  summarizeEval,
+  summarizeMetrics,
+  writeEvalRun,
+} from "./eval_runs.js";
+export type {
+  EvalComparison,
+  EvalConfig,
+  EvalMetrics,
+  EvalQuestionResult,
+  EvalRun,
+  EvalSummary,
+  QuestionDiff,
+} from "./eval_runs.js";
+export {
+  DEFAULT_GEN_MODEL,
+  OpenAIAnswerGenerator,
+  StubAnswerGenerator,
+  createAnswerGenerator,
+  streamGeneration,
+} from "./generator.js";
+export type {
+  AnswerGenerator,
+  GenerationEvent,
+  GenerationFormat,
+  GenerationInput,
+  GenerationUsage,
+} from "./generator.js";
+export {
+  DEFAULT_ANSWER_TOP_K,
+  answerQuestion,
+  buildContext,
+  parseCitations,
+  retrieveContext,
+  streamAnswer,
+} from "./answer.js";
+export type {
+  AnswerOptions,
+  AnswerResult,
+  AnswerStreamEvent,
+  RetrieveOptions,
+} from "./answer.js";
+export {
+  ANSWER_LANGUAGES,
+  DEFAULT_PROMPT_TEMPLATE,
+  PromptTemplateSchema,
+  loadPromptTemplate,
+  parsePromptTemplate,
+  promptLanguages,
+  renderPrompt,
+  toPromptSummary,
+  unsupportedLanguage,
+} from "./prompts.js";
+export type {
+  PromptInfo,
+  PromptKind,
+  PromptLabels,
+  PromptOptions,
+  PromptTemplate,
+  RenderedPrompt,
+} from "./prompts.js";
+export {
+  DEFAULT_CONTEXT_MAX_TOKENS,
+  assembleContext,
+  estimateTokens,
+  sectionKey,
+  toContextSummary,
+} from "./context.js";
+export type {
+  AssembledContext,
+  ContextBlockReport,
+  ContextOptions,
+  ContextReport,
+} from "./context.js";
+export {
+  STRUCTURED_ANSWER_FORMAT,
+  StructuredAnswerSchema,
+  answerStructured,
+  parseStructuredAnswer,
+  renderStructuredAnswer,
+  toCitation,
+} from "./structured_answer.js";
+export type {
+  AnswerSentence,
+  StructuredAnswer,
+  StructuredAnswerResult,
+} from "./structured_answer.js";
+export {
+  evaluateAnswer,
+  parseExpectedFacts,
+  summarizeAnswerEval,
+} from "./answer_eval.js";
+export type {
+  AnswerEvalSummary,
+  AnswerEvaluation,
+  ExpectedFact,
+  ExpectedFactsEntry,
+} from "./answer_eval.js";
+export {
+  DEFAULT_SWEEP_FILE,
+  SWEEP_METRICS,
+  SweepSpaceSchema,
+  applySweepRanking,
+  chunkSources,
+  expandSweep,
+  loadSweepSpace,
+  parseSweepSpace,
+  rankSweepResults,
+  runSweep,
+} from "./sweep.js";
+export type {
+  SweepMetric,
+  SweepResult,
+  SweepSpace,
+  SweepTrial,
+} from "./sweep.js";
+export {
+  DEFAULT_QUERY_CACHE_SIZE,
+  QueryEmbeddingCache,
+  normalizeQuery,
+  sharedQueryCache,
+} from "./query_cache.js";
+export type { QueryCacheOptions, QueryCacheStats } from "./query_cache.js";
+export {
+  DEFAULT_RERANK_CANDIDATES,
+  LexicalReranker,
+  LlmReranker,
+  RERANKERS,
+  createReranker,
+  rerankHits,
+} from "./rerank.js";
+export type { Reranker, RerankerName } from "./rerank.js";
+export {
+  DEFAULT_GLOSSARY_FILE,
+  DEFAULT_MAX_QUERY_VARIANTS,
+  EMPTY_GLOSSARY,
+  GlossaryRewriter,
+  GlossarySchema,
+  LlmQueryRewriter,
+  QUERY_EXPANSIONS,
+  createQueryRewriters,
+  expandQuery,
+  expandWithGlossary,
+  loadGlossary,
+  parseGlossary,
+} from "./query_rewrite.js";
+export type {
+  Glossary,
+  QueryExpansion,
+  QueryRewriter,
+  QueryVariant,
+} from "./query_rewrite.js";
+export {
+  ConcatQueryCondenser,
+  ConversationStore,
+  DEFAULT_CONVERSATION_TTL_MS,
+  DEFAULT_HISTORY_TURNS,
+  DEFAULT_MAX_TURNS,
+  LlmQueryCondenser,
+  answerConversation,
+  createQueryCondenser,
+} from "./conversation.js";
+export type {
+  Conversation,
+  ConversationAnswerResult,
+  ConversationStoreOptions,
+  ConversationTurn,
+  QueryCondenser,
+} from "./conversation.js";
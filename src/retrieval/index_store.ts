@@ -0,0 +1,271 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { IvfIndex, type IvfBuildOptions } from "./ann.js";
+import { assertUniqueIds } from "./ids.js";
+import type {
+  IndexedChunk,
+  IndexFile,
+  IndexMetaFile,
+  LoadedIndex,
+  VectorDType,
+} from "./types.js";
+import { VectorMatrix, dequantizeInt8, quantizeInt8 } from "./vectors.js";
+
+/**
+ * インデックスの保存形式
+ * - format 2（既定）: artifacts/index.meta.json + artifacts/index.vectors.bin
+ *   （チャンク数が多ければ IVF の artifacts/index.ann.bin も）
+ * - format 1（旧）  : artifacts/index.json（埋め込みを JSON 配列で持つ）
+ * 読み込みはどちらにも対応する。旧形式は build:index を一度流せば
+ * 埋め込みを流用したまま format 2 に移行できる。
+ */
+export const DEFAULT_INDEX_FILE = path.resolve("artifacts/index.meta.json");
+export const LEGACY_INDEX_FILE = path.resolve("artifacts/index.json");
+
+const META_SUFFIX = ".meta.json";
+const VECTORS_SUFFIX = ".vectors.bin";
+const ANN_SUFFIX = ".ann.bin";
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 明示指定が無ければ format 2 → 旧 index.json の順に探す。
+ * 既定ファイルを明示された場合（既定コレクション）も、まだ無ければ旧形式を読む。
+ */
+export async function resolveIndexFile(file?: string): Promise<string> {
+  if (file && path.resolve(file) !== DEFAULT_INDEX_FILE) return file;
+  if (await exists(DEFAULT_INDEX_FILE)) return DEFAULT_INDEX_FILE;
+  if (await exists(LEGACY_INDEX_FILE)) return LEGACY_INDEX_FILE;
+  return DEFAULT_INDEX_FILE;
+}
+
+function baseOf(metaFile: string): string {
+  return metaFile.endsWith(META_SUFFIX)
+    ? metaFile.slice(0, -META_SUFFIX.length)
+    : metaFile.replace(/\.json$/, "");
+}
+
+export function vectorsFileFor(metaFile: string): string {
+  return baseOf(metaFile) + VECTORS_SUFFIX;
+}
+
+export function annFileFor(metaFile: string): string {
+  return baseOf(metaFile) + ANN_SUFFIX;
+}
+
+export function toLoadedIndex(index: IndexFile): LoadedIndex {
+  const { chunks, ...header } = index;
+  return {
+    ...header,
+    chunks: chunks.map(({ embedding: _embedding, ...c }) => c),
+    vectors: VectorMatrix.fromArrays(chunks.map((c) => c.embedding)),
+  };
+}
+
+async function readVectors(
+  metaFile: string,
+  meta: IndexMetaFile
+): Promise<VectorMatrix> {
+  const { file, dtype, dim, count } = meta.vectors;
+  const buf = await fs.readFile(path.resolve(path.dirname(metaFile), file));
+  const bytesPerValue = dtype === "int8" ? 1 : 4;
+  if (buf.byteLength !== dim * count * bytesPerValue) {
+    throw new Error(
+      `${file} のサイズが不正です（expected ${
+        dim * count * bytesPerValue
+      } bytes, got ${buf.byteLength}）`
+    );
+  }
+  // Buffer はプール上にあることがあるのでコピーしてから typed array にする
+  const bytes = new Uint8Array(buf).buffer;
+  if (dtype === "int8") return dequantizeInt8(new Int8Array(bytes), dim);
+  // 保存時に正規化済み
+  return new VectorMatrix(dim, new Float32Array(bytes));
+}
+
+async function readAnn(
+  metaFile: string,
+  meta: IndexMetaFile,
+  dim: number
+): Promise<IvfIndex> {
+  const { file, nlist } = meta.ann!;
+  const count = meta.vectors.count;
+  const buf = await fs.readFile(path.resolve(path.dirname(metaFile), file));
+  const expected = (nlist * dim + count) * 4;
+  if (buf.byteLength !== expected) {
+    throw new Error(
+      `${file} のサイズが不正です（expected ${expected} bytes, got ${buf.byteLength}）`
+    );
+  }
+  const bytes = new Uint8Array(buf).buffer;
+  const centroids = new Float32Array(bytes, 0, nlist * dim);
+  const assignments = new Int32Array(bytes, nlist * dim * 4, count);
+  return new IvfIndex(new VectorMatrix(dim, centroids), assignments);
+}
+
+/**
+ * 検索用に読む。id が重複したインデックス（旧形式の変換など）は、fetch や根拠の組み立てで
+ * 別のチャンクを取り違えるので読まずにエラーにする（build:index で作り直す）。
+ */
+export async function loadIndex(indexFile?: string): Promise<LoadedIndex> {
+  const file = await resolveIndexFile(indexFile);
+  const index = await readIndex(file);
+  try {
+    assertUniqueIds(index.chunks);
+  } catch (e) {
+    throw new Error(
+      `${path.basename(file)}: ${
+        (e as Error).message
+      }\nnpm run build:index で作り直してください`
+    );
+  }
+  return index;
+}
+
+async function readIndex(file: string): Promise<LoadedIndex> {
+  const raw = JSON.parse(await fs.readFile(file, "utf-8"));
+
+  if (raw?.format === 2) {
+    const meta = raw as IndexMetaFile;
+    const { format: _format, vectors: _vectors, ann: _ann, ...header } = meta;
+    const vectors = await readVectors(file, meta);
+    if (vectors.count !== meta.chunks.length) {
+      throw new Error(
+        `chunks (${meta.chunks.length}) と vectors (${vectors.count}) の件数が一致しません`
+      );
+    }
+    if (!meta.ann) return { ...header, vectors };
+    // ANN は高速化のためだけのものなので、壊れていても全件走査で続行する
+    try {
+      return {
+        ...header,
+        vectors,
+        ann: await readAnn(file, meta, vectors.dim),
+      };
+    } catch (e) {
+      console.warn(
+        `[ANN] ${meta.ann.file} を読めないため全件走査にします: ${
+          e instanceof Error ? e.message : e
+        }`
+      );
+      return { ...header, vectors };
+    }
+  }
+  return toLoadedIndex(raw as IndexFile);
+}
+
+/** コレクション一覧用: ベクトルは読まずにモデル・件数・ビルド日時だけ返す（無ければ undefined） */
+export async function readIndexInfo(indexFile?: string): Promise<
+  | {
+      file: string;
+      model: string;
+      chunks: number;
+      builtAt: string;
+    }
+  | undefined
+> {
+  const file = await resolveIndexFile(indexFile);
+  if (!(await exists(file))) return undefined;
+  const raw = JSON.parse(await fs.readFile(file, "utf-8")) as
+    | IndexMetaFile
+    | IndexFile;
+  // builtAt を持たない古いインデックスはファイルの更新日時で代用する
+  const builtAt = raw.builtAt ?? (await fs.stat(file)).mtime.toISOString();
+  return { file, model: raw.model, chunks: raw.chunks.length, builtAt };
+}
+
+/** 差分ビルド用: 形式によらず埋め込みを number[] に戻した IndexFile を返す */
+export async function loadIndexFile(
+  indexFile?: string
+): Promise<IndexFile | undefined> {
+  const file = await resolveIndexFile(indexFile);
+  if (!(await exists(file))) return undefined;
+  // 前回の重複 id は buildAliases で引き継ぐので、ここでは弾かない
+  const { vectors, ann: _ann, chunks, ...header } = await readIndex(file);
+  return {
+    ...header,
+    chunks: chunks.map((c, i) => ({
+      ...c,
+      embedding: Array.from(vectors.row(i)),
+    })),
+  };
+}
+
+/** ann を渡すと IVF を作って index.ann.bin に保存する（省略時は作らない） */
+export async function writeIndex(
+  metaFile: string,
+  index: IndexFile,
+  dtype: VectorDType = "float32",
+  ann?: IvfBuildOptions
+): Promise<{
+  metaFile: string;
+  vectorsFile: string;
+  bytes: number;
+  annFile?: string;
+  nlist?: number;
+}> {
+  const { chunks, ...header } = index;
+  const matrix = VectorMatrix.fromArrays(chunks.map((c) => c.embedding));
+  const data = dtype === "int8" ? quantizeInt8(matrix.data) : matrix.data;
+  const vectorsFile = vectorsFileFor(metaFile);
+  const annFile = annFileFor(metaFile);
+  // int8 で保存する場合も、クラスタリングは量子化前のベクトルで行う
+  const ivf =
+    ann && chunks.length > 0 ? IvfIndex.build(matrix, ann) : undefined;
+
+  const meta: IndexMetaFile = {
+    format: 2,
+    ...header,
+    vectors: {
+      file: path.basename(vectorsFile),
+      dtype,
+      dim: matrix.dim,
+      count: chunks.length,
+    },
+    ...(ivf && {
+      ann: {
+        type: "ivf" as const,
+        file: path.basename(annFile),
+        nlist: ivf.nlist,
+      },
+    }),
+    chunks: chunks.map(({ embedding: _embedding, ...c }: IndexedChunk) => c),
+  };
+
+  await fs.mkdir(path.dirname(metaFile), { recursive: true });
+  await fs.writeFile(
+    vectorsFile,
+    new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  );
+  if (ivf) {
+    const { data: centroids } = ivf.centroids;
+    await fs.writeFile(
+      annFile,
+      Buffer.concat([
+        new Uint8Array(
+          centroids.buffer,
+          centroids.byteOffset,
+          centroids.byteLength
+        ),
+        new Uint8Array(ivf.assignments.buffer),
+      ])
+    );
+  } else {
+    // meta から参照されない古い IVF が残ると紛らわしいので消す
+    await fs.rm(annFile, { force: true });
+  }
+  await fs.writeFile(metaFile, JSON.stringify(meta, null, 2), "utf-8");
+  return {
+    metaFile,
+    vectorsFile,
+    bytes: data.byteLength,
+    ...(ivf && { annFile, nlist: ivf.nlist }),
+  };
+}
@@ -0,0 +1,125 @@
+import path from "node:path";
+import {
+  DEFAULT_CHUNKER_OPTIONS,
+  chunkMarkdown,
+  chunkPlainText,
+  type ChunkerOptions,
+} from "./chunker.js";
+import { parseFrontMatter } from "./front_matter.js";
+import { htmlLoader } from "./html_loader.js";
+import { openApiLoader } from "./openapi_loader.js";
+import { tsDocLoader } from "./ts_loader.js";
+import type { ChunkMeta, DocumentAttributes } from "./types.js";
+
+/**
+ * ファイル形式ごとのローダー。build:index は拡張子でローダーを選び、
+ * どの形式も同じ ChunkMeta（source / heading / headingPath / part / 行番号）に揃える。
+ */
+export type DocumentChunk = {
+  heading: string;
+  headingPath: string[];
+  part: number;
+  text: string;
+  // 元ファイルの行と対応しない形式（HTML など）では持たない
+  startLine?: number;
+  endLine?: number;
+};
+
+export type DocumentLoader = {
+  name: string;
+  extensions: string[]; // 小文字・ドット付き（".md"）
+  // true なら先頭の YAML front matter を剥がし、owner / tags などをメタに載せる
+  frontMatter?: boolean;
+  // 対象外の内容（OpenAPI ではない JSON など）は undefined を返してスキップさせる
+  load(content: string, options: ChunkerOptions): DocumentChunk[] | undefined;
+};
+
+export type LoaderRegistry = Map<string, DocumentLoader>;
+
+export const markdownLoader: DocumentLoader = {
+  name: "markdown",
+  extensions: [".md", ".markdown"],
+  frontMatter: true,
+  load: (content, options) => chunkMarkdown(content, options),
+};
+
+export const textLoader: DocumentLoader = {
+  name: "text",
+  extensions: [".txt"],
+  frontMatter: true,
+  load: (content, options) => chunkPlainText(content, options),
+};
+
+export const DEFAULT_LOADERS: DocumentLoader[] = [
+  markdownLoader,
+  textLoader,
+  htmlLoader,
+  openApiLoader,
+  tsDocLoader,
+];
+
+export function createLoaderRegistry(
+  loaders: DocumentLoader[] = DEFAULT_LOADERS
+): LoaderRegistry {
+  const registry: LoaderRegistry = new Map();
+  for (const loader of loaders) {
+    for (const ext of loader.extensions) {
+      const owner = registry.get(ext);
+      if (owner) {
+        throw new Error(
+          `拡張子 ${ext} のローダーが重複しています: ${owner.name}, ${loader.name}`
+        );
+      }
+      registry.set(ext, loader);
+    }
+  }
+  return registry;
+}
+
+export function loaderFor(
+  registry: LoaderRegistry,
+  file: string
+): DocumentLoader | undefined {
+  return registry.get(path.extname(file).toLowerCase());
+}
+
+/** ローダーを通してファイル 1 つ分のチャンクを作る（対象外なら undefined） */
+export function loadDocument(
+  registry: LoaderRegistry,
+  source: string,
+  content: string,
+  options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS
+): Array<{ text: string; meta: ChunkMeta }> | undefined {
+  const loader = loaderFor(registry, source);
+  if (!loader) return undefined;
+  let parsed: ReturnType<typeof parseFrontMatter>;
+  try {
+    parsed = loader.frontMatter
+      ? parseFrontMatter(content)
+      : { attributes: {}, body: content };
+  } catch (e) {
+    throw new Error(`${source}: ${e instanceof Error ? e.message : e}`);
+  }
+  const { attributes, body } = parsed;
+  const chunks = loader.load(body, options);
+  return chunks?.map((c) => ({
+    text: c.text,
+    meta: toChunkMeta(source, c, attributes),
+  }));
+}
+
+export function toChunkMeta(
+  source: string,
+  c: DocumentChunk,
+  attributes: DocumentAttributes = {}
+): ChunkMeta {
+  return {
+    source,
+    heading: c.heading,
+    part: c.part,
+    headingPath: c.headingPath,
+    ...(c.startLine !== undefined && { startLine: c.startLine }),
+    ...(c.endLine !== undefined && { endLine: c.endLine }),
+    ...attributes,
+  };
+}
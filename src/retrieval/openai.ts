@@ -0,0 +1,12 @@
+import { OpenAI } from "openai";
+
+let client: OpenAI | undefined;
+
+/** OPENAI_API_KEY が無い環境（ローカル埋め込みのみ使う CI 等）でも import できるよう遅延生成する */
+export function getOpenAI(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY が未設定です（.env を確認してください）");
+  }
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
@@ -0,0 +1,259 @@
+import { LineCounter, isMap, isNode, isScalar, parseDocument } from "yaml";
+import { ROOT_HEADING } from "./chunker.js";
+import type { DocumentChunk, DocumentLoader } from "./loaders.js";
+
+/**
+ * OpenAPI（3.x / Swagger 2.0）の YAML / JSON を、オペレーション 1 つ = 1 チャンクにする。
+ * 見出しは「GET /v1/orders/{orderId}」で、Markdown 版 api.md の見出しと同じ書き方に揃える。
+ * 本文には summary / description / パラメータ / リクエストボディ / レスポンスを並べる。
+ * JSON も YAML として読めるので、どちらも yaml パッケージで解析して行番号を取る。
+ */
+export const openApiLoader: DocumentLoader = {
+  name: "openapi",
+  extensions: [".yaml", ".yml", ".json"],
+  load: (content) => chunkOpenApi(content),
+};
+
+const METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const;
+
+// YAML のトップレベル（行頭）か JSON のオブジェクト内の "openapi": / "swagger":
+const OPENAPI_KEY = /(?:^|[{,])\s*["']?(?:openapi|swagger)["']?\s*:/m;
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+/** "#/components/schemas/Order" 形式の $ref を辿る（循環に備えて深さを制限） */
+function deref(spec: Obj, v: unknown, depth = 0): unknown {
+  if (!isObj(v) || typeof v.$ref !== "string" || depth > 8) return v;
+  const ref = v.$ref;
+  if (!ref.startsWith("#/")) return v;
+  let cur: unknown = spec;
+  for (const key of ref.slice(2).split("/")) {
+    const k = key.replace(/~1/g, "/").replace(/~0/g, "~");
+    cur = isObj(cur) ? cur[k] : undefined;
+  }
+  return cur === undefined ? v : deref(spec, cur, depth + 1);
+}
+
+function refName(v: unknown): string | undefined {
+  return isObj(v) && typeof v.$ref === "string"
+    ? v.$ref.split("/").at(-1)
+    : undefined;
+}
+
+/** スキーマを 1 行で表す型名（string / array<Order> / Order など） */
+function typeOf(spec: Obj, schema: unknown): string {
+  const name = refName(schema);
+  if (name) return name;
+  const s = deref(spec, schema);
+  if (!isObj(s)) return "any";
+  if (Array.isArray(s.enum)) {
+    return `${str(s.type) ?? "enum"}(${s.enum.map(String).join(" | ")})`;
+  }
+  if (s.type === "array") return `array<${typeOf(spec, s.items)}>`;
+  for (const k of ["oneOf", "anyOf", "allOf"] as const) {
+    if (Array.isArray(s[k])) {
+      return s[k]
+        .map((x) => typeOf(spec, x))
+        .join(k === "allOf" ? " & " : " | ");
+    }
+  }
+  const fmt = str(s.format);
+  return (
+    (str(s.type) ?? (isObj(s.properties) ? "object" : "any")) +
+    (fmt ? `(${fmt})` : "")
+  );
+}
+
+/** object スキーマのプロパティを 1 階層だけ列挙する */
+function describeFields(spec: Obj, schema: unknown, indent: string): string[] {
+  let s = deref(spec, schema);
+  if (isObj(s) && s.type === "array") s = deref(spec, s.items);
+  if (!isObj(s) || !isObj(s.properties)) return [];
+  const required = new Set(Array.isArray(s.required) ? s.required : []);
+  return Object.entries(s.properties).map(([name, prop]) => {
+    const p = deref(spec, prop);
+    const desc = isObj(p) ? str(p.description) : undefined;
+    return `${indent}- ${name}: ${typeOf(spec, prop)}${
+      required.has(name) ? "（必須）" : ""
+    }${desc ? ` ${desc}` : ""}`;
+  });
+}
+
+function describeContent(
+  spec: Obj,
+  content: unknown,
+  indent: string
+): string[] {
+  if (!isObj(content)) return [];
+  return Object.entries(content).flatMap(([mediaType, media]) => {
+    const schema = isObj(media) ? media.schema : undefined;
+    if (schema === undefined) return [`${indent}${mediaType}`];
+    return [
+      `${indent}${mediaType}: ${typeOf(spec, schema)}`,
+      ...describeFields(spec, schema, indent + "  "),
+    ];
+  });
+}
+
+function describeOperation(
+  spec: Obj,
+  method: string,
+  route: string,
+  op: Obj,
+  pathParams: unknown[]
+): string {
+  const lines = [`${method.toUpperCase()} ${route}`];
+  const summary = str(op.summary);
+  const description = str(op.description);
+  if (summary) lines.push(summary);
+  if (description) lines.push("", description);
+  if (str(op.operationId)) lines.push("", `operationId: ${op.operationId}`);
+  if (Array.isArray(op.tags) && op.tags.length) {
+    lines.push(`tags: ${op.tags.join(", ")}`);
+  }
+  if (op.deprecated === true) lines.push("deprecated: true");
+
+  // パスレベルのパラメータは同名・同じ in のオペレーション側で上書きされる
+  const params = new Map<string, Obj>();
+  for (const raw of [
+    ...pathParams,
+    ...(Array.isArray(op.parameters) ? op.parameters : []),
+  ]) {
+    const p = deref(spec, raw);
+    if (isObj(p) && str(p.name)) params.set(`${p.in}:${p.name}`, p);
+  }
+  if (params.size) {
+    lines.push("", "パラメータ:");
+    for (const p of params.values()) {
+      const desc = str(p.description);
+      lines.push(
+        `- ${p.name} (${p.in}${p.required === true ? ", 必須" : ""}): ${typeOf(
+          spec,
+          p.schema ?? p
+        )}${desc ? ` ${desc}` : ""}`
+      );
+    }
+  }
+
+  const body = deref(spec, op.requestBody);
+  if (isObj(body)) {
+    const desc = str(body.description);
+    lines.push(
+      "",
+      `リクエストボディ${body.required === true ? "（必須）" : ""}:${
+        desc ? ` ${desc}` : ""
+      }`,
+      ...describeContent(spec, body.content, "- ")
+    );
+  }
+
+  if (isObj(op.responses)) {
+    lines.push("", "レスポンス:");
+    for (const [status, raw] of Object.entries(op.responses)) {
+      const r = deref(spec, raw);
+      const desc = isObj(r) ? str(r.description) : undefined;
+      lines.push(`- ${status}${desc ? `: ${desc}` : ""}`);
+      if (isObj(r)) {
+        // Swagger 2.0 は content ではなく schema を直接持つ
+        lines.push(
+          ...(r.content
+            ? describeContent(spec, r.content, "  ")
+            : r.schema
+            ? [
+                `  ${typeOf(spec, r.schema)}`,
+                ...describeFields(spec, r.schema, "    "),
+              ]
+            : [])
+        );
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+export function chunkOpenApi(content: string): DocumentChunk[] | undefined {
+  // .json / .yaml はソース配下の設定ファイルなども拾うので、解析する前に openapi / swagger の
+  // キーがあるかだけ見る。壊れたファイルも含め、対象外は undefined（build:index が警告してスキップ）
+  if (!OPENAPI_KEY.test(content)) return undefined;
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length) return undefined;
+  const spec: unknown = doc.toJS();
+  if (!isObj(spec) || !("openapi" in spec || "swagger" in spec))
+    return undefined;
+  if (!isObj(spec.paths)) return undefined;
+
+  // map の key から value の末尾までの行範囲（「get:」の行からオペレーション定義の末尾まで）
+  const linesOf = (
+    map: unknown,
+    key: string
+  ): Pick<DocumentChunk, "startLine" | "endLine"> => {
+    const pair = isMap(map)
+      ? map.items.find((p) => isScalar(p.key) && p.key.value === key)
+      : undefined;
+    const start = isNode(pair?.key) ? pair.key.range?.[0] : undefined;
+    const end = isNode(pair?.value) ? pair.value.range?.[1] : undefined;
+    if (start === undefined || end === undefined) return {};
+    return {
+      startLine: lineCounter.linePos(start).line,
+      endLine: lineCounter.linePos(Math.max(start, end - 1)).line,
+    };
+  };
+  const out: DocumentChunk[] = [];
+
+  const info = isObj(spec.info) ? spec.info : {};
+  const title = str(info.title);
+  const intro = [
+    title && `${title}${str(info.version) ? ` (${info.version})` : ""}`,
+    str(info.description),
+  ].filter(Boolean);
+  if (intro.length) {
+    out.push({
+      heading: ROOT_HEADING,
+      headingPath: [],
+      part: 0,
+      text: intro.join("\n\n"),
+      ...linesOf(doc.contents, "info"),
+    });
+  }
+
+  for (const [route, item] of Object.entries(spec.paths)) {
+    const pathItem = deref(spec, item);
+    if (!isObj(pathItem)) continue;
+    const pathNode = doc.getIn(["paths", route], true);
+    const pathParams = Array.isArray(pathItem.parameters)
+      ? pathItem.parameters
+      : [];
+
+    for (const method of METHODS) {
+      const op = pathItem[method];
+      if (!isObj(op)) continue;
+      const heading = `${method.toUpperCase()} ${route}`;
+      out.push({
+        heading,
+        headingPath: [heading],
+        part: 0,
+        text: describeOperation(spec, method, route, op, pathParams),
+        ...linesOf(pathNode, method),
+      });
+    }
+  }
+  return out;
+}
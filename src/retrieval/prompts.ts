@@ -0,0 +1,272 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+
+/**
+ * 回答生成の指示（プロンプト）のテンプレート。コレクションごとに prompts/*.json を持ち
+ * （collections.config.json の promptFile）、言語ごとの本文に {{productName}} などの変数を埋めて使う。
+ *   variables       : 本文で使う変数（productName / citationStyle など）。言語ごとに上書きできる
+ *   input           : モデルに渡す本文。{{question}}（質問）と {{context}}（番号付きの根拠）を必ず含める
+ *   {{language}}    : 回答の言語名（言語ごとの languageName。テンプレートに無い言語なら ANSWER_LANGUAGES の言語名）
+ *   templateVersion : 文面を変えたら上げる。使った版は回答と一緒に返す
+ * テンプレートに無い言語は、ANSWER_LANGUAGES にあれば既定の言語の本文に otherLanguage を足して答えさせる。
+ * それ以外の言語は受け付けない（指定された値をそのまま指示文に入れない）。
+ */
+const VARIABLE = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+const Variables = z.record(z.string(), z.string()).default({});
+
+const DEFAULT_INPUT = "質問: {{question}}\n\n根拠:\n{{context}}\n\n回答:";
+// input だけで使える、問い合わせごとの変数
+const INPUT_VARIABLES = ["question", "context"] as const;
+
+const PromptLabelsSchema = z.object({
+  // 整形した回答の「根拠:」の見出し
+  sources: z.string().min(1),
+  // 引用が無いとき
+  none: z.string().min(1),
+});
+
+const PromptLanguageSchema = z.object({
+  languageName: z.string().min(1),
+  variables: Variables,
+  // 自由記述の回答（/answer/stream・eval:answers）
+  answer: z.string().min(1),
+  // 構造化回答（/answer・/chat・MCP の answer / chat）
+  structuredAnswer: z.string().min(1),
+  // テンプレートに無い言語を指定されたときに足す指示
+  otherLanguage: z.string().min(1).optional(),
+  // 質問と根拠を包んでモデルに渡す本文（省略時は日本語の見出し）
+  input: z.string().min(1).default(DEFAULT_INPUT),
+  labels: PromptLabelsSchema.default({ sources: "根拠", none: "なし" }),
+});
+
+export const PromptTemplateSchema = z
+  .object({
+    version: z.literal(1),
+    name: z.string().min(1),
+    templateVersion: z.string().min(1),
+    defaultLanguage: z.string().min(1),
+    variables: Variables,
+    languages: z.record(
+      z.string().regex(/^[a-z]{2,3}(-[a-z0-9]+)?$/, "小文字の言語コードのみ"),
+      PromptLanguageSchema
+    ),
+  })
+  .superRefine((t, ctx) => {
+    if (!(t.defaultLanguage in t.languages)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "defaultLanguage が languages にありません",
+        path: ["defaultLanguage"],
+      });
+    }
+    // 未定義の変数は読み込み時に弾く（生成時に {{…}} のまま渡さない）
+    for (const [code, lang] of Object.entries(t.languages)) {
+      const defined = new Set([
+        "language",
+        ...Object.keys(t.variables),
+        ...Object.keys(lang.variables),
+      ]);
+      for (const key of [
+        "answer",
+        "structuredAnswer",
+        "otherLanguage",
+        "input",
+      ] as const) {
+        const allowed =
+          key === "input" ? new Set([...defined, ...INPUT_VARIABLES]) : defined;
+        for (const m of (lang[key] ?? "").matchAll(VARIABLE)) {
+          if (!allowed.has(m[1]!)) {
+            ctx.addIssue({
+              code: "custom",
+              message: `未定義の変数です: {{${m[1]}}}`,
+              path: ["languages", code, key],
+            });
+          }
+        }
+      }
+      // 質問か根拠が抜けるとモデルに渡らない
+      const used = new Set([...lang.input.matchAll(VARIABLE)].map((m) => m[1]));
+      for (const name of INPUT_VARIABLES) {
+        if (!used.has(name)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `input に {{${name}}} がありません`,
+            path: ["languages", code, "input"],
+          });
+        }
+      }
+    }
+  });
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+export type PromptLabels = z.infer<typeof PromptLabelsSchema>;
+export type PromptKind = "answer" | "structuredAnswer";
+
+/** 回答と一緒に返す、使ったテンプレート */
+export type PromptInfo = {
+  name: string;
+  version: string;
+  // 回答の言語コード（小文字）
+  language: string;
+};
+
+export type RenderedPrompt = {
+  instructions: string;
+  // モデルに渡す本文（テンプレートの input に質問と番号付きの根拠を埋める）
+  input: (question: string, context: string) => string;
+  labels: PromptLabels;
+  info: PromptInfo;
+};
+
+export type PromptOptions = {
+  // 省略時は DEFAULT_PROMPT_TEMPLATE
+  prompt?: PromptTemplate | undefined;
+  // 回答の言語（"ja" / "en" など）。省略時はテンプレートの defaultLanguage
+  language?: string | undefined;
+};
+
+/** テンプレートに無い言語の、otherLanguage に入れる言語名（ここにも無い言語は受け付けない） */
+export const ANSWER_LANGUAGES: Record<string, string> = {
+  ja: "日本語",
+  en: "英語",
+  zh: "中国語",
+  ko: "韓国語",
+};
+
+/** promptFile を指定していないコレクション用（製品名は持たない） */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate =
+  PromptTemplateSchema.parse({
+    version: 1,
+    name: "default",
+    templateVersion: "2",
+    defaultLanguage: "ja",
+    languages: {
+      ja: {
+        languageName: "日本語",
+        variables: {
+          productName: "社内システム",
+          citationStyle:
+            "最後に参照した根拠番号（【1】など）を列挙してください。",
+        },
+        answer:
+          "あなたは{{productName}}の仕様書アシスタントです。与えられた根拠だけを使って回答してください。根拠に無いことは推測せず「不明」と言ってください。{{citationStyle}}",
+        structuredAnswer:
+          "あなたは{{productName}}の仕様書アシスタントです。与えられた根拠だけを使って回答してください。根拠に無いことは推測せず「不明」と書いてください。回答は JSON で、conclusion（結論。1〜3 文）と details（詳細。不要なら空配列）に文ごとに分け、各文の citations にはその文の根拠の chunk id（根拠の「id: …」の値）を入れてください。",
+        otherLanguage:
+          "回答は{{language}}で書いてください。chunk id や根拠番号は翻訳せずそのまま使ってください。",
+      },
+      en: {
+        languageName: "English",
+        variables: {
+          productName: "the internal system",
+          citationStyle:
+            "Finish by listing the evidence numbers you used (e.g. 【1】).",
+        },
+        answer:
+          "You are a documentation assistant for {{productName}}. Answer in {{language}} using only the given evidence, which may be written in Japanese. Do not guess anything that is not in the evidence; say that it is unknown. {{citationStyle}}",
+        structuredAnswer:
+          "You are a documentation assistant for {{productName}}. Answer in {{language}} using only the given evidence, which may be written in Japanese. Do not guess anything that is not in the evidence; say that it is unknown. Reply in JSON: split the answer into sentences under conclusion (1-3 sentences) and details (an empty array if not needed), and put the chunk ids of each sentence's evidence (the value of “id: …” in the evidence) in its citations. Never translate chunk ids.",
+        input: "Question: {{question}}\n\nEvidence:\n{{context}}\n\nAnswer:",
+        labels: { sources: "Sources", none: "none" },
+      },
+    },
+  });
+
+export function parsePromptTemplate(
+  raw: unknown,
+  origin = "prompt template"
+): PromptTemplate {
+  const parsed = PromptTemplateSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`${origin} が不正です:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** collections.config.json で指定したファイルなので、無ければエラー */
+export async function loadPromptTemplate(
+  file: string
+): Promise<PromptTemplate> {
+  const raw = await fs.readFile(file, "utf-8");
+  return parsePromptTemplate(JSON.parse(raw), path.basename(file));
+}
+
+function fill(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE, (_, name: string) => variables[name] ?? "");
+}
+
+/** テンプレートで答えられる言語コード（言語ごとの本文がある言語と、otherLanguage があれば ANSWER_LANGUAGES の言語） */
+export function promptLanguages(template: PromptTemplate): string[] {
+  const own = Object.keys(template.languages);
+  const other = template.languages[template.defaultLanguage]!.otherLanguage
+    ? Object.keys(ANSWER_LANGUAGES).filter((code) => !own.includes(code))
+    : [];
+  return [...own, ...other];
+}
+
+/** language にテンプレートが対応していなければその旨のメッセージ（HTTP は 400、MCP はツールのエラーにする） */
+export function unsupportedLanguage(
+  template: PromptTemplate,
+  language?: string
+): string | undefined {
+  if (!language) return undefined;
+  const available = promptLanguages(template);
+  if (available.includes(language.toLowerCase())) return undefined;
+  return `prompt template ${
+    template.name
+  } は ${language} に対応していません（利用可能: ${available.join(", ")}）`;
+}
+
+/** テンプレートから指示文を作る。language はテンプレートの言語コード（大文字小文字は問わない） */
+export function renderPrompt(
+  template: PromptTemplate,
+  kind: PromptKind,
+  language?: string
+): RenderedPrompt {
+  const problem = unsupportedLanguage(template, language);
+  if (problem) throw new Error(problem);
+
+  const requested = language?.toLowerCase();
+  const own =
+    requested && Object.hasOwn(template.languages, requested)
+      ? requested
+      : undefined;
+  const code = own ?? template.defaultLanguage;
+  const section = template.languages[code]!;
+  const variables = {
+    ...template.variables,
+    ...section.variables,
+    language: section.languageName,
+  };
+
+  let instructions = fill(section[kind], variables);
+  // ここに来るのは ANSWER_LANGUAGES にある言語だけ
+  if (requested && !own && section.otherLanguage) {
+    instructions += fill(section.otherLanguage, {
+      ...variables,
+      language: ANSWER_LANGUAGES[requested]!,
+    });
+  }
+  return {
+    instructions,
+    input: (question, context) =>
+      fill(section.input, { ...variables, question, context }),
+    labels: section.labels,
+    info: {
+      name: template.name,
+      version: template.templateVersion,
+      language: requested || code,
+    },
+  };
+}
+
+/** レスポンス用の形にする（HTTP / MCP で共通） */
+export function toPromptSummary(info: PromptInfo) {
+  return {
+    template: info.name,
+    version: info.version,
+    language: info.language,
+  };
+}
@@ -0,0 +1,167 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * クエリ埋め込みのキャッシュ（/search・/answer・MCP・search・eval で共用）。
+ * キーは (model, 正規化したクエリ)。メモリ上は LRU、dir を指定したときだけディスクにも残す。
+ * ディスクはキーのハッシュを名前にした JSON を 1 件 1 ファイルで置く（壊れていたら無視して作り直す）。
+ */
+export type QueryCacheOptions = {
+  // メモリに持つ件数。0 ならメモリには持たない
+  maxEntries?: number;
+  // 省略時はディスクに書かない
+  dir?: string | undefined;
+};
+
+export type QueryCacheStats = {
+  hits: number; // メモリで当たった
+  diskHits: number; // メモリに無くディスクで当たった
+  misses: number; // 埋め込みを作った
+  size: number;
+  maxEntries: number;
+  dir: string | null;
+};
+
+export const DEFAULT_QUERY_CACHE_SIZE = 1000;
+
+/** 全角半角と前後・連続する空白の違いだけ吸収する（大文字小文字は埋め込みが変わるので残す） */
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").trim().replace(/\s+/g, " ");
+}
+
+function cacheKey(model: string, query: string): string {
+  return createHash("sha256")
+    .update(`${model}\u0000${normalizeQuery(query)}`, "utf-8")
+    .digest("hex");
+}
+
+export class QueryEmbeddingCache {
+  readonly maxEntries: number;
+  readonly dir: string | undefined;
+  // Map は挿入順なので、先頭が最も古く使われたもの
+  private readonly entries = new Map<string, Promise<number[]>>();
+  private hits = 0;
+  private diskHits = 0;
+  private misses = 0;
+
+  constructor(options: QueryCacheOptions = {}) {
+    const maxEntries = options.maxEntries ?? DEFAULT_QUERY_CACHE_SIZE;
+    if (!Number.isInteger(maxEntries) || maxEntries < 0) {
+      throw new Error(`invalid query cache size: ${maxEntries}`);
+    }
+    this.maxEntries = maxEntries;
+    this.dir = options.dir && path.resolve(options.dir);
+  }
+
+  /** キャッシュに無ければ compute で作って覚える（同じキーの同時呼び出しは 1 回にまとめる） */
+  async get(
+    model: string,
+    query: string,
+    compute: () => Promise<number[]>
+  ): Promise<number[]> {
+    const key = cacheKey(model, query);
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const loading = this.load(key, model, query, compute);
+    this.remember(key, loading);
+    // 失敗は覚えない（次の呼び出しで作り直す）
+    loading.catch(() => {
+      if (this.entries.get(key) === loading) this.entries.delete(key);
+    });
+    return loading;
+  }
+
+  stats(): QueryCacheStats {
+    return {
+      hits: this.hits,
+      diskHits: this.diskHits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      dir: this.dir ?? null,
+    };
+  }
+
+  /** メモリ上の内容と件数を消す（ディスクは残す） */
+  clear(): void {
+    this.entries.clear();
+    this.hits = this.diskHits = this.misses = 0;
+  }
+
+  private remember(key: string, value: Promise<number[]>): void {
+    if (this.maxEntries === 0) return;
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  private async load(
+    key: string,
+    model: string,
+    query: string,
+    compute: () => Promise<number[]>
+  ): Promise<number[]> {
+    const file = this.dir && path.join(this.dir, `${key}.json`);
+    if (file) {
+      const stored = await readEntry(file, model);
+      if (stored) {
+        this.diskHits++;
+        return stored;
+      }
+    }
+    this.misses++;
+    const embedding = await compute();
+    if (file) {
+      // 書けなくても検索は続ける（次回またディスクを見にいくだけ）
+      try {
+        await fs.mkdir(this.dir!, { recursive: true });
+        await fs.writeFile(
+          file,
+          JSON.stringify({ model, query: normalizeQuery(query), embedding }) +
+            "\n",
+          "utf-8"
+        );
+      } catch (e) {
+        console.error(`[QUERY_CACHE] write failed: ${file}: ${e}`);
+      }
+    }
+    return embedding;
+  }
+}
+
+async function readEntry(
+  file: string,
+  model: string
+): Promise<number[] | undefined> {
+  try {
+    const raw = JSON.parse(await fs.readFile(file, "utf-8"));
+    return raw?.model === model && Array.isArray(raw.embedding)
+      ? raw.embedding
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+let shared: QueryEmbeddingCache | undefined;
+
+/**
+ * プロセス全体で共有するキャッシュ。
+ * QUERY_CACHE_SIZE でメモリの件数（0 で無効）、QUERY_CACHE_DIR でディスクの置き場所を指定する。
+ */
+export function sharedQueryCache(): QueryEmbeddingCache {
+  const size = process.env.QUERY_CACHE_SIZE;
+  shared ??= new QueryEmbeddingCache({
+    maxEntries: size ? Number(size) : DEFAULT_QUERY_CACHE_SIZE,
+    dir: process.env.QUERY_CACHE_DIR || undefined,
+  });
+  return shared;
+}
@@ -0,0 +1,234 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { DEFAULT_GEN_MODEL } from "./generator.js";
+import { getOpenAI } from "./openai.js";
+import { normalizeQuery } from "./query_cache.js";
+
+/**
+ * 検索前のクエリ変換。元のクエリに言い換え（用語集の置き換え・LLM の言い換え）を足し、
+ * Retriever.search の expansions に渡して全部の結果を RRF で融合する。
+ * 「Web 管理画面の認証方式」と「admin UI login」のように、語が違うだけで別のチャンクに
+ * 当たってしまう日英混在の質問を同じ根拠に寄せるのが目的。
+ *
+ * glossary.config.json は同じ意味の語のグループを並べる（どの語からでも他の語に置き換える）。
+ * 1 文字の語（"正" など）はクエリ中で誤って当たりやすいので、置き換え先としてだけ使う。
+ */
+const GlossaryGroupSchema = z.object({
+  terms: z.array(z.string().min(1)).min(2),
+  note: z.string().optional(),
+});
+
+export const GlossarySchema = z.object({
+  version: z.literal(1),
+  groups: z.array(GlossaryGroupSchema).default([]),
+});
+
+export type Glossary = z.infer<typeof GlossarySchema>;
+
+export const DEFAULT_GLOSSARY_FILE = path.resolve(
+  process.env.GLOSSARY_CONFIG ?? "glossary.config.json"
+);
+
+export const EMPTY_GLOSSARY: Glossary = { version: 1, groups: [] };
+
+// 元のクエリを含めた最大件数（増やすほど埋め込みと走査の回数が増える）
+export const DEFAULT_MAX_QUERY_VARIANTS = 4;
+
+/** none = 変換しない / glossary = 用語集だけ / llm = 用語集 + LLM の言い換え */
+export const QUERY_EXPANSIONS = ["none", "glossary", "llm"] as const;
+export type QueryExpansion = (typeof QUERY_EXPANSIONS)[number];
+
+export type QueryVariant = {
+  query: string;
+  source: "original" | "glossary" | "llm";
+};
+
+export function parseGlossary(raw: unknown, origin = "glossary"): Glossary {
+  const parsed = GlossarySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`${origin} が不正です:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** 用語集は任意。ファイルが無ければ空として扱う（壊れていればエラー） */
+export async function loadGlossary(
+  file: string = DEFAULT_GLOSSARY_FILE
+): Promise<Glossary> {
+  let raw: string;
+  try {
+    raw = await fsp.readFile(file, "utf-8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return EMPTY_GLOSSARY;
+    throw e;
+  }
+  return parseGlossary(JSON.parse(raw), path.basename(file));
+}
+
+/**
+ * 語を探す正規表現。大文字小文字は区別せず、英数字で始まる・終わる語は単語単位で探す。
+ * 英数字とかな漢字の境目の空白は有無を問わない（"Web管理画面" で "Web 管理画面" にも当てる）。
+ */
+function termPattern(term: string): RegExp {
+  const ascii = (c: string) => /[\x21-\x7e]/.test(c);
+  const word = (c: string | undefined) => !!c && /[A-Za-z0-9_]/.test(c);
+  const chars = Array.from(term.trim());
+  let body = "";
+  chars.forEach((c, i) => {
+    const prev = chars[i - 1];
+    if (/\s/.test(c)) {
+      if (!body.endsWith("\\s+")) body += "\\s+";
+      return;
+    }
+    if (prev && !/\s/.test(prev) && ascii(prev) !== ascii(c)) body += "\\s*";
+    body += c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  });
+  return new RegExp(
+    (word(chars[0]) ? "(?<![A-Za-z0-9_])" : "") +
+      body +
+      (word(chars.at(-1)) ? "(?![A-Za-z0-9_])" : ""),
+    "gi"
+  );
+}
+
+/**
+ * 用語集でクエリを言い換える（元のクエリは含めない）。
+ * グループごとに、クエリに含まれる最も長い語を同じグループの他の語に置き換えた文を作る。
+ */
+export function expandWithGlossary(
+  query: string,
+  glossary: Glossary
+): string[] {
+  const q = query.normalize("NFKC");
+  const out: string[] = [];
+  for (const group of glossary.groups) {
+    const terms = group.terms.map((t) => t.normalize("NFKC"));
+    const matched = terms
+      .filter((t) => Array.from(t).length > 1)
+      .sort((a, b) => b.length - a.length)
+      .find((t) => termPattern(t).test(q));
+    if (!matched) continue;
+    for (const alt of terms) {
+      if (alt.toLowerCase() === matched.toLowerCase()) continue;
+      out.push(q.replace(termPattern(matched), () => alt));
+    }
+  }
+  return out;
+}
+
+/** クエリから言い換えを作る（元のクエリは返さない）。失敗は呼び出し側で握りつぶす */
+export interface QueryRewriter {
+  readonly name: QueryVariant["source"];
+  rewrite(query: string): Promise<string[]>;
+}
+
+export class GlossaryRewriter implements QueryRewriter {
+  readonly name = "glossary";
+
+  constructor(private readonly glossary: Glossary) {}
+
+  async rewrite(query: string): Promise<string[]> {
+    return expandWithGlossary(query, this.glossary);
+  }
+}
+
+const LLM_REWRITE_INSTRUCTIONS =
+  "あなたは社内仕様書検索のクエリ作成者です。質問を検索しやすい言い換えにしてください。日本語の質問には英語の言い換えも、英語の質問には日本語の言い換えも含め、略語は正式名に展開してください。答えは書かず、queries に言い換えだけを入れてください。";
+
+const LlmQueriesSchema = z.object({ queries: z.array(z.string()) });
+
+const { $schema: _schema, ...llmQueriesJsonSchema } =
+  z.toJSONSchema(LlmQueriesSchema);
+
+/** 既存の OpenAI クライアント（responses API）で言い換えを count 件まで作らせる */
+export class LlmQueryRewriter implements QueryRewriter {
+  readonly name = "llm";
+
+  constructor(
+    readonly model: string = DEFAULT_GEN_MODEL,
+    private readonly count = 2
+  ) {}
+
+  async rewrite(query: string): Promise<string[]> {
+    const resp = await getOpenAI().responses.create({
+      model: this.model,
+      instructions: `${LLM_REWRITE_INSTRUCTIONS}（最大 ${this.count} 件）`,
+      input: `質問: ${query}`,
+      text: {
+        format: {
+          type: "json_schema",
+          name: "query_rewrites",
+          schema: llmQueriesJsonSchema,
+          strict: false,
+        },
+      },
+    });
+    const parsed = LlmQueriesSchema.safeParse(
+      JSON.parse(resp.output_text || "{}")
+    );
+    if (!parsed.success) {
+      throw new Error(`unreadable output: ${resp.output_text}`);
+    }
+    return parsed.data.queries
+      .map((q) => q.trim())
+      .filter(Boolean)
+      .slice(0, this.count);
+  }
+}
+
+/**
+ * expansion の指定から rewriter を並べる（HTTP / MCP のリクエストごとの指定用）。
+ * llm のモデルは QUERY_REWRITE_MODEL > GEN_MODEL > 既定の生成モデル。
+ */
+export function createQueryRewriters(
+  expansion: QueryExpansion,
+  glossary: Glossary
+): QueryRewriter[] {
+  if (expansion === "none") return [];
+  const rewriters: QueryRewriter[] = [new GlossaryRewriter(glossary)];
+  if (expansion === "llm") {
+    rewriters.push(
+      new LlmQueryRewriter(
+        process.env.QUERY_REWRITE_MODEL ??
+          process.env.GEN_MODEL ??
+          DEFAULT_GEN_MODEL
+      )
+    );
+  }
+  return rewriters;
+}
+
+/**
+ * 元のクエリ + 言い換え（重複は除く）を maxVariants 件まで返す。先頭は必ず元のクエリ。
+ * 先の rewriter（用語集）で枠が埋まらないよう、1 つの rewriter が足せる数は枠の等分まで。
+ * rewriter が失敗しても検索は止めず、その rewriter の分を飛ばす。
+ */
+export async function expandQuery(
+  query: string,
+  rewriters: QueryRewriter[],
+  maxVariants = DEFAULT_MAX_QUERY_VARIANTS
+): Promise<QueryVariant[]> {
+  const variants: QueryVariant[] = [{ query, source: "original" }];
+  const seen = new Set([normalizeQuery(query)]);
+  const share = Math.ceil((maxVariants - 1) / Math.max(rewriters.length, 1));
+  for (const rewriter of rewriters) {
+    if (variants.length >= maxVariants) break;
+    let rewritten: string[] = [];
+    try {
+      rewritten = await rewriter.rewrite(query);
+    } catch (e) {
+      console.error(`[QUERY_REWRITE] ${rewriter.name} failed: ${e}`);
+    }
+    let added = 0;
+    for (const q of rewritten) {
+      if (variants.length >= maxVariants || added >= share) break;
+      const key = normalizeQuery(q);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      variants.push({ query: q, source: rewriter.name });
+      added++;
+    }
+  }
+  return variants;
+}
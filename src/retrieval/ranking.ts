@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+
+/**
+ * ranking.config.json のスキーマ。
+ * docs チームが JSON だけで重みを調整できるよう、TypeScript の if 文だった
+ * sourceWeight / headingWeight をデータとして表現する。
+ *
+ * headingRules は上から順に評価し、
+ *   - whenQueryIncludes のどれかがクエリに含まれ
+ *   - boosts のうち見出しに一致する最初のもの
+ * の weight を返す。どのルールにも当たらなければ 1.0。
+ */
+const BoostSchema = z
+  .object({
+    headingIncludes: z.array(z.string().min(1)).default([]),
+    headingStartsWith: z.array(z.string().min(1)).default([]),
+    weight: z.number().positive(),
+  })
+  .refine(
+    (b) => b.headingIncludes.length > 0 || b.headingStartsWith.length > 0,
+    { message: "headingIncludes か headingStartsWith のどちらかは必須です" }
+  );
+
+const HeadingRuleSchema = z.object({
+  name: z.string().min(1),
+  whenQueryIncludes: z.array(z.string().min(1)).min(1),
+  boosts: z.array(BoostSchema).min(1),
+});
+
+export const RankingConfigSchema = z.object({
+  version: z.literal(1),
+  defaultSourceWeight: z.number().positive().default(1.0),
+  sourceWeights: z.record(z.string(), z.number().positive()).default({}),
+  headingRules: z.array(HeadingRuleSchema).default([]),
+});
+
+export type RankingConfig = z.infer<typeof RankingConfigSchema>;
+
+export const DEFAULT_RANKING_FILE = path.resolve(
+  process.env.RANKING_CONFIG ?? "ranking.config.json"
+);
+
+/** 重みを一切かけない設定（テストやチューニングの基準用） */
+export const NEUTRAL_RANKING: RankingConfig = {
+  version: 1,
+  defaultSourceWeight: 1.0,
+  sourceWeights: {},
+  headingRules: [],
+};
+
+export function parseRankingConfig(
+  raw: unknown,
+  origin = "ranking config"
+): RankingConfig {
+  const parsed = RankingConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`${origin} が不正です:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export async function loadRankingConfig(
+  file: string = DEFAULT_RANKING_FILE
+): Promise<RankingConfig> {
+  const raw = await fsp.readFile(file, "utf-8");
+  return parseRankingConfig(JSON.parse(raw), path.basename(file));
+}
+
+export function sourceWeight(config: RankingConfig, source: string): number {
+  return config.sourceWeights[source] ?? config.defaultSourceWeight;
+}
+
+export function headingWeight(
+  config: RankingConfig,
+  heading: string,
+  query: string
+): number {
+  for (const rule of config.headingRules) {
+    if (!rule.whenQueryIncludes.some((w) => query.includes(w))) continue;
+    for (const b of rule.boosts) {
+      if (
+        b.headingIncludes.some((w) => heading.includes(w)) ||
+        b.headingStartsWith.some((w) => heading.startsWith(w))
+      )
+        return b.weight;
+    }
+  }
+  return 1.0;
+}
+
+/**
+ * 設定ファイルを監視し、変更されたら検証して onReload を呼ぶ（サーバのホットリロード用）。
+ * 不正な JSON に書き換えられた場合は前の設定を使い続け、エラーだけ出す。
+ * 戻り値で監視を止められる。
+ */
+export function watchRankingConfig(
+  file: string,
+  onReload: (config: RankingConfig) => void
+): () => void {
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = () => {
+    loadRankingConfig(file)
+      .then((config) => {
+        onReload(config);
+        console.error(`[RANKING] reloaded: ${file}`);
+      })
+      .catch((e) => {
+        console.error(`[RANKING] reload failed (keeping previous): ${e}`);
+      });
+  };
+
+  // エディタの保存は rename + write など複数イベントになるので少し待つ
+  const watcher = fs.watch(path.dirname(file), (_event, name) => {
+    if (name !== path.basename(file)) return;
+    clearTimeout(timer);
+    timer = setTimeout(reload, 200);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { tokenize } from "./bm25.js";
+import { breadcrumb } from "./chunker.js";
+import { DEFAULT_GEN_MODEL } from "./generator.js";
+import { getOpenAI } from "./openai.js";
+import type { SearchHit } from "./types.js";
+
+/**
+ * 2 段目の再ランク。retriever の上位 N 件（fused 順）だけを採点し直して並べ替える。
+ * score は hits と同じ並びで返し、大きいほど関連が高い（尺度は実装ごとに違ってよい）。
+ */
+export interface Reranker {
+  readonly name: string;
+  score(query: string, hits: SearchHit[]): Promise<number[]>;
+}
+
+export const RERANKERS = ["lexical", "llm"] as const;
+export type RerankerName = (typeof RERANKERS)[number];
+
+// 再ランクに回す候補数の既定値（topK がこれより大きければ topK まで広げる）
+export const DEFAULT_RERANK_CANDIDATES = 20;
+
+/** 見出しパスも本文の一部として扱う（見出しにだけ出る語で落とさないため） */
+function rerankText(hit: SearchHit): string {
+  return `${breadcrumb(hit.chunk.meta)}\n${hit.chunk.text}`;
+}
+
+/**
+ * ネットワーク不要・決定的な再ランク。
+ * クエリの語（BM25 と同じトークン）のうち、チャンクに出てくる割合をスコアにする。
+ * BM25 と違って長さで割り引かないので、短い FAQ より本文の揃った仕様が上がりやすい。
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical";
+
+  async score(query: string, hits: SearchHit[]): Promise<number[]> {
+    const q = new Set(tokenize(query));
+    if (q.size === 0) return hits.map(() => 0);
+    return hits.map((hit) => {
+      const doc = new Set(tokenize(rerankText(hit)));
+      let matched = 0;
+      for (const t of q) if (doc.has(t)) matched++;
+      return matched / q.size;
+    });
+  }
+}
+
+const LLM_RERANK_INSTRUCTIONS =
+  "あなたは検索結果の採点者です。質問に答えるのにそれぞれの候補がどれだけ役立つかを 0〜10 の整数で採点してください。無関係なら 0、そのまま答えになるなら 10 です。scores には候補と同じ順・同じ件数で点数を入れてください。";
+
+const LlmScoresSchema = z.object({ scores: z.array(z.number()) });
+
+const { $schema: _schema, ...llmScoresJsonSchema } =
+  z.toJSONSchema(LlmScoresSchema);
+
+/**
+ * 既存の OpenAI クライアント（responses API）で候補をまとめて 1 回採点させる。
+ * 件数が合わない・読めない出力は、足りない分を 0 点として扱う（その候補は後ろに回る）。
+ */
+export class LlmReranker implements Reranker {
+  readonly name: string;
+
+  constructor(
+    readonly model: string = DEFAULT_GEN_MODEL,
+    private readonly maxChars = 800
+  ) {
+    this.name = `llm:${model}`;
+  }
+
+  async score(query: string, hits: SearchHit[]): Promise<number[]> {
+    if (hits.length === 0) return [];
+    const candidates = hits
+      .map((h, i) => `【${i + 1}】${rerankText(h).slice(0, this.maxChars)}`)
+      .join("\n\n");
+    const resp = await getOpenAI().responses.create({
+      model: this.model,
+      instructions: LLM_RERANK_INSTRUCTIONS,
+      input: `質問: ${query}\n\n候補:\n${candidates}`,
+      text: {
+        format: {
+          type: "json_schema",
+          name: "rerank_scores",
+          schema: llmScoresJsonSchema,
+          strict: false,
+        },
+      },
+    });
+    let scores: number[] = [];
+    try {
+      scores =
+        LlmScoresSchema.safeParse(JSON.parse(resp.output_text ?? "")).data
+          ?.scores ?? [];
+    } catch {
+      console.error(`[RERANK] unreadable output: ${resp.output_text}`);
+    }
+    return hits.map((_h, i) => scores[i] ?? 0);
+  }
+}
+
+/**
+ * 名前から再ランクを作る（HTTP / MCP のリクエストごとの指定用）。
+ * llm のモデルは RERANK_MODEL > GEN_MODEL > 既定の生成モデル。
+ */
+export function createReranker(name: string): Reranker {
+  const reranker = name.toLowerCase();
+  if (reranker === "lexical") return new LexicalReranker();
+  if (reranker === "llm") {
+    return new LlmReranker(
+      process.env.RERANK_MODEL ?? process.env.GEN_MODEL ?? DEFAULT_GEN_MODEL
+    );
+  }
+  throw new Error(
+    `unknown reranker: ${name}（${RERANKERS.join(" / ")} のいずれかを指定）`
+  );
+}
+
+/**
+ * hits（fused 順）を reranker のスコアで並べ替える。同点は元の順位を保つ。
+ * rank は並べ替え後の順位に付け直し、元の順位は rerank.preRank に残す。
+ */
+export async function rerankHits(
+  reranker: Reranker,
+  query: string,
+  hits: SearchHit[]
+): Promise<SearchHit[]> {
+  const scores = await reranker.score(query, hits);
+  if (scores.length !== hits.length) {
+    throw new Error(
+      `reranker ${reranker.name} returned ${scores.length} scores for ${hits.length} hits`
+    );
+  }
+  return hits
+    .map((hit, i) => ({ hit, score: scores[i]! }))
+    .sort((a, b) => b.score - a.score || a.hit.rank - b.hit.rank)
+    .map(({ hit, score }, i) => ({
+      ...hit,
+      rank: i + 1,
+      rerank: { reranker: reranker.name, score, preRank: hit.rank },
+    }));
+}
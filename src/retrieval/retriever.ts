@@ -0,0 +1,342 @@
+import {
+  embedQuery,
+  providerForModel,
+  type EmbeddingProvider,
+} from "./embedding.js";
+import { ANN_MIN_CANDIDATES, DEFAULT_ANN_NPROBE } from "./ann.js";
+import { Bm25Index } from "./bm25.js";
+import { sectionKey } from "./context.js";
+import { toChunkFilter } from "./filter.js";
+import { loadIndex, toLoadedIndex } from "./index_store.js";
+import {
+  normalizeQuery,
+  sharedQueryCache,
+  type QueryEmbeddingCache,
+} from "./query_cache.js";
+import { DEFAULT_RERANK_CANDIDATES, rerankHits } from "./rerank.js";
+import { normalize } from "./vectors.js";
+import {
+  NEUTRAL_RANKING,
+  headingWeight,
+  loadRankingConfig,
+  sourceWeight,
+  type RankingConfig,
+} from "./ranking.js";
+import type {
+  ChunkFilter,
+  ChunkMeta,
+  IndexFile,
+  LoadedIndex,
+  ResolvedChunk,
+  SearchHit,
+  SearchOptions,
+  StoredChunk,
+} from "./types.js";
+
+export const DEFAULT_TOP_K = 5;
+// 不正な HYBRID_ALPHA は起動時（読み込み時）にエラーにする
+export const DEFAULT_HYBRID_ALPHA = parseHybridAlpha(process.env.HYBRID_ALPHA);
+// RRF の定数（一般的な 60 を採用）
+export const RRF_K = 60;
+
+/** ハイブリッドの重み（1 = ベクトルのみ / 0 = BM25 のみ）。未指定・空なら 0.7、0〜1 の数値以外はエラー */
+export function parseHybridAlpha(raw: string | undefined): number {
+  if (raw === undefined || raw.trim() === "") return 0.7;
+  const alpha = Number(raw);
+  if (!Number.isFinite(alpha) || alpha < 0 || alpha > 1) {
+    throw new Error(`HYBRID_ALPHA は 0〜1 の数値で指定してください: ${raw}`);
+  }
+  return alpha;
+}
+
+export type RetrieverInit = {
+  // 省略時は IndexFile.model から復元する
+  provider?: EmbeddingProvider;
+  // 省略時は重みなし（NEUTRAL_RANKING）
+  ranking?: RankingConfig;
+  // ANN の候補がこれ未満なら全件走査に戻す
+  annMinCandidates?: number;
+  nprobe?: number;
+  // クエリ埋め込みのキャッシュ。null で使わない。
+  // 省略時は provider を model から復元したときだけ共有キャッシュを使う
+  // （渡された provider は同じ model 名でも同じ埋め込みを返すとは限らないため）
+  queryCache?: QueryEmbeddingCache | null;
+};
+
+export type RetrieverOptions = {
+  // 省略時は artifacts/index.meta.json、無ければ旧 artifacts/index.json
+  indexFile?: string;
+  // 省略時は ranking.config.json（RANKING_CONFIG で変更可）
+  rankingFile?: string;
+  provider?: EmbeddingProvider;
+};
+
+/**
+ * 検索の入口はすべてここを通す（search / eval / HTTP / MCP でスコアを揃えるため）。
+ *   1) クエリを埋め込み（同じクエリは queryCache から）
+ *   2) チャンクと cosine を計算（正規化済みベクトルとの内積）
+ *      IVF があれば近いクラスタのチャンクだけ、無ければ全件
+ *   3) ranking.config.json の sourceWeight / headingWeight で再ランク
+ *   4) BM25 の順位と RRF で融合（alpha で比重を調整）
+ *   5) expansions（言い換え）があれば、それぞれの結果の fused を足して融合
+ *   6) rerank 指定時のみ、上位 N 件を Reranker で採点し直して並べ替え
+ * filter があれば 2) の前に絞り込み、条件外のチャンクは順位にも結果にも入れない。
+ */
+export class Retriever {
+  readonly index: LoadedIndex;
+  readonly provider: EmbeddingProvider;
+  readonly lexical: Bm25Index;
+  // ホットリロードで差し替えるため readonly にしない
+  ranking: RankingConfig;
+  private readonly byId: Map<string, StoredChunk>;
+  private readonly annMinCandidates: number;
+  private readonly nprobe: number;
+  readonly queryCache: QueryEmbeddingCache | null;
+  // セクション（source + 見出しパス）→ チャンク（part 順）。初めて使うときに作る
+  private sections: Map<string, StoredChunk[]> | undefined;
+
+  // 旧形式の IndexFile（テストや移行用）もそのまま渡せる
+  constructor(index: LoadedIndex | IndexFile, init: RetrieverInit = {}) {
+    const loaded = "vectors" in index ? index : toLoadedIndex(index);
+    this.index = loaded;
+    this.provider = init.provider ?? providerForModel(loaded.model);
+    this.ranking = init.ranking ?? NEUTRAL_RANKING;
+    this.lexical = new Bm25Index(loaded.chunks.map((c) => c.text));
+    this.byId = new Map(loaded.chunks.map((c) => [c.id, c]));
+    this.annMinCandidates = init.annMinCandidates ?? ANN_MIN_CANDIDATES;
+    this.nprobe = init.nprobe ?? DEFAULT_ANN_NPROBE;
+    this.queryCache =
+      init.queryCache !== undefined
+        ? init.queryCache
+        : init.provider
+        ? null
+        : sharedQueryCache();
+    if (this.provider.model !== loaded.model) {
+      throw new Error(
+        `embedding model mismatch: index=${loaded.model} provider=${this.provider.model}`
+      );
+    }
+  }
+
+  static async load(options: RetrieverOptions = {}): Promise<Retriever> {
+    const [index, ranking] = await Promise.all([
+      loadIndex(options.indexFile),
+      loadRankingConfig(options.rankingFile),
+    ]);
+    return new Retriever(index, {
+      ranking,
+      ...(options.provider && { provider: options.provider }),
+    });
+  }
+
+  get model(): string {
+    return this.index.model;
+  }
+
+  get chunks(): StoredChunk[] {
+    return this.index.chunks;
+  }
+
+  getChunk(id: string): StoredChunk | undefined {
+    return this.byId.get(id);
+  }
+
+  /** 現 id でも旧 id（aliases）でも引けるようにする */
+  resolveChunk(id: string): ResolvedChunk | undefined {
+    const chunk = this.byId.get(id);
+    if (chunk) return { chunk };
+    const movedTo = this.index.aliases?.[id];
+    const moved = movedTo ? this.byId.get(movedTo) : undefined;
+    return moved && movedTo ? { chunk: moved, movedTo } : undefined;
+  }
+
+  /** 同じセクションのチャンクを part 順に返す（根拠の組み立てで前後の part を引く用） */
+  sectionChunks(
+    meta: Pick<ChunkMeta, "source" | "heading" | "headingPath">
+  ): StoredChunk[] {
+    if (!this.sections) {
+      this.sections = new Map();
+      for (const c of this.index.chunks) {
+        const key = sectionKey(c.meta);
+        this.sections.set(key, [...(this.sections.get(key) ?? []), c]);
+      }
+      for (const list of this.sections.values()) {
+        list.sort((a, b) => a.meta.part - b.meta.part);
+      }
+    }
+    return this.sections.get(sectionKey(meta)) ?? [];
+  }
+
+  embedQuery(query: string): Promise<number[]> {
+    if (!this.queryCache) return embedQuery(this.provider, query);
+    return this.queryCache.get(this.provider.model, query, () =>
+      embedQuery(this.provider, query)
+    );
+  }
+
+  /** ANN の候補チャンク番号。undefined なら全件走査 */
+  annCandidates(q: Float32Array): Int32Array | undefined {
+    const { ann } = this.index;
+    if (!ann) return undefined;
+    const candidates = ann.candidates(q, this.nprobe);
+    return candidates.length < this.annMinCandidates ? undefined : candidates;
+  }
+
+  /** 全チャンク（filter 指定時は条件内）を fused 降順で返す（topK で切らない） */
+  score(
+    query: string,
+    qEmb: number[],
+    alpha = DEFAULT_HYBRID_ALPHA,
+    options: {
+      exact?: boolean | undefined;
+      filter?: ChunkFilter | undefined;
+    } = {}
+  ): SearchHit[] {
+    if (!(alpha >= 0 && alpha <= 1)) {
+      throw new Error(`alpha must be within [0, 1]: ${alpha}`);
+    }
+
+    const { vectors } = this.index;
+    if (qEmb.length !== vectors.dim) {
+      throw new Error(
+        `query embedding dim mismatch: ${qEmb.length} != ${vectors.dim}`
+      );
+    }
+    const q = normalize(qEmb);
+    const { filter } = options;
+    const allowed = filter && this.index.chunks.map((c) => filter.test(c.meta));
+    const inFilter = (i: number) => !allowed || allowed[i] === true;
+    // 絞り込み後は対象チャンクだけ内積を取る（ANN の候補だと条件内の取りこぼしが出る）
+    const candidates =
+      options.exact || allowed ? undefined : this.annCandidates(q);
+    let cosines: Float32Array;
+    let inVector: (i: number) => boolean = inFilter;
+    if (allowed) {
+      cosines = new Float32Array(vectors.count);
+      allowed.forEach((ok, i) => {
+        if (ok) cosines[i] = vectors.dotRow(i, q);
+      });
+    } else if (candidates) {
+      const mask = new Uint8Array(vectors.count);
+      cosines = new Float32Array(vectors.count);
+      for (const i of candidates) {
+        mask[i] = 1;
+        cosines[i] = vectors.dotRow(i, q);
+      }
+      inVector = (i) => mask[i] === 1;
+    } else {
+      cosines = vectors.dotAll(q);
+    }
+    const bm25 = this.lexical.score(query);
+    const vector = this.index.chunks.map((chunk, i) => {
+      const cosine = cosines[i]!;
+      const sw = sourceWeight(this.ranking, chunk.meta.source);
+      const hw = headingWeight(this.ranking, chunk.meta.heading, query);
+      return { cosine, sw, hw, weighted: cosine * sw * hw };
+    });
+
+    const vectorRank = ranksBy(
+      vector.map((v) => v.weighted),
+      (_s, i) => inVector(i)
+    );
+    const lexicalRank = ranksBy(bm25, (s, i) => s > 0 && inFilter(i));
+
+    return this.index.chunks
+      .flatMap((chunk, i) => {
+        if (!inFilter(i)) return [];
+        const v = vector[i]!;
+        const vr = vectorRank[i] ?? null;
+        const lr = lexicalRank[i] ?? null;
+        const fused =
+          (vr === null ? 0 : alpha / (RRF_K + vr)) +
+          (lr === null ? 0 : (1 - alpha) / (RRF_K + lr));
+        return [
+          {
+            rank: 0,
+            chunk,
+            score: v.cosine,
+            weighted: v.weighted,
+            fused,
+            breakdown: {
+              cosine: v.cosine,
+              sourceWeight: v.sw,
+              headingWeight: v.hw,
+              bm25: bm25[i]!,
+              vectorRank: vr,
+              lexicalRank: lr,
+            },
+          },
+        ];
+      })
+      .sort((a, b) => b.fused - a.fused || b.weighted - a.weighted)
+      .map((hit, i) => ({ ...hit, rank: i + 1 }));
+  }
+
+  async search(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchHit[]> {
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const filter = toChunkFilter(options.filter);
+    const queries = [
+      ...new Map(
+        [query, ...(options.expansions ?? [])].map((q) => [
+          normalizeQuery(q),
+          q,
+        ])
+      ).values(),
+    ];
+    const lists = await Promise.all(
+      queries.map(async (q) =>
+        this.score(q, await this.embedQuery(q), options.alpha, {
+          exact: options.exact,
+          filter,
+        })
+      )
+    );
+    const hits = lists.length === 1 ? lists[0]! : fuseQueryResults(lists);
+    if (!options.rerank) return hits.slice(0, topK);
+    const candidates = Math.max(
+      topK,
+      options.rerankCandidates ?? DEFAULT_RERANK_CANDIDATES
+    );
+    return (
+      await rerankHits(options.rerank, query, hits.slice(0, candidates))
+    ).slice(0, topK);
+  }
+}
+
+/**
+ * 言い換えごとの結果を 1 つにする。fused は各クエリの RRF の和（= 全リストでの RRF）。
+ * 内訳（cosine や bm25）は元のクエリ（lists[0]）のものを残す。
+ */
+function fuseQueryResults(lists: SearchHit[][]): SearchHit[] {
+  const total = new Map<string, number>();
+  for (const list of lists) {
+    for (const hit of list) {
+      total.set(hit.chunk.id, (total.get(hit.chunk.id) ?? 0) + hit.fused);
+    }
+  }
+  return lists[0]!
+    .map((hit) => ({ ...hit, fused: total.get(hit.chunk.id) ?? hit.fused }))
+    .sort((a, b) => b.fused - a.fused || b.weighted - a.weighted)
+    .map((hit, i) => ({ ...hit, rank: i + 1 }));
+}
+
+/** スコア降順の順位（1 始まり）。include を満たさないものは順位なし */
+function ranksBy(
+  scores: number[],
+  include: (s: number, i: number) => boolean = () => true
+): Array<number | undefined> {
+  const ranks = new Array<number | undefined>(scores.length);
+  scores
+    .map((s, i) => ({ s, i }))
+    .filter(({ s, i }) => include(s, i))
+    .sort((a, b) => b.s - a.s)
+    .forEach(({ i }, r) => (ranks[i] = r + 1));
+  return ranks;
+}
+
+export function previewText(text: string, maxChars = 240): string {
+  return text.replace(/\s+/g, " ").slice(0, maxChars);
+}
@@ -0,0 +1,225 @@
+import { z } from "zod";
+import {
+  buildContext,
+  parseCitations,
+  retrieveContext,
+  type AnswerOptions,
+} from "./answer.js";
+import { breadcrumb } from "./chunker.js";
+import type { AnswerGenerator, GenerationFormat } from "./generator.js";
+import type { Retriever } from "./retriever.js";
+import type { ContextReport } from "./context.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  renderPrompt,
+  type PromptInfo,
+  type PromptLabels,
+} from "./prompts.js";
+import type { StoredChunk } from "./types.js";
+
+/**
+ * 構造化回答（.github/copilot-instructions.md の「結論 → 詳細 → 根拠」）。
+ * 文ごとに根拠の chunk id を持たせ、渡した根拠に無い id は捨てる。
+ * モデルの出力が JSON として読めなければ、自由記述の回答として扱う（【n】は引用として拾う）。
+ */
+const AnswerSentenceSchema = z.object({
+  text: z.string().min(1),
+  citations: z.array(z.string()),
+});
+
+export const StructuredAnswerSchema = z.object({
+  conclusion: z.array(AnswerSentenceSchema).min(1).max(3),
+  details: z.array(AnswerSentenceSchema),
+});
+
+export type AnswerSentence = z.infer<typeof AnswerSentenceSchema>;
+export type StructuredAnswer = z.infer<typeof StructuredAnswerSchema>;
+
+const { $schema: _schema, ...answerJsonSchema } = z.toJSONSchema(
+  StructuredAnswerSchema
+);
+
+export const STRUCTURED_ANSWER_FORMAT: GenerationFormat = {
+  name: "structured_answer",
+  schema: answerJsonSchema,
+};
+
+export type StructuredAnswerResult = {
+  answer: StructuredAnswer;
+  // false = 出力を JSON として読めず、自由記述として扱った
+  structured: boolean;
+  // 結論 → 詳細 → 根拠 の順に整形した本文（引用は cited の番号【n】）
+  text: string;
+  raw: string;
+  model: string;
+  // 実際に引用された根拠（初出順）
+  cited: StoredChunk[];
+  // 生成器に渡した根拠すべて（組み立て後）
+  context: StoredChunk[];
+  contextReport: ContextReport;
+  // 根拠に無いので捨てた引用
+  droppedCitations: string[];
+  // 使ったプロンプトテンプレート
+  prompt: PromptInfo;
+};
+
+/** ```json フェンスや前後の説明文が付いていても JSON 部分だけ取り出す */
+function extractJson(raw: string): unknown {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced?.[1] ?? raw;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start < 0 || end < start) return undefined;
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+/** chunk id のほか、番号（"2" / "【2】"）で引用されていても根拠に対応付ける */
+function resolveCitation(
+  ref: string,
+  context: StoredChunk[]
+): StoredChunk | undefined {
+  const byId = context.find((c) => c.id === ref);
+  if (byId) return byId;
+  const n = ref
+    .normalize("NFKC")
+    .trim()
+    .match(/^【?(\d+)】?$/)?.[1];
+  return n ? context[Number(n) - 1] : undefined;
+}
+
+/** モデルの出力を検証し、引用を根拠の id に揃える */
+export function parseStructuredAnswer(
+  raw: string,
+  context: StoredChunk[]
+): Pick<
+  StructuredAnswerResult,
+  "answer" | "structured" | "cited" | "droppedCitations"
+> {
+  const parsed = StructuredAnswerSchema.safeParse(extractJson(raw));
+  const structured = parsed.success;
+  const answer: StructuredAnswer = parsed.success
+    ? parsed.data
+    : {
+        conclusion: [
+          {
+            text: raw.trim() || "（回答なし）",
+            citations: parseCitations(raw).map(String),
+          },
+        ],
+        details: [],
+      };
+
+  const cited: StoredChunk[] = [];
+  const dropped: string[] = [];
+  const resolve = (s: AnswerSentence): AnswerSentence => {
+    const ids: string[] = [];
+    for (const ref of s.citations) {
+      const chunk = resolveCitation(ref, context);
+      if (!chunk) {
+        if (!dropped.includes(ref)) dropped.push(ref);
+        continue;
+      }
+      if (!ids.includes(chunk.id)) ids.push(chunk.id);
+      if (!cited.includes(chunk)) cited.push(chunk);
+    }
+    return { text: s.text, citations: ids };
+  };
+
+  return {
+    answer: {
+      conclusion: answer.conclusion.map(resolve),
+      details: answer.details.map(resolve),
+    },
+    structured,
+    cited,
+    droppedCitations: dropped,
+  };
+}
+
+/** 引用した根拠をレスポンス用の形にする（HTTP / MCP で共通） */
+export function toCitation(chunk: StoredChunk) {
+  // 行番号は構造化チャンカーで作ったインデックスのみ（古い index.json では省略）
+  return {
+    source: chunk.meta.source,
+    heading: chunk.meta.heading,
+    part: chunk.meta.part,
+    path: breadcrumb(chunk.meta),
+    startLine: chunk.meta.startLine,
+    endLine: chunk.meta.endLine,
+    id: chunk.id,
+  };
+}
+
+/** 結論 → 詳細 → 根拠 の Markdown にする（見出しはテンプレートの labels） */
+export function renderStructuredAnswer(
+  answer: StructuredAnswer,
+  cited: StoredChunk[],
+  labels: PromptLabels = { sources: "根拠", none: "なし" }
+): string {
+  const marks = (s: AnswerSentence) =>
+    s.citations
+      .map((id) => `【${cited.findIndex((c) => c.id === id) + 1}】`)
+      .join("");
+  const lines = answer.conclusion.map((s) => s.text + marks(s));
+  if (answer.details.length) {
+    lines.push("", ...answer.details.map((s) => `- ${s.text}${marks(s)}`));
+  }
+  lines.push(
+    "",
+    `${labels.sources}:`,
+    ...(cited.length
+      ? cited.map((c, i) => {
+          const { source, heading, part, startLine, endLine } = c.meta;
+          const range =
+            startLine && endLine ? ` / L${startLine}-${endLine}` : "";
+          const where = `${source} / ${heading} / part ${part}${range}`;
+          return `- 【${i + 1}】${c.id}（${where}）`;
+        })
+      : [`- ${labels.none}`])
+  );
+  return lines.join("\n");
+}
+
+/** 検索 → 根拠（id 付き）→ 構造化出力で生成 → 検証（/answer と MCP の answer ツールの共通経路） */
+export async function answerStructured(
+  retriever: Retriever,
+  generator: AnswerGenerator,
+  question: string,
+  options: AnswerOptions = {}
+): Promise<StructuredAnswerResult> {
+  const { prompt = DEFAULT_PROMPT_TEMPLATE, language, ...search } = options;
+  const { instructions, input, labels, info } = renderPrompt(
+    prompt,
+    "structuredAnswer",
+    language
+  );
+  const { chunks: context, report } = await retrieveContext(
+    retriever,
+    question,
+    search
+  );
+  const evidence = buildContext(context, { withIds: true });
+  const raw = await generator.generate({
+    instructions,
+    input: input(question, evidence),
+    question,
+    context: evidence,
+    passages: context.map((c) => c.text),
+    ids: context.map((c) => c.id),
+    format: STRUCTURED_ANSWER_FORMAT,
+  });
+  const parsed = parseStructuredAnswer(raw, context);
+  return {
+    ...parsed,
+    text: renderStructuredAnswer(parsed.answer, parsed.cited, labels),
+    raw,
+    model: generator.model,
+    context,
+    contextReport: report,
+    prompt: info,
+  };
+}
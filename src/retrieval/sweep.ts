@@ -0,0 +1,389 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type { ChunkerOptions } from "./chunker.js";
+import { expandGlobs } from "./collections.js";
+import type { EmbeddingProvider } from "./embedding.js";
+import {
+  summarizeMetrics,
+  type EvalMetrics,
+  type EvalSummary,
+} from "./eval_runs.js";
+import {
+  resolveTarget,
+  scoreRanking,
+  type GroundTruthEntry,
+} from "./ground_truth.js";
+import { assignChunkIds } from "./ids.js";
+import { contentHash, type PendingChunk } from "./incremental.js";
+import { createLoaderRegistry, loadDocument } from "./loaders.js";
+import type { RankingConfig } from "./ranking.js";
+import { DEFAULT_HYBRID_ALPHA, DEFAULT_TOP_K, Retriever } from "./retriever.js";
+import type { IndexedChunk } from "./types.js";
+
+/**
+ * sweep.config.json のスキーマ（パラメータの探索空間）。
+ * params に書いた軸だけ値を振り、書かなかった軸はコレクションの現設定のまま。
+ *   - sourceWeights: ソース → 試す重み
+ *   - headingRules: ranking.config.json のルール名 → 試す重み（そのルールの boosts すべてに入れる）
+ *   - chunker: 試すチャンク設定（インデックスと違う設定はその場でチャンクを作り直す）
+ * strategy=grid は全組み合わせ、random は seed 固定で trials 件を重複なしに引く。
+ */
+const Weights = z.array(z.number().positive()).min(1);
+
+const SweepParamsSchema = z.object({
+  alpha: z.array(z.number().min(0).max(1)).min(1).optional(),
+  topK: z.array(z.number().int().positive()).min(1).optional(),
+  defaultSourceWeight: Weights.optional(),
+  sourceWeights: z.record(z.string(), Weights).default({}),
+  headingRules: z.record(z.string(), Weights).default({}),
+  chunker: z
+    .array(
+      z
+        .object({
+          maxChars: z.number().int().positive(),
+          overlap: z.number().int().min(0),
+        })
+        .refine((c) => c.overlap < c.maxChars, {
+          message: "overlap は maxChars より小さくしてください",
+        })
+    )
+    .min(1)
+    .optional(),
+});
+
+export const SweepSpaceSchema = z.object({
+  version: z.literal(1),
+  strategy: z.enum(["grid", "random"]).default("grid"),
+  trials: z.number().int().positive().default(50),
+  seed: z.number().int().default(1),
+  params: SweepParamsSchema,
+});
+
+export type SweepSpace = z.infer<typeof SweepSpaceSchema>;
+
+export const DEFAULT_SWEEP_FILE = path.resolve(
+  process.env.SWEEP_CONFIG ?? "sweep.config.json"
+);
+
+/** 1 試行分の値。undefined の軸はコレクションの現設定を使う */
+export type SweepTrial = {
+  alpha?: number;
+  topK?: number;
+  chunker?: ChunkerOptions;
+  defaultSourceWeight?: number;
+  sourceWeights: Record<string, number>;
+  headingRules: Record<string, number>;
+};
+
+export type SweepMetric = "recall" | "ndcg" | "mrr" | "hit";
+
+export const SWEEP_METRICS: SweepMetric[] = ["recall", "ndcg", "mrr", "hit"];
+
+export type SweepResult = {
+  trial: number; // expandSweep の並びでの番号（1 始まり）
+  alpha: number;
+  topK: number;
+  chunker: ChunkerOptions | null;
+  ranking: RankingConfig;
+  params: SweepTrial;
+  summary: EvalSummary;
+};
+
+export function parseSweepSpace(
+  raw: unknown,
+  origin = "sweep config"
+): SweepSpace {
+  const parsed = SweepSpaceSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`${origin} が不正です:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export async function loadSweepSpace(
+  file: string = DEFAULT_SWEEP_FILE
+): Promise<SweepSpace> {
+  const raw = await fs.readFile(file, "utf-8");
+  return parseSweepSpace(JSON.parse(raw), path.basename(file));
+}
+
+/** 探索の 1 軸: 候補の数と、pick 番目の候補を試行に入れる処理 */
+type Axis = { size: number; apply: (trial: SweepTrial, pick: number) => void };
+
+function axis<T>(
+  values: T[],
+  set: (trial: SweepTrial, value: T) => void
+): Axis {
+  return {
+    size: values.length,
+    apply: (trial, pick) => set(trial, values[pick]!),
+  };
+}
+
+function axesOf(space: SweepSpace): Axis[] {
+  const { params } = space;
+  const axes: Axis[] = [];
+  if (params.alpha) {
+    axes.push(axis(params.alpha, (t, v) => (t.alpha = v)));
+  }
+  if (params.topK) {
+    axes.push(axis(params.topK, (t, v) => (t.topK = v)));
+  }
+  if (params.chunker) {
+    axes.push(axis(params.chunker, (t, v) => (t.chunker = v)));
+  }
+  if (params.defaultSourceWeight) {
+    axes.push(
+      axis(params.defaultSourceWeight, (t, v) => (t.defaultSourceWeight = v))
+    );
+  }
+  for (const [source, values] of Object.entries(params.sourceWeights)) {
+    axes.push(axis(values, (t, v) => (t.sourceWeights[source] = v)));
+  }
+  for (const [rule, values] of Object.entries(params.headingRules)) {
+    axes.push(axis(values, (t, v) => (t.headingRules[rule] = v)));
+  }
+  return axes;
+}
+
+function trialOf(axes: Axis[], picks: number[]): SweepTrial {
+  const trial: SweepTrial = { sourceWeights: {}, headingRules: {} };
+  axes.forEach((a, i) => a.apply(trial, picks[i]!));
+  return trial;
+}
+
+/** 乱数は seed から決まるもの（mulberry32）を使い、同じ設定なら同じ試行列になるようにする */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 探索空間を試行の一覧に展開する */
+export function expandSweep(space: SweepSpace): SweepTrial[] {
+  const axes = axesOf(space);
+  const size = axes.reduce((n, a) => n * a.size, 1);
+
+  if (space.strategy === "grid") {
+    const trials: SweepTrial[] = [];
+    for (let n = 0; n < size; n++) {
+      // 最後の軸が一番速く回る
+      let rest = n;
+      const picks = new Array<number>(axes.length);
+      for (let i = axes.length - 1; i >= 0; i--) {
+        picks[i] = rest % axes[i]!.size;
+        rest = Math.floor(rest / axes[i]!.size);
+      }
+      trials.push(trialOf(axes, picks));
+    }
+    return trials;
+  }
+
+  const random = seededRandom(space.seed);
+  const seen = new Set<string>();
+  const trials: SweepTrial[] = [];
+  const want = Math.min(space.trials, size);
+  while (trials.length < want) {
+    const picks = axes.map((a) => Math.floor(random() * a.size));
+    const key = picks.join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    trials.push(trialOf(axes, picks));
+  }
+  return trials;
+}
+
+/** 試行の重みを base の ranking 設定に上書きする（base は変更しない） */
+export function applySweepRanking(
+  base: RankingConfig,
+  trial: SweepTrial
+): RankingConfig {
+  const names = new Set(base.headingRules.map((r) => r.name));
+  for (const name of Object.keys(trial.headingRules)) {
+    if (!names.has(name)) {
+      throw new Error(
+        `headingRules に ${name} はありません（ranking.config.json: ${[
+          ...names,
+        ].join(", ")}）`
+      );
+    }
+  }
+  return {
+    ...base,
+    defaultSourceWeight: trial.defaultSourceWeight ?? base.defaultSourceWeight,
+    sourceWeights: { ...base.sourceWeights, ...trial.sourceWeights },
+    headingRules: base.headingRules.map((rule) => {
+      const weight = trial.headingRules[rule.name];
+      return weight === undefined
+        ? rule
+        : { ...rule, boosts: rule.boosts.map((b) => ({ ...b, weight })) };
+    }),
+  };
+}
+
+/** build:index と同じローダーで sources をチャンクに分ける（チャンク設定を振るとき用） */
+export async function chunkSources(
+  sources: string[],
+  chunker: ChunkerOptions
+): Promise<PendingChunk[]> {
+  const registry = createLoaderRegistry();
+  const chunks: PendingChunk[] = [];
+  for (const file of await expandGlobs(sources)) {
+    const content = await fs.readFile(file, "utf-8");
+    const fileChunks = loadDocument(registry, file, content, chunker);
+    if (fileChunks) chunks.push(...assignChunkIds(fileChunks));
+  }
+  return chunks;
+}
+
+function sameChunker(a: ChunkerOptions | undefined, b: ChunkerOptions) {
+  return !!a && a.maxChars === b.maxChars && a.overlap === b.overlap;
+}
+
+/**
+ * 試行ごとに検索し、ground truth で採点する。
+ * - クエリの埋め込みは最初に 1 回だけ作り、全試行で使い回す
+ * - 重み・alpha・topK だけの試行はインデックスをそのまま使う
+ * - チャンク設定が違う試行はチャンクを作り直すが、埋め込みは本文ハッシュで
+ *   インデックスと過去の試行から流用し、初めて出てきた本文だけ埋め込む
+ * チャンク設定の違うインデックスと比べるため、ANN は使わず全件走査で測る。
+ */
+export async function runSweep(input: {
+  retriever: Retriever;
+  questions: string[];
+  groundTruth: GroundTruthEntry[];
+  trials: SweepTrial[];
+  // チャンク設定を振るときに必要（コレクションの sources を chunkSources で分ける）
+  chunk?: (chunker: ChunkerOptions) => Promise<PendingChunk[]>;
+  onTrial?: (result: SweepResult, done: number) => void;
+}): Promise<SweepResult[]> {
+  const { retriever: base, questions, groundTruth, trials } = input;
+  const provider: EmbeddingProvider = base.provider;
+
+  const queryEmbeddings: number[][] = [];
+  for (const q of questions) queryEmbeddings.push(await base.embedQuery(q));
+
+  // 本文ハッシュ → 埋め込み（インデックスは正規化済みだが、cosine なのでそのまま使える）
+  const embeddings = new Map<string, number[]>();
+  base.chunks.forEach((c, i) => {
+    embeddings.set(
+      c.hash ?? contentHash(c.text),
+      Array.from(base.index.vectors.row(i))
+    );
+  });
+
+  const variants = new Map<string, Promise<Retriever>>();
+  const retrieverFor = (chunker: ChunkerOptions | undefined) => {
+    if (!chunker || sameChunker(base.index.chunker, chunker)) {
+      return Promise.resolve(base);
+    }
+    const key = `${chunker.maxChars}/${chunker.overlap}`;
+    let variant = variants.get(key);
+    if (!variant) {
+      variant = (async () => {
+        if (!input.chunk) {
+          throw new Error("チャンク設定を振るには chunk の指定が必要です");
+        }
+        const pending = await input.chunk(chunker);
+        const hashes = pending.map((c) => contentHash(c.text));
+        const missing = [
+          ...new Set(hashes.filter((h) => !embeddings.has(h))),
+        ].map((h) => pending[hashes.indexOf(h)]!.text);
+        for (let i = 0; i < missing.length; i += 64) {
+          const batch = missing.slice(i, i + 64);
+          const vectors = await provider.embed(batch);
+          batch.forEach((text, j) =>
+            embeddings.set(contentHash(text), vectors[j]!)
+          );
+        }
+        const chunks: IndexedChunk[] = pending.map((c, i) => ({
+          ...c,
+          hash: hashes[i]!,
+          embedding: embeddings.get(hashes[i]!)!,
+        }));
+        return new Retriever(
+          { model: base.model, chunker, chunks },
+          { provider }
+        );
+      })();
+      variants.set(key, variant);
+    }
+    return variant;
+  };
+
+  const results: SweepResult[] = [];
+  for (const [ti, trial] of trials.entries()) {
+    const retriever = await retrieverFor(trial.chunker);
+    const ranking = applySweepRanking(base.ranking, trial);
+    const alpha = trial.alpha ?? DEFAULT_HYBRID_ALPHA;
+    const topK = trial.topK ?? DEFAULT_TOP_K;
+
+    // ranking は Retriever ごとに 1 つなので、試行の間だけ差し替える
+    const previous = retriever.ranking;
+    retriever.ranking = ranking;
+    let metrics: Array<EvalMetrics | null>;
+    try {
+      metrics = questions.map((q, qi) => {
+        const entry = groundTruth.find((e) => e.index === qi + 1);
+        if (!entry) return null;
+        const hits = retriever
+          .score(q, queryEmbeddings[qi]!, alpha, { exact: true })
+          .slice(0, topK);
+        const { matches: _matches, ...m } = scoreRanking(
+          hits.map((h) => h.chunk),
+          entry.targets.map((t) => resolveTarget(retriever.chunks, t))
+        );
+        return m;
+      });
+    } finally {
+      retriever.ranking = previous;
+    }
+
+    const result: SweepResult = {
+      trial: ti + 1,
+      alpha,
+      topK,
+      chunker: trial.chunker ?? base.index.chunker ?? null,
+      ranking,
+      params: trial,
+      summary: summarizeMetrics(metrics),
+    };
+    results.push(result);
+    input.onTrial?.(result, ti + 1);
+  }
+  return results;
+}
+
+function metricOf(summary: EvalSummary, metric: SweepMetric): number {
+  const v = {
+    recall: summary.recallAtK,
+    ndcg: summary.ndcgAtK,
+    mrr: summary.mrr,
+    hit: summary.hitAtK,
+  }[metric];
+  return v ?? -1;
+}
+
+/**
+ * metric の降順。同点は残りの指標（recall → nDCG → MRR → hit の順）、それでも同点なら試行順。
+ * topK が違う試行の指標は @k が違うので、topK を振るときは比べ方に注意する。
+ */
+export function rankSweepResults(
+  results: SweepResult[],
+  metric: SweepMetric = "recall"
+): SweepResult[] {
+  const order = [metric, ...SWEEP_METRICS.filter((m) => m !== metric)];
+  return [...results].sort((a, b) => {
+    for (const m of order) {
+      const d = metricOf(b.summary, m) - metricOf(a.summary, m);
+      if (d !== 0) return d;
+    }
+    return a.trial - b.trial;
+  });
+}
@@ -0,0 +1,122 @@
+import {
+  DEFAULT_CHUNKER_OPTIONS,
+  chunkSections,
+  type ChunkerOptions,
+  type Line,
+  type Section,
+} from "./chunker.js";
+import type { DocumentChunk, DocumentLoader } from "./loaders.js";
+
+/**
+ * TypeScript ソースのドキュメントコメント（/** ... *\/）を、直後の宣言と組にして 1 チャンクにする。
+ * - 見出しは宣言名（function chunkMarkdown / class Retriever / type ChunkMeta など）
+ * - クラス内のメンバーは [class 名, メンバー名] のパンくずにする
+ * - 宣言が続かないコメント（ファイル先頭の説明など）は「（先頭）」扱い
+ * 字句解析はせず、prettier 済みのコード（トップレベルは行頭から始まる）を前提に行単位で見る。
+ * 長いコメントは他の形式と同じく maxChars / overlap で part に分ける（シグネチャは切らない）。
+ */
+export const tsDocLoader: DocumentLoader = {
+  name: "ts-doc",
+  extensions: [".ts", ".mts", ".cts"],
+  load: (content, options) => chunkTsDoc(content, options),
+};
+
+const DECL_RE =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const MEMBER_RE =
+  /^(?:(?:public|private|protected|static|readonly|async|override|get|set)\s+)*(?:\*\s*)?([A-Za-z_$][\w$]*)\s*[?!]?\s*[(<:=;]/;
+// シグネチャとして本文に含める最大行数（引数が複数行に折り返される場合のため）
+const MAX_SIGNATURE_LINES = 8;
+
+/** コメントの本文を行番号付きで取り出す（前後の空行は除く） */
+function commentBody(lines: string[], from: number): Line[] {
+  const body = lines.map((l, i) => ({
+    text: l
+      .replace(/^\s*\/\*\*\s?/, "")
+      .replace(/\s*\*\/\s*$/, "")
+      .replace(/^\s*\*\s?/, "")
+      .trimEnd(),
+    no: from + i + 1,
+  }));
+  while (body.length && !body[0]!.text.trim()) body.shift();
+  while (body.length && !body.at(-1)!.text.trim()) body.pop();
+  return body;
+}
+
+/** 宣言の行から、本体の { や => の手前までを返す */
+function signature(lines: string[], from: number): Line[] {
+  const out: Line[] = [];
+  for (
+    let i = from;
+    i < lines.length && out.length < MAX_SIGNATURE_LINES;
+    i++
+  ) {
+    const text = lines[i]!;
+    out.push({ text, no: i + 1 });
+    if (/[{;]\s*$|=>\s*$|=\s*$/.test(text)) break;
+  }
+  const last = out.at(-1);
+  if (last) last.text = last.text.replace(/\s*(\{|=>|=)\s*$/, "").trimEnd();
+  return out;
+}
+
+export function chunkTsDoc(
+  content: string,
+  options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS
+): DocumentChunk[] {
+  const lines = content.split(/\r?\n/);
+  const sections: Section[] = [];
+  let currentClass: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    // トップレベルのクラス宣言と、その閉じ括弧（行頭の "}"）でクラスの範囲を追う
+    const top = line.match(DECL_RE);
+    if (top && top[1] === "class") currentClass = top[2];
+    else if (/^}/.test(line)) currentClass = undefined;
+
+    if (!/^\s*\/\*\*/.test(line) || /^\s*\/\*\*\//.test(line)) continue;
+
+    const start = i;
+    while (i < lines.length && !lines[i]!.includes("*/")) i++;
+    const body = commentBody(lines.slice(start, i + 1), start);
+
+    let next = i + 1;
+    while (next < lines.length && !lines[next]!.trim()) next++;
+    const declLine = lines[next] ?? "";
+    const indented = /^\s/.test(declLine);
+    const decl = declLine.trim().match(DECL_RE);
+    const member = indented ? declLine.trim().match(MEMBER_RE) : null;
+
+    let headingPath: string[] = [];
+    if (decl && !indented) headingPath = [`${decl[1]} ${decl[2]}`];
+    else if (member && currentClass)
+      headingPath = [`class ${currentClass}`, member[1]!];
+    else if (member) headingPath = [member[1]!];
+
+    if (!body.length) continue;
+    if (headingPath.length === 0) {
+      sections.push({ headingPath: [], lines: body });
+      continue;
+    }
+
+    // パンくず（コメントの開始行扱い）→ コメント → シグネチャのコードブロック
+    const sig = signature(lines, next);
+    sections.push({
+      headingPath,
+      lines: [
+        { text: headingPath.join(" > "), no: start + 1 },
+        { text: "", no: start + 1 },
+        ...body,
+        { text: "", no: next },
+        { text: "```ts", no: next + 1 },
+        ...sig,
+        { text: "```", no: sig.at(-1)!.no },
+      ],
+    });
+    // クラス宣言の行を読み飛ばさないよう、宣言行の手前から再開する
+    i = next - 1;
+  }
+  return chunkSections(sections, options);
+}
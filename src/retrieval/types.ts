@@ -0,0 +1,135 @@
+import type { IvfIndex } from "./ann.js";
+import type { Reranker } from "./rerank.js";
+import type { VectorMatrix } from "./vectors.js";
+
+export type ChunkMeta = {
+  source: string; // e.g. docs/api.md
+  heading: string; // e.g. 認証（API）
+  part: number;
+  // 以下は構造化チャンカー以降のインデックスのみ（古い index.json には無い）
+  headingPath?: string[]; // e.g. ["POST /v1/orders", "レスポンス"]
+  startLine?: number;
+  endLine?: number;
+  // front matter 由来（書かれているドキュメントのみ）
+  owner?: string;
+  tags?: string[];
+  status?: string; // e.g. draft / approved
+  version?: string;
+};
+
+/** ドキュメント単位の属性（front matter）。同じファイルの全チャンクに付く */
+export type DocumentAttributes = Pick<
+  ChunkMeta,
+  "owner" | "tags" | "status" | "version"
+>;
+
+export type StoredChunk = {
+  id: string;
+  text: string;
+  meta: ChunkMeta;
+  hash?: string; // sha256(text)。差分ビルドで埋め込みを流用する判定に使う
+};
+
+export type IndexedChunk = StoredChunk & {
+  embedding: number[];
+};
+
+type IndexHeader = {
+  model: string;
+  // どのチャンク設定で作ったか（評価結果の再現用。古い index.json には無い）
+  chunker?: { maxChars: number; overlap: number };
+  // 旧 id → 現 id（見出し変更などで id が変わっても過去の引用を解決するため）
+  aliases?: Record<string, string>;
+  collection?: string; // collections.config.json のコレクション名
+  builtAt?: string; // ISO 8601
+};
+
+/** 旧形式（format 1）: 埋め込みも JSON の数値配列で持つ artifacts/index.json */
+export type IndexFile = IndexHeader & {
+  chunks: IndexedChunk[];
+};
+
+export type VectorDType = "float32" | "int8";
+
+/** format 2: メタデータは JSON、ベクトルは別ファイルのバイナリ（little-endian） */
+export type IndexMetaFile = IndexHeader & {
+  format: 2;
+  vectors: {
+    file: string; // メタファイルからの相対パス
+    dtype: VectorDType;
+    dim: number;
+    count: number;
+  };
+  // 近似最近傍（IVF）。チャンク数が少ないときは作らない
+  ann?: {
+    type: "ivf";
+    file: string; // centroids(float32, nlist*dim) + assignments(int32, count)
+    nlist: number;
+  };
+  chunks: StoredChunk[];
+};
+
+/** メモリ上のインデックス（形式によらずこの形で扱う） */
+export type LoadedIndex = IndexHeader & {
+  chunks: StoredChunk[];
+  vectors: VectorMatrix; // chunks と同じ並び・正規化済み
+  ann?: IvfIndex; // 無い・読めない場合は全件走査
+};
+
+/**
+ * スコアの内訳
+ * - weighted = cosine * sourceWeight * headingWeight（ベクトル側）
+ * - fused = alpha / (k + vectorRank) + (1 - alpha) / (k + lexicalRank)（RRF）
+ * ANN で候補に入らなかったチャンクは cosine を計算しない（0 / vectorRank=null）
+ */
+export type ScoreBreakdown = {
+  cosine: number;
+  sourceWeight: number;
+  headingWeight: number;
+  bm25: number;
+  vectorRank: number | null;
+  lexicalRank: number | null; // BM25 が 0（語が1つも一致しない）なら null
+};
+
+export type SearchHit = {
+  rank: number; // 1 始まり
+  chunk: StoredChunk;
+  score: number; // cosine そのもの（後方互換のため残す）
+  weighted: number;
+  fused: number;
+  breakdown: ScoreBreakdown;
+  // 再ランクしたときだけ付く（rank は再ランク後の順位）
+  rerank?: RerankInfo;
+};
+
+export type RerankInfo = {
+  reranker: string;
+  score: number;
+  preRank: number; // 再ランク前（fused 順）の順位
+};
+
+export type ResolvedChunk = {
+  chunk: StoredChunk;
+  movedTo?: string; // 旧 id で引かれた場合の現 id
+};
+
+export type SearchOptions = {
+  topK?: number | undefined;
+  // 1 = ベクトルのみ, 0 = BM25 のみ
+  alpha?: number | undefined;
+  // true なら ANN があっても全件走査する
+  exact?: boolean | undefined;
+  // ランキング前に候補を絞る条件（filter.ts の式 or パース済み）
+  filter?: string | ChunkFilter | undefined;
+  // 元のクエリの言い換え（query_rewrite.ts）。それぞれで検索し、fused を足し合わせて融合する
+  expansions?: string[] | undefined;
+  // 指定時は上位 rerankCandidates 件を採点し直して並べ替えてから topK で切る
+  rerank?: Reranker | undefined;
+  rerankCandidates?: number | undefined;
+};
+
+/** メタデータでチャンクを絞り込む条件 */
+export type ChunkFilter = {
+  expression: string; // 正規化した式（レスポンスへのエコー用）
+  test(meta: ChunkMeta): boolean;
+};
@@ -0,0 +1,87 @@
+/**
+ * 全チャンクの埋め込みを 1 本の Float32Array（行 = チャンク）で持つ。
+ * 行はロード時に L2 正規化しておくので、cosine は内積だけで済む。
+ */
+export class VectorMatrix {
+  readonly dim: number;
+  readonly data: Float32Array;
+
+  constructor(dim: number, data: Float32Array) {
+    if (dim <= 0 || data.length % dim !== 0) {
+      throw new Error(
+        `invalid vector matrix: dim=${dim} length=${data.length}`
+      );
+    }
+    this.dim = dim;
+    this.data = data;
+  }
+
+  static fromArrays(vectors: ArrayLike<number>[], dim?: number): VectorMatrix {
+    const d = dim ?? vectors[0]?.length ?? 0;
+    const data = new Float32Array(vectors.length * d);
+    vectors.forEach((v, i) => {
+      if (v.length !== d) {
+        throw new Error(`embedding dim mismatch at ${i}: ${v.length} != ${d}`);
+      }
+      data.set(normalize(v), i * d);
+    });
+    return new VectorMatrix(d || 1, data);
+  }
+
+  get count(): number {
+    return this.data.length / this.dim;
+  }
+
+  row(i: number): Float32Array {
+    return this.data.subarray(i * this.dim, (i + 1) * this.dim);
+  }
+
+  dotRow(i: number, q: Float32Array): number {
+    const { dim, data } = this;
+    let s = 0;
+    for (let j = 0, off = i * dim; j < dim; j++) s += data[off + j]! * q[j]!;
+    return s;
+  }
+
+  /** 正規化済みクエリとの内積（= cosine）を全行ぶん返す */
+  dotAll(q: Float32Array): Float32Array {
+    const { dim, data } = this;
+    const out = new Float32Array(this.count);
+    for (let r = 0, off = 0; r < out.length; r++, off += dim) {
+      let s = 0;
+      for (let j = 0; j < dim; j++) s += data[off + j]! * q[j]!;
+      out[r] = s;
+    }
+    return out;
+  }
+}
+
+export function normalize(v: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(v);
+  let n = 0;
+  for (let i = 0; i < out.length; i++) n += out[i]! * out[i]!;
+  n = Math.sqrt(n);
+  if (n > 0) for (let i = 0; i < out.length; i++) out[i]! /= n;
+  return out;
+}
+
+// int8 量子化: 正規化済みベクトルは各成分が [-1, 1] に収まるので 127 倍して丸める
+export const INT8_SCALE = 127;
+
+export function quantizeInt8(data: Float32Array): Int8Array {
+  const out = new Int8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = Math.max(-127, Math.min(127, Math.round(data[i]! * INT8_SCALE)));
+  }
+  return out;
+}
+
+export function dequantizeInt8(data: Int8Array, dim: number): VectorMatrix {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) out[i] = data[i]! / INT8_SCALE;
+  // 丸め誤差でノルムが 1 からずれるので行ごとに正規化し直す
+  for (let off = 0; off < out.length; off += dim) {
+    out.set(normalize(out.subarray(off, off + dim)), off);
+  }
+  return new VectorMatrix(dim, out);
+}
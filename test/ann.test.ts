@@ -0,0 +1,99 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  IvfIndex,
+  Retriever,
+  VectorMatrix,
+  loadIndex,
+  normalize,
+  vectorTopK,
+  writeIndex,
+  type EmbeddingProvider,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+// 4 方向の周りに散らばった 200 本のベクトル（決定的）
+function clustered(): number[][] {
+  const out: number[][] = [];
+  for (let i = 0; i < 200; i++) {
+    const v = new Array(8)
+      .fill(0)
+      .map((_, j) => Math.sin(i * 7 + j * 13) * 0.1);
+    v[i % 4]! += 1;
+    out.push(v);
+  }
+  return out;
+}
+
+const fixed = (vec: number[]): EmbeddingProvider => ({
+  model: "m",
+  embed: async (texts) => texts.map(() => vec),
+});
+
+function indexOf(vectors: number[][]): IndexFile {
+  return {
+    model: "m",
+    chunks: vectors.map((embedding, i) => ({
+      id: `c${i}`,
+      text: `chunk ${i}`,
+      meta: { source: "docs/a.md", heading: `H${i}`, part: 0 },
+      embedding,
+    })),
+  };
+}
+
+test("IVF candidates keep recall against brute force", () => {
+  const matrix = VectorMatrix.fromArrays(clustered());
+  const ivf = IvfIndex.build(matrix, { nlist: 8 });
+  assert.equal(ivf.nlist, 8);
+  assert.equal(
+    ivf.lists.reduce((s, l) => s + l.length, 0),
+    matrix.count
+  );
+
+  const q = normalize([1, 0.05, 0, 0, 0, 0, 0, 0]);
+  const exact = vectorTopK(matrix, q, 5);
+  const approx = vectorTopK(matrix, q, 5, ivf, 2);
+  assert.deepEqual(approx, exact);
+  assert.ok(ivf.candidates(q, 2).length < matrix.count);
+});
+
+test("ANN index round-trips and the retriever falls back to exact scan", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rag-ann-"));
+  const metaFile = path.join(dir, "index.meta.json");
+  const written = await writeIndex(metaFile, indexOf(clustered()), "float32", {
+    nlist: 8,
+  });
+  assert.equal(written.annFile, path.join(dir, "index.ann.bin"));
+
+  const index = await loadIndex(metaFile);
+  assert.equal(index.ann?.nlist, 8);
+
+  const query = [0, 1, 0.05, 0, 0, 0, 0, 0];
+  const withAnn = new Retriever(index, {
+    provider: fixed(query),
+    annMinCandidates: 1,
+  });
+  const approx = await withAnn.search("x", { topK: 3, alpha: 1 });
+  const exact = await withAnn.search("x", { topK: 3, alpha: 1, exact: true });
+  assert.deepEqual(
+    approx.map((h) => h.chunk.id),
+    exact.map((h) => h.chunk.id)
+  );
+  // 候補外のチャンクにはベクトル順位が付かない
+  const all = withAnn.score("x", query, 1);
+  assert.ok(all.some((h) => h.breakdown.vectorRank === null));
+
+  // 壊れた IVF は無視して全件走査
+  await fs.writeFile(written.annFile!, "broken");
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    assert.equal((await loadIndex(metaFile)).ann, undefined);
+  } finally {
+    console.warn = warn;
+  }
+});
@@ -0,0 +1,300 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  Retriever,
+  StubAnswerGenerator,
+  answerQuestion,
+  answerStructured,
+  evaluateAnswer,
+  parseCitations,
+  parseExpectedFacts,
+  parseStructuredAnswer,
+  renderStructuredAnswer,
+  resolveTarget,
+  streamAnswer,
+  type AnswerGenerator,
+  type AnswerStreamEvent,
+  type EmbeddingProvider,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+const provider: EmbeddingProvider = {
+  model: "fake",
+  embed: async (texts) => texts.map(() => [1, 0]),
+};
+
+const index: IndexFile = {
+  model: "fake",
+  chunks: [
+    {
+      id: "docs/api.md::レート制限::0",
+      text: "* **クライアント単位で 100 リクエスト/分**\n* ヘッダ：`X-RateLimit-Limit`",
+      meta: { source: "docs/api.md", heading: "レート制限", part: 0 },
+      embedding: [1, 0],
+    },
+    {
+      id: "docs/faq.md::Q1::0",
+      text: "A. OAuth 2.0 Client Credentials です。",
+      meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+      embedding: [0, 1],
+    },
+  ],
+};
+
+test("parseCitations reads 【n】 markers including grouped ones", () => {
+  assert.deepEqual(parseCitations("A【2】。B【1,3】【１、2】"), [2, 1, 3]);
+  assert.deepEqual(parseCitations("不明です"), []);
+});
+
+test("answerQuestion numbers the retrieved chunks and the stub cites them", async () => {
+  const retriever = new Retriever(index, { provider });
+  const result = await answerQuestion(
+    retriever,
+    new StubAnswerGenerator(),
+    "レート制限のリクエスト数は？",
+    { topK: 2 }
+  );
+  assert.equal(result.model, "stub:extractive");
+  assert.equal(result.chunks[0]?.id, "docs/api.md::レート制限::0");
+  assert.match(result.answer, /100 リクエスト\/分\*\*【1】/);
+  assert.deepEqual(result.citations, [1]);
+
+  const none = await new StubAnswerGenerator().generate({
+    instructions: "",
+    input: "",
+    question: "監査ログの保存期間は？",
+    context: "",
+    passages: ["無関係な本文"],
+    ids: ["x"],
+  });
+  assert.match(none, /不明/);
+});
+
+test("evaluateAnswer checks citations, facts and unknown answers", async () => {
+  const [facts] = parseExpectedFacts(
+    [
+      "| # | 質問 | 回答に必須の事実 |",
+      "| --: | --- | --- |",
+      "| 6 | レート制限 | `100 リクエスト/分` `X-RateLimit-Limit／RateLimit` |",
+    ].join("\n")
+  );
+  assert.equal(facts?.index, 6);
+  assert.deepEqual(facts?.facts[1]?.alternatives, [
+    "X-RateLimit-Limit",
+    "RateLimit",
+  ]);
+
+  const chunks = index.chunks;
+  const targets = [
+    resolveTarget(chunks, {
+      source: "docs/api.md",
+      headingPath: ["レート制限"],
+    }),
+  ];
+
+  // 事実は 2 つとも回答にあるが、引用先（【2】）に書かれているのは無い + 【3】は存在しない
+  const ev = evaluateAnswer({
+    answer: "100リクエスト/分 です。X-RateLimit-Limit を見ます【2】【3】",
+    citations: [2, 3],
+    chunks,
+    facts: facts!.facts,
+    targets,
+  });
+  assert.deepEqual(ev.invalidCitations, [3]);
+  assert.equal(ev.citationValidity, 0.5);
+  assert.equal(ev.coverage, 1);
+  assert.equal(ev.faithfulness, 0);
+  assert.equal(ev.groundTruthRetrieved, true);
+
+  const unknown = evaluateAnswer({
+    answer: "根拠からは不明です。",
+    citations: [],
+    chunks,
+    facts: facts!.facts,
+    targets,
+  });
+  assert.equal(unknown.coverage, 0);
+  assert.equal(unknown.faithfulness, null);
+  assert.equal(unknown.unknownButRetrieved, true);
+
+  // 英語の回答（language: en）の「unknown」も不明と数える
+  for (const answer of [
+    "The evidence does not say; it is unknown.",
+    "Unknown.",
+  ]) {
+    assert.equal(
+      evaluateAnswer({ answer, citations: [], chunks, facts: [], targets })
+        .unknownButRetrieved,
+      true
+    );
+  }
+  assert.equal(
+    evaluateAnswer({
+      answer: "UNKNOWN_ERROR を返します【1】",
+      citations: [1],
+      chunks,
+      facts: [],
+      targets,
+    }).saysUnknown,
+    false
+  );
+});
+
+test("the generator can be swapped per call", async () => {
+  const calls: string[] = [];
+  const echo: AnswerGenerator = {
+    model: "echo",
+    generate: async ({ context }) => {
+      calls.push(context);
+      return "【1】";
+    },
+  };
+  const retriever = new Retriever(index, { provider });
+  const result = await answerQuestion(retriever, echo, "認証", { topK: 1 });
+  assert.equal(result.model, "echo");
+  assert.match(calls[0]!, /^【1】docs\/api\.md > レート制限\n/);
+});
+
+test("streamAnswer emits context, deltas and a final done with citations", async () => {
+  const retriever = new Retriever(index, { provider });
+  // stream を持たない生成器は generate の結果を 1 回の delta で流す
+  const plain: AnswerGenerator = {
+    model: "plain",
+    generate: async () => "100 リクエスト/分【1】",
+  };
+  const events: AnswerStreamEvent[] = [];
+  for await (const e of streamAnswer(retriever, plain, "レート制限", {
+    topK: 1,
+  })) {
+    events.push(e);
+  }
+  assert.deepEqual(
+    events.map((e) => e.type),
+    ["context", "delta", "done"]
+  );
+  assert.deepEqual(events[2], {
+    type: "done",
+    answer: "100 リクエスト/分【1】",
+    citations: [1],
+    usage: null,
+  });
+});
+
+test("aborting streamAnswer stops generation before done", async () => {
+  const retriever = new Retriever(index, { provider });
+  let produced = 0;
+  const slow: AnswerGenerator = {
+    model: "slow",
+    generate: async () => "",
+    async *stream(_input, signal) {
+      for (let i = 0; i < 100 && !signal?.aborted; i++) {
+        produced++;
+        yield { type: "delta", text: `${i}` };
+      }
+      yield { type: "done", text: "", usage: null };
+    },
+  };
+  const abort = new AbortController();
+  const types: string[] = [];
+  for await (const e of streamAnswer(
+    retriever,
+    slow,
+    "レート制限",
+    {},
+    abort.signal
+  )) {
+    types.push(e.type);
+    if (e.type === "delta") abort.abort();
+  }
+  assert.deepEqual(types, ["context", "delta"]);
+  assert.ok(produced < 3);
+});
+
+test("parseStructuredAnswer keeps only citations to retrieved chunks", () => {
+  const [api, faq] = index.chunks;
+  const raw =
+    "```json\n" +
+    JSON.stringify({
+      conclusion: [
+        {
+          text: "上限は 100 リクエスト/分。",
+          citations: [api!.id, "docs/x.md::無い::0"],
+        },
+      ],
+      details: [{ text: "認証は OAuth 2.0。", citations: ["2"] }],
+    }) +
+    "\n```";
+  const parsed = parseStructuredAnswer(raw, index.chunks);
+  assert.equal(parsed.structured, true);
+  assert.deepEqual(parsed.droppedCitations, ["docs/x.md::無い::0"]);
+  assert.deepEqual(parsed.answer.details[0]?.citations, [faq!.id]);
+  assert.deepEqual(
+    parsed.cited.map((c) => c.id),
+    [api!.id, faq!.id]
+  );
+  assert.match(
+    renderStructuredAnswer(parsed.answer, parsed.cited),
+    /^上限は 100 リクエスト\/分。【1】\n\n- 認証は OAuth 2\.0。【2】\n\n根拠:\n- 【1】docs\/api\.md::レート制限::0（docs\/api\.md \/ レート制限 \/ part 0）/
+  );
+
+  // JSON として読めなければ自由記述として扱い、【n】を引用として拾う
+  const fallback = parseStructuredAnswer(
+    "上限は 100 です【1】【7】",
+    index.chunks
+  );
+  assert.equal(fallback.structured, false);
+  assert.deepEqual(fallback.answer.conclusion[0]?.citations, [api!.id]);
+  assert.deepEqual(fallback.droppedCitations, ["7"]);
+});
+
+test("answerStructured returns only the chunks the stub actually cited", async () => {
+  const retriever = new Retriever(index, { provider });
+  const result = await answerStructured(
+    retriever,
+    new StubAnswerGenerator(),
+    "レート制限のリクエスト数は？",
+    { topK: 2 }
+  );
+  assert.equal(result.structured, true);
+  assert.equal(result.context.length, 2);
+  assert.deepEqual(
+    result.cited.map((c) => c.id),
+    ["docs/api.md::レート制限::0"]
+  );
+  assert.match(result.text, /100 リクエスト\/分\*\*【1】/);
+
+  // テンプレートにある言語（en）はその言語の指示、無い言語（ko）は既定の指示に「この言語で書く」を足す
+  const seen: string[] = [];
+  const recorder: AnswerGenerator = {
+    model: "recorder",
+    generate: async (input) => {
+      seen.push(input.instructions, input.input);
+      return "{}";
+    },
+  };
+  const en = await answerStructured(retriever, recorder, "認証は？", {
+    language: "EN",
+  });
+  const ko = await answerStructured(retriever, recorder, "認証は？", {
+    language: "ko",
+  });
+  assert.match(seen[0]!, /^You are .* Answer in English/);
+  // 質問と根拠を包む本文もテンプレートの言語ごとの input から
+  assert.match(seen[1]!, /^Question: 認証は？\n\nEvidence:\n【1】/);
+  assert.match(seen[1]!, /\n\nAnswer:$/);
+  assert.match(seen[2]!, /^あなたは.*韓国語で書いてください/);
+  assert.match(seen[3]!, /^質問: 認証は？\n\n根拠:\n【1】/);
+  assert.deepEqual(en.prompt, {
+    name: "default",
+    version: "2",
+    language: "en",
+  });
+  assert.equal(ko.prompt.language, "ko");
+  // 知らない言語は指示文に入れずにエラー
+  await assert.rejects(
+    answerStructured(retriever, recorder, "認証は？", { language: "Deutsch" }),
+    /default は Deutsch に対応していません/
+  );
+  assert.equal(seen.length, 4);
+  assert.match(en.text, /\nSources:\n- none$/);
+});
@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { breadcrumb, chunkMarkdown } from "../src/retrieval/index.js";
+
+const md = [
+  "# OrderHub API", // 1
+  "", // 2
+  "## POST /v1/orders", // 3
+  "", // 4
+  "### レスポンス", // 5
+  "", // 6
+  "```json", // 7
+  "{", // 8
+  '  "orderId": "ord_abc",', // 9
+  "# not a heading", // 10
+  "}", // 11
+  "```", // 12
+  "", // 13
+  "## GET /v1/orders/{orderId}", // 14
+  "", // 15
+  "### レスポンス", // 16
+  "", // 17
+  "* `200 OK`", // 18
+].join("\n");
+
+test("chunkMarkdown records heading paths and line ranges", () => {
+  const chunks = chunkMarkdown(md);
+
+  assert.deepEqual(
+    chunks.map((c) => [c.headingPath.join(" > "), c.startLine, c.endLine]),
+    [
+      ["POST /v1/orders > レスポンス", 7, 12],
+      ["GET /v1/orders/{orderId} > レスポンス", 18, 18],
+    ]
+  );
+  assert.equal(
+    breadcrumb({ source: "docs/api.md", ...chunks[1]! }),
+    "docs/api.md > GET /v1/orders/{orderId} > レスポンス"
+  );
+});
+
+test("chunkMarkdown never splits inside a fenced code block", () => {
+  const chunks = chunkMarkdown(md, { maxChars: 20, overlap: 5 });
+  const code = chunks.find((c) => c.text.startsWith("```json"));
+  assert.ok(code);
+  assert.ok(code.text.endsWith("```"));
+  assert.ok(code.text.includes("# not a heading"));
+});
+
+test("chunkMarkdown splits long paragraphs on Japanese sentence boundaries", () => {
+  const long = "## 概要\n\n" + "注文を作成する。".repeat(10);
+  const chunks = chunkMarkdown(long, { maxChars: 40, overlap: 10 });
+
+  assert.ok(chunks.length > 1);
+  for (const c of chunks) {
+    assert.ok(c.text.length <= 40);
+    assert.ok(c.text.endsWith("。"));
+  }
+  // overlap 分だけ直前の文を持ち越す
+  assert.ok(chunks[1]!.text.startsWith("注文を作成する。"));
+});
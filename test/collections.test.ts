@@ -0,0 +1,117 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  CollectionManager,
+  expandGlobs,
+  globToRegExp,
+  parseCollectionsConfig,
+  writeIndex,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+test("globToRegExp handles **, * and {a,b}", () => {
+  const re = globToRegExp("docs/**/*.{md,yaml}");
+  assert.ok(re.test("docs/api.md"));
+  assert.ok(re.test("docs/spec/v1/openapi.yaml"));
+  assert.ok(!re.test("docs/api.txt"));
+  assert.ok(!re.test("src/docs/api.md"));
+  assert.ok(globToRegExp("docs/**").test("docs/a/b.md"));
+});
+
+test("expandGlobs lists matching files and applies ! excludes", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rag-glob-"));
+  for (const f of ["docs/a.md", "docs/sub/b.md", "docs/sub/c.txt", "x.md"]) {
+    await fs.mkdir(path.dirname(path.join(dir, f)), { recursive: true });
+    await fs.writeFile(path.join(dir, f), "x");
+  }
+  assert.deepEqual(await expandGlobs(["docs/**/*.md", "x.md"], dir), [
+    "docs/a.md",
+    "docs/sub/b.md",
+    "x.md",
+  ]);
+  assert.deepEqual(await expandGlobs(["docs/**", "!docs/sub/**"], dir), [
+    "docs/a.md",
+  ]);
+  assert.deepEqual(await expandGlobs(["missing/**"], dir), []);
+});
+
+test("collections config requires the default collection to exist", () => {
+  assert.throws(
+    () =>
+      parseCollectionsConfig({
+        version: 1,
+        defaultCollection: "payments",
+        collections: {
+          orderhub: { sources: ["docs/**"], indexFile: "a.meta.json" },
+        },
+      }),
+    /不正/
+  );
+});
+
+function indexOf(source: string, builtAt: string): IndexFile {
+  return {
+    model: "local:hashed-ngram:2",
+    builtAt,
+    chunks: [
+      {
+        id: `${source}::A::0`,
+        text: `${source} の本文`,
+        meta: { source, heading: "A", part: 0 },
+        embedding: [1, 0],
+      },
+    ],
+  };
+}
+
+test("CollectionManager loads per-collection indexes and lists build info", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rag-collections-"));
+  const file = (name: string) => path.join(dir, name, "index.meta.json");
+  await writeIndex(
+    file("orderhub"),
+    indexOf("docs/api.md", "2026-01-01T00:00:00.000Z")
+  );
+  await writeIndex(
+    file("payments"),
+    indexOf("payments/refund.md", "2026-02-01T00:00:00.000Z")
+  );
+
+  const collections = new CollectionManager(
+    parseCollectionsConfig({
+      version: 1,
+      defaultCollection: "orderhub",
+      collections: {
+        orderhub: { sources: ["docs/**"], indexFile: file("orderhub") },
+        payments: { sources: ["payments/**"], indexFile: file("payments") },
+        runbooks: { sources: ["runbooks/**"], indexFile: file("runbooks") },
+      },
+    })
+  );
+
+  const list = await collections.list();
+  assert.deepEqual(
+    list.map((c) => [c.name, c.default, c.built, c.chunks, c.builtAt]),
+    [
+      ["orderhub", true, true, 1, "2026-01-01T00:00:00.000Z"],
+      ["payments", false, true, 1, "2026-02-01T00:00:00.000Z"],
+      ["runbooks", false, false, null, null],
+    ]
+  );
+
+  const payments = await collections.retriever("payments");
+  assert.equal(payments.chunks[0]?.meta.source, "payments/refund.md");
+  assert.equal(await collections.retriever("payments"), payments);
+  assert.equal(
+    (await collections.retriever()).chunks[0]?.meta.source,
+    "docs/api.md"
+  );
+  assert.throws(() => collections.retriever("nope"), /unknown collection/);
+
+  // collection 省略時は既定 → 他のコレクションの順に探す（未ビルドは飛ばす）
+  const found = await collections.resolveChunk("payments/refund.md::A::0");
+  assert.equal(found?.collection, "payments");
+  assert.equal(await collections.resolveChunk("missing::A::0"), undefined);
+});
@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  Retriever,
+  assembleContext,
+  estimateTokens,
+  type EmbeddingProvider,
+  type IndexedChunk,
+} from "../src/retrieval/index.js";
+
+const provider: EmbeddingProvider = {
+  model: "fake",
+  embed: async (texts) => texts.map(() => [1, 0]),
+};
+
+function chunk(
+  headingPath: string[],
+  part: number,
+  text: string,
+  startLine: number,
+  endLine: number
+): IndexedChunk {
+  return {
+    id: `docs/api.md::${headingPath.join(" > ")}::${part}`,
+    text,
+    meta: {
+      source: "docs/api.md",
+      heading: headingPath.at(-1)!,
+      headingPath,
+      part,
+      startLine,
+      endLine,
+    },
+    embedding: [1, 0],
+  };
+}
+
+const orders = ["POST /v1/orders"];
+const errors = ["POST /v1/orders", "エラー"];
+const chunks = [
+  chunk(orders, 0, "注文を作成する。", 1, 2),
+  chunk(errors, 0, "400 は入力エラー。\n409 は冪等性の衝突。", 4, 5),
+  // 409 の行は前の part と重なっている（オーバーラップ）
+  chunk(errors, 1, "409 は冪等性の衝突。\n429 はレート制限。", 5, 6),
+  chunk(errors, 2, "500 は内部エラー。", 7, 7),
+];
+const retriever = new Retriever({ model: "fake", chunks }, { provider });
+const [order, e0, e1, e2] = retriever.chunks;
+
+test("estimateTokens counts ASCII by four and other characters one by one", () => {
+  assert.equal(estimateTokens("abcdefgh"), 2);
+  assert.equal(estimateTokens("冪等性"), 3);
+  assert.equal(estimateTokens(""), 0);
+});
+
+test("assembleContext merges adjacent parts and drops the overlapping text", () => {
+  const { chunks: out, report } = assembleContext(retriever, [e1!, e0!]);
+  assert.equal(out.length, 1);
+  // 上位の検索結果の id・meta と、まとめた範囲の行番号を持つ
+  assert.equal(out[0]?.id, e1!.id);
+  assert.equal(out[0]?.meta.part, 1);
+  assert.equal(
+    out[0]?.text,
+    "400 は入力エラー。\n409 は冪等性の衝突。\n429 はレート制限。"
+  );
+  assert.deepEqual([out[0]?.meta.startLine, out[0]?.meta.endLine], [4, 6]);
+  assert.deepEqual(report.blocks[0]?.chunkIds, [e0!.id, e1!.id]);
+  assert.deepEqual(report.added, []);
+
+  // 前後の part と親セクションを足せる（親は検索結果より後ろ）
+  const wide = assembleContext(retriever, [e1!], {
+    neighbors: 1,
+    parent: true,
+  });
+  assert.deepEqual(
+    wide.chunks.map((c) => c.id),
+    [e1!.id, order!.id]
+  );
+  assert.deepEqual(wide.report.added, [e0!.id, e2!.id, order!.id]);
+});
+
+test("assembleContext packs to the token budget and reports what it cut", () => {
+  const long = chunk(["長い節"], 0, "あ".repeat(300), 10, 20);
+  const local = new Retriever(
+    { model: "fake", chunks: [...chunks, long] },
+    { provider }
+  );
+  const { chunks: out, report } = assembleContext(
+    local,
+    [order!, local.chunks[4]!, e2!],
+    { maxTokens: 200 }
+  );
+  assert.deepEqual(
+    out.map((c) => c.id),
+    [order!.id, local.chunks[4]!.id]
+  );
+  assert.match(out[1]!.text, /…（以下省略）$/);
+  assert.ok(report.tokens <= 200);
+  assert.deepEqual(report.truncated, [local.chunks[4]!.id]);
+  assert.deepEqual(report.dropped, [e2!.id]);
+});
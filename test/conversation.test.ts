@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  ConcatQueryCondenser,
+  ConversationStore,
+  Retriever,
+  StubAnswerGenerator,
+  answerConversation,
+  type EmbeddingProvider,
+  type QueryCondenser,
+} from "../src/retrieval/index.js";
+
+test("ConversationStore expires idle conversations and keeps the latest turns", () => {
+  let now = 0;
+  const store = new ConversationStore({
+    ttlMs: 1000,
+    maxTurns: 2,
+    now: () => now,
+  });
+  const { id } = store.create();
+  for (const q of ["a", "b", "c"]) {
+    now += 600;
+    store.append(id, { question: q, answer: "" });
+  }
+  // ターンを足すたびに期限が延びる・古いターンから捨てる
+  assert.deepEqual(
+    store.get(id)?.turns.map((t) => t.question),
+    ["b", "c"]
+  );
+
+  now += 1000;
+  assert.equal(store.get(id), undefined);
+  assert.equal(store.size, 0);
+  assert.throws(() => store.append(id, { question: "d", answer: "" }));
+});
+
+test("answerConversation searches with the condensed question and records the turn", async () => {
+  const provider: EmbeddingProvider = {
+    model: "fake",
+    embed: async (texts) =>
+      texts.map((t) => (t.includes("レート制限") ? [1, 0] : [0, 1])),
+  };
+  const retriever = new Retriever(
+    {
+      model: "fake",
+      chunks: [
+        {
+          id: "docs/api.md::レート制限::0",
+          text: "レート制限はクライアント単位で 100 リクエスト/分です。",
+          meta: { source: "docs/api.md", heading: "レート制限", part: 0 },
+          embedding: [1, 0],
+        },
+        {
+          id: "docs/faq.md::Q1::0",
+          text: "A. OAuth 2.0 Client Credentials です。",
+          meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+          embedding: [0, 1],
+        },
+      ],
+    },
+    { provider }
+  );
+
+  const seen: number[] = [];
+  const condenser: QueryCondenser = {
+    name: "recorder",
+    condense: async (history, question) => {
+      seen.push(history.length);
+      return new ConcatQueryCondenser().condense(history, question);
+    },
+  };
+  const history = [
+    { question: "認証方式は？", answer: "OAuth 2.0" },
+    { question: "レート制限は？", answer: "100 リクエスト/分" },
+  ];
+  const result = await answerConversation(
+    retriever,
+    new StubAnswerGenerator(),
+    condenser,
+    history,
+    "超えたらどうなる？",
+    { topK: 1, historyTurns: 1 }
+  );
+
+  // 直近 historyTurns ターンだけ渡る
+  assert.deepEqual(seen, [1]);
+  assert.equal(result.standaloneQuestion, "レート制限は？ 超えたらどうなる？");
+  assert.equal(result.turn.question, "超えたらどうなる？");
+  assert.deepEqual(result.turn.citations, ["docs/api.md::レート制限::0"]);
+  assert.match(result.turn.answer, /100 リクエスト\/分/);
+});
@@ -0,0 +1,133 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  NEUTRAL_RANKING,
+  compareRuns,
+  findRegressions,
+  formatComparison,
+  listEvalRuns,
+  loadEvalRun,
+  resolveEvalRun,
+  summarizeEval,
+  writeEvalRun,
+  type EvalQuestionResult,
+  type EvalRun,
+} from "../src/retrieval/index.js";
+
+const gt = [{ source: "docs/faq.md", headingPath: ["Q7"], resolved: true }];
+
+/** relevantAt: 正解チャンクの順位（null なら top-k 外） */
+function question(
+  index: number,
+  relevantAt: number | null
+): EvalQuestionResult {
+  const hits = [1, 2, 3].map((rank) => ({
+    rank,
+    id: rank === relevantAt ? `q${index}-answer` : `q${index}-other${rank}`,
+    path: "",
+    fused: 0,
+    relevant: rank === relevantAt,
+    targets: rank === relevantAt ? [0] : [],
+  }));
+  return {
+    index,
+    question: `Q${index}`,
+    groundTruth: gt,
+    metrics: {
+      hit: relevantAt ? 1 : 0,
+      recall: relevantAt ? 1 : 0,
+      reciprocalRank: relevantAt ? 1 / relevantAt : 0,
+      ndcg: relevantAt ? 1 / Math.log2(relevantAt + 1) : 0,
+    },
+    hits,
+  };
+}
+
+function run(
+  createdAt: string,
+  alpha: number,
+  questions: EvalQuestionResult[]
+): EvalRun {
+  return {
+    version: 1,
+    createdAt,
+    config: {
+      collection: "orderhub",
+      indexFile: "artifacts/index.meta.json",
+      questionsFile: "docs/evaluation_questions.md",
+      groundTruthFile: "docs/ground_truth_map.md",
+      embeddingModel: "fake",
+      topK: 3,
+      alpha,
+      ann: null,
+      ranking: NEUTRAL_RANKING,
+      chunker: null,
+    },
+    summary: summarizeEval(questions),
+    questions,
+  };
+}
+
+test("compareRuns reports rank changes and newly missed ground truth", () => {
+  const base = run("2026-01-01T00:00:00.000Z", 0.7, [
+    question(9, 1),
+    question(10, null),
+  ]);
+  const head = run("2026-01-02T00:00:00.000Z", 0.5, [
+    question(9, null),
+    question(10, 2),
+  ]);
+
+  const c = compareRuns(base, head);
+  assert.deepEqual(c.configChanges, [
+    { key: "alpha", base: "0.7", head: "0.5" },
+  ]);
+  const [q9, q10] = c.questions;
+  assert.deepEqual(q9?.firstHit, { base: 1, head: null });
+  assert.deepEqual(q9?.newlyMissed, ["docs/faq.md > Q7"]);
+  assert.deepEqual(q10?.newlyFound, ["docs/faq.md > Q7"]);
+  assert.ok(
+    q9?.rankChanges.some((r) => r.relevant && r.base === 1 && r.head === null)
+  );
+
+  // 平均 recall は変わらないが、Q9 の低下は回帰として拾う
+  assert.equal(c.base.summary.recallAtK, c.head.summary.recallAtK);
+  const regressions = findRegressions(c);
+  assert.equal(regressions.length, 1);
+  assert.match(regressions[0]!, /^Q9 recall@k: 1\.000 → 0\.000/);
+  assert.deepEqual(findRegressions(c, 1), []);
+  assert.match(formatComparison(c), /missed: docs\/faq\.md > Q7/);
+});
+
+test("eval runs are stored by timestamp and resolved as latest / previous", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rag-eval-runs-"));
+  const older = await writeEvalRun(
+    run("2026-01-01T00:00:00.000Z", 0.7, []),
+    dir
+  );
+  const newer = await writeEvalRun(
+    run("2026-01-02T00:00:00.000Z", 0.7, []),
+    dir
+  );
+
+  assert.deepEqual(await listEvalRuns(dir), [older, newer]);
+  assert.equal(path.basename(newer), "2026-01-02T00-00-00.000Z.json");
+  assert.equal(await resolveEvalRun("latest", dir), newer);
+  assert.equal(await resolveEvalRun("previous", dir), older);
+  // 今書いた実行結果を除けば、直前の実行が latest になる
+  assert.equal(await resolveEvalRun("latest", dir, newer), older);
+  await assert.rejects(resolveEvalRun("previous", dir, newer), /previous/);
+
+  assert.equal(
+    (await loadEvalRun(newer)).createdAt,
+    "2026-01-02T00:00:00.000Z"
+  );
+  await fs.writeFile(path.join(dir, "broken.json"), "{}");
+  await assert.rejects(
+    loadEvalRun(path.join(dir, "broken.json")),
+    /読めません/
+  );
+});
@@ -0,0 +1,120 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  Retriever,
+  createLoaderRegistry,
+  loadDocument,
+  parseFilter,
+  parseFrontMatter,
+  type ChunkMeta,
+  type EmbeddingProvider,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+const refund: ChunkMeta = {
+  source: "docs/payments/refund.md",
+  heading: "レスポンス",
+  headingPath: ["POST /v1/refunds", "レスポンス"],
+  part: 0,
+  owner: "payments-team",
+  tags: ["payments", "refund"],
+  status: "approved",
+};
+const faq: ChunkMeta = { source: "docs/faq.md", heading: "Q1", part: 0 };
+
+test("parseFilter evaluates fields, operators and boolean logic", () => {
+  const t = (expr: string, meta: ChunkMeta) => parseFilter(expr).test(meta);
+
+  assert.ok(t("source in [docs/faq.md, docs/api.md]", faq));
+  assert.ok(!t("source in [docs/faq.md, docs/api.md]", refund));
+  assert.ok(t("tags contains Payments", refund));
+  assert.ok(!t("tags contains pay", refund));
+  assert.ok(t('path startswith "POST /v1/refunds"', refund));
+  assert.ok(t("heading contains レス and status = approved", refund));
+  assert.ok(t("owner = x or not (status != approved)", refund));
+  assert.ok(t("source not in [docs/faq.md]", refund));
+  // front matter が無いチャンクは != / not in 以外に一致しない
+  assert.ok(!t("status = approved", faq));
+  assert.ok(t("status != draft", faq));
+
+  assert.equal(
+    parseFilter("(TAGS contains a OR owner = 'b c') AND not source ^= docs/x")
+      .expression,
+    '(tags contains a or owner = "b c") and not source startswith docs/x'
+  );
+});
+
+test("parseFilter rejects malformed expressions", () => {
+  assert.throws(() => parseFilter(""), /空/);
+  assert.throws(() => parseFilter("author = me"), /構文エラー.*フィールド/);
+  assert.throws(() => parseFilter("tags ~ a"), /構文エラー/);
+  assert.throws(() => parseFilter("source in [a, b"), /\]/);
+  assert.throws(() => parseFilter("(status = a"), /\)/);
+});
+
+test("front matter becomes chunk metadata and keeps line numbers", () => {
+  const content = [
+    "---",
+    "owner: payments-team",
+    "tags: payments, refund",
+    "version: 1.10",
+    "status: 2024",
+    "---",
+    "# 返金",
+    "",
+    "返金の手順。",
+  ].join("\n");
+
+  const { attributes, body } = parseFrontMatter(content);
+  assert.deepEqual(attributes, {
+    owner: "payments-team",
+    tags: ["payments", "refund"],
+    // 数値として読まず、書いたとおりの文字列で持つ
+    status: "2024",
+    version: "1.10",
+  });
+  assert.equal(body.split("\n").length, content.split("\n").length);
+
+  const [chunk] = loadDocument(createLoaderRegistry(), "refund.md", content)!;
+  assert.equal(chunk?.meta.heading, "返金");
+  assert.equal(chunk?.meta.startLine, 9);
+  assert.deepEqual(chunk?.meta.tags, ["payments", "refund"]);
+  assert.ok(!chunk?.text.includes("owner"));
+
+  assert.throws(() => parseFrontMatter("---\ntags: [a\n---\n# x"), /YAML/);
+});
+
+test("Retriever applies the filter before ranking", async () => {
+  const provider: EmbeddingProvider = {
+    model: "fake",
+    embed: async (texts) => texts.map(() => [1, 0]),
+  };
+  const index: IndexFile = {
+    model: "fake",
+    chunks: [
+      { id: "faq", text: "返金", meta: faq, embedding: [1, 0] },
+      { id: "refund", text: "返金 手順", meta: refund, embedding: [0.6, 0.8] },
+      {
+        id: "api",
+        text: "注文",
+        meta: { ...faq, source: "docs/api.md" },
+        embedding: [0, 1],
+      },
+    ],
+  };
+  const retriever = new Retriever(index, { provider });
+
+  const hits = await retriever.search("返金", {
+    topK: 5,
+    filter: "tags contains payments or source = docs/api.md",
+  });
+  // 条件外の faq は除かれ、順位も条件内だけで振り直される
+  assert.deepEqual(
+    hits.map((h) => [h.rank, h.chunk.id, h.breakdown.vectorRank]),
+    [
+      [1, "refund", 1],
+      [2, "api", 2],
+    ]
+  );
+  assert.equal(hits[0]?.breakdown.lexicalRank, 1);
+});
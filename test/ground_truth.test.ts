@@ -0,0 +1,118 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import {
+  CollectionManager,
+  findEvalFile,
+  loadIndex,
+  parseGroundTruthMap,
+  resolveTarget,
+  scoreRanking,
+  type StoredChunk,
+} from "../src/retrieval/index.js";
+
+const map = [
+  "|   # | 質問 | 根拠（ファイル > 見出し） |",
+  "| --: | ---- | ------------------------- |",
+  "|   3 | 冪等性 | `docs/api.md` > `共通ヘッダ` > `Idempotency-Key` ＋ `docs/overview.md` > `非機能` |",
+  "|   4 | 409 | `docs/api.md` > `POST /v1/orders` > `409 Conflict` |",
+  "|  10 | ロール | `docs/faq.md` > `Q1` |",
+].join("\n");
+
+function chunk(source: string, headingPath: string[], text = ""): StoredChunk {
+  return {
+    id: `${source}::${headingPath.join(" > ")}::0`,
+    text,
+    meta: { source, heading: headingPath.at(-1) ?? "", headingPath, part: 0 },
+  };
+}
+
+const chunks = [
+  chunk("docs/api.md", ["共通ヘッダ", "Idempotency-Key"]),
+  chunk("docs/api.md", ["POST /v1/orders", "リクエスト"], "409 は返さない"),
+  chunk("docs/api.md", ["POST /v1/orders", "レスポンス"], "* `409 Conflict`"),
+  chunk("docs/overview.md", ["非機能"]),
+  chunk("docs/faq.md", ["Q10. 監査ログの対象は？"]),
+  chunk("docs/faq.md", ["Q1. APIの認証方式は？"]),
+];
+
+test("parseGroundTruthMap reads rows and splits ＋ into separate targets", () => {
+  const entries = parseGroundTruthMap(map);
+  assert.deepEqual(
+    entries.map((e) => [e.index, e.targets.length]),
+    [
+      [3, 2],
+      [4, 1],
+      [10, 1],
+    ]
+  );
+  assert.deepEqual(entries[0]?.targets[1], {
+    source: "docs/overview.md",
+    headingPath: ["非機能"],
+  });
+});
+
+test("targets resolve to headings, then fall back to text anchors", () => {
+  const [, conflict, faq] = parseGroundTruthMap(map);
+
+  const r409 = resolveTarget(chunks, conflict!.targets[0]!);
+  assert.deepEqual(
+    [r409.section, r409.anchors],
+    [["POST /v1/orders"], ["409 Conflict"]]
+  );
+  const m = scoreRanking(chunks, [r409]);
+  assert.deepEqual(
+    m.matches.map((x) => x.length),
+    [0, 0, 1, 0, 0, 0]
+  );
+
+  // "Q1" は "Q1. …" に当たるが "Q10. …" には当たらない
+  const q1 = scoreRanking(chunks, [resolveTarget(chunks, faq!.targets[0]!)]);
+  assert.equal(q1.reciprocalRank, 1 / 6);
+
+  const missing = resolveTarget(chunks, {
+    source: "docs/api.md",
+    headingPath: ["存在しない見出し"],
+  });
+  assert.equal(missing.resolved, false);
+});
+
+test("scoreRanking computes hit, recall, MRR and nDCG over targets", () => {
+  const [idempotency] = parseGroundTruthMap(map);
+  const targets = idempotency!.targets.map((t) => resolveTarget(chunks, t));
+
+  // 2 つ目の target（overview）だけが 2 位に入っている
+  const one = scoreRanking([chunks[4]!, chunks[3]!, chunks[1]!], targets);
+  assert.equal(one.hit, 1);
+  assert.equal(one.recall, 0.5);
+  assert.equal(one.reciprocalRank, 0.5);
+  assert.ok(
+    Math.abs(one.ndcg - 1 / Math.log2(3) / (1 + 1 / Math.log2(3))) < 1e-9
+  );
+
+  const both = scoreRanking([chunks[0]!, chunks[3]!], targets);
+  assert.deepEqual([both.recall, both.ndcg], [1, 1]);
+
+  const none = scoreRanking([chunks[4]!], targets);
+  assert.deepEqual(
+    [none.hit, none.recall, none.reciprocalRank, none.ndcg],
+    [0, 0, 0, 0]
+  );
+});
+
+test("every ground-truth target resolves against the default collection's index", async () => {
+  const collections = await CollectionManager.load();
+  const { chunks } = await loadIndex(collections.get().indexFile);
+  const file = await findEvalFile("ground_truth_map.md");
+  assert.ok(file, "ground_truth_map.md が見つかりません");
+  const entries = parseGroundTruthMap(await fs.readFile(file, "utf-8"));
+  assert.ok(entries.length > 0);
+
+  // 見出しパスを持たないインデックスや見出しの変更で、eval の正解が消えていないこと
+  const unresolved = entries.flatMap((e) =>
+    e.targets
+      .filter((t) => !resolveTarget(chunks, t).resolved)
+      .map((t) => `Q${e.index}: ${[t.source, ...t.headingPath].join(" > ")}`)
+  );
+  assert.deepEqual(unresolved, []);
+});
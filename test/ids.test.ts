@@ -0,0 +1,119 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  Retriever,
+  assertUniqueIds,
+  assignChunkIds,
+  buildAliases,
+  type ChunkMeta,
+  type IndexedChunk,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+function chunk(
+  id: string,
+  text: string,
+  meta: Partial<ChunkMeta>
+): IndexedChunk {
+  return {
+    id,
+    text,
+    meta: { source: "docs/api.md", heading: "", part: 0, ...meta },
+    embedding: [1],
+  };
+}
+
+test("assignChunkIds uses heading paths and disambiguates repeated sections", () => {
+  const ids = assignChunkIds([
+    {
+      meta: {
+        source: "docs/api.md",
+        heading: "レスポンス",
+        part: 0,
+        headingPath: ["POST /v1/orders", "レスポンス"],
+      },
+    },
+    {
+      meta: {
+        source: "docs/api.md",
+        heading: "レスポンス",
+        part: 1,
+        headingPath: ["POST /v1/orders", "レスポンス"],
+      },
+    },
+    {
+      meta: {
+        source: "docs/api.md",
+        heading: "レスポンス",
+        part: 0,
+        headingPath: ["GET /v1/orders/{orderId}", "レスポンス"],
+      },
+    },
+    {
+      meta: {
+        source: "docs/faq.md",
+        heading: "FAQ",
+        part: 0,
+        headingPath: ["FAQ"],
+      },
+    },
+    {
+      meta: {
+        source: "docs/faq.md",
+        heading: "FAQ",
+        part: 0,
+        headingPath: ["FAQ"],
+      },
+    },
+  ]).map((c) => c.id);
+
+  assert.deepEqual(ids, [
+    "docs/api.md::POST /v1/orders > レスポンス::0",
+    "docs/api.md::POST /v1/orders > レスポンス::1",
+    "docs/api.md::GET /v1/orders/{orderId} > レスポンス::0",
+    "docs/faq.md::FAQ::0",
+    "docs/faq.md::FAQ~2::0",
+  ]);
+  assert.doesNotThrow(() => assertUniqueIds(ids.map((id) => ({ id }))));
+  assert.throws(() => assertUniqueIds([{ id: "a" }, { id: "a" }]), /重複/);
+});
+
+test("buildAliases maps renamed ids and chains previous aliases", () => {
+  const previous: IndexFile = {
+    model: "m",
+    chunks: [
+      chunk("docs/api.md::旧見出し::0", "本文A", { heading: "旧見出し" }),
+      chunk("docs/api.md::レート制限::0", "100 req/min", {
+        heading: "レート制限",
+      }),
+    ],
+    aliases: { "docs/api.md::もっと古い::0": "docs/api.md::旧見出し::0" },
+  };
+  const next = [
+    chunk("docs/api.md::新見出し::0", "本文A", { heading: "新見出し" }),
+    chunk("docs/api.md::制限 > レート制限::0", "200 req/min", {
+      heading: "レート制限",
+    }),
+  ];
+
+  const aliases = buildAliases(previous, next);
+  assert.deepEqual(aliases, {
+    "docs/api.md::もっと古い::0": "docs/api.md::新見出し::0",
+    "docs/api.md::旧見出し::0": "docs/api.md::新見出し::0",
+    "docs/api.md::レート制限::0": "docs/api.md::制限 > レート制限::0",
+  });
+
+  const retriever = new Retriever(
+    { model: "m", chunks: next, aliases },
+    {
+      provider: { model: "m", embed: async () => [[1]] },
+    }
+  );
+  const resolved = retriever.resolveChunk("docs/api.md::旧見出し::0");
+  assert.equal(resolved?.chunk.text, "本文A");
+  assert.equal(resolved?.movedTo, "docs/api.md::新見出し::0");
+  assert.equal(
+    retriever.resolveChunk("docs/api.md::新見出し::0")?.movedTo,
+    undefined
+  );
+});
@@ -0,0 +1,67 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  assembleChunks,
+  contentHash,
+  planIncrementalBuild,
+  type IndexFile,
+  type PendingChunk,
+} from "../src/retrieval/index.js";
+
+function pending(id: string, text: string): PendingChunk {
+  return { id, text, meta: { source: "docs/a.md", heading: id, part: 0 } };
+}
+
+const previous: IndexFile = {
+  model: "m",
+  chunks: [
+    { ...pending("keep", "same"), embedding: [1] },
+    {
+      ...pending("edit", "before"),
+      embedding: [2],
+      hash: contentHash("before"),
+    },
+    { ...pending("gone", "deleted"), embedding: [3] },
+  ],
+};
+
+test("planIncrementalBuild reuses unchanged chunks and counts changes", () => {
+  const plan = planIncrementalBuild(previous, "m", [
+    pending("new", "brand new"),
+    pending("keep", "same"),
+    pending("edit", "after"),
+  ]);
+
+  assert.deepEqual(plan.summary, {
+    added: 1,
+    updated: 1,
+    removed: 1,
+    reused: 1,
+  });
+  assert.deepEqual(
+    plan.toEmbed.map((c) => c.id),
+    ["new", "edit"]
+  );
+
+  const chunks = assembleChunks(
+    plan,
+    plan.toEmbed.map((c, i) => ({ ...c, embedding: [10 + i] }))
+  );
+  assert.deepEqual(
+    chunks.map((c) => [c.id, c.embedding[0], c.hash === contentHash(c.text)]),
+    [
+      ["new", 10, true],
+      ["keep", 1, true],
+      ["edit", 11, true],
+    ]
+  );
+});
+
+test("planIncrementalBuild ignores a previous index built with another model", () => {
+  const plan = planIncrementalBuild(previous, "other", [
+    pending("keep", "same"),
+  ]);
+  assert.equal(plan.summary.reused, 0);
+  assert.equal(plan.summary.added, 1);
+  assert.equal(plan.summary.removed, 0);
+});
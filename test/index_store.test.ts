@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  loadIndex,
+  loadIndexFile,
+  writeIndex,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+const legacy: IndexFile = {
+  model: "m",
+  aliases: { old: "a" },
+  chunks: [
+    {
+      id: "a",
+      text: "A",
+      meta: { source: "docs/a.md", heading: "A", part: 0 },
+      embedding: [3, 4],
+    },
+    {
+      id: "b",
+      text: "B",
+      meta: { source: "docs/a.md", heading: "B", part: 0 },
+      embedding: [0, -2],
+    },
+  ],
+};
+
+async function tmpDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), "rag-index-"));
+}
+
+test("legacy index.json loads into normalized typed vectors", async () => {
+  const dir = await tmpDir();
+  const file = path.join(dir, "index.json");
+  await fs.writeFile(file, JSON.stringify(legacy), "utf-8");
+
+  const index = await loadIndex(file);
+  assert.equal(index.vectors.dim, 2);
+  assert.deepEqual(Array.from(index.vectors.row(0)), [
+    Math.fround(0.6),
+    Math.fround(0.8),
+  ]);
+  assert.deepEqual(Array.from(index.vectors.row(1)), [0, -1]);
+  assert.equal("embedding" in index.chunks[0]!, false);
+});
+
+test("loadIndex rejects duplicate chunk ids but the incremental build can still read them", async () => {
+  const dir = await tmpDir();
+  const metaFile = path.join(dir, "index.meta.json");
+  const [a, b] = legacy.chunks;
+  await writeIndex(metaFile, {
+    ...legacy,
+    chunks: [a!, { ...b!, id: "a" }],
+  });
+
+  await assert.rejects(
+    loadIndex(metaFile),
+    /index\.meta\.json: chunk id が重複しています:\n- a\nnpm run build:index/
+  );
+  // 差分ビルドは前回の重複 id を aliases に引き継ぐために読める
+  assert.deepEqual(
+    (await loadIndexFile(metaFile))?.chunks.map((c) => c.id),
+    ["a", "a"]
+  );
+});
+
+for (const dtype of ["float32", "int8"] as const) {
+  test(`writeIndex round-trips metadata and ${dtype} vectors`, async () => {
+    const dir = await tmpDir();
+    const metaFile = path.join(dir, "index.meta.json");
+    const written = await writeIndex(metaFile, legacy, dtype);
+
+    assert.equal(written.vectorsFile, path.join(dir, "index.vectors.bin"));
+    assert.equal(written.bytes, 2 * 2 * (dtype === "int8" ? 1 : 4));
+
+    const index = await loadIndex(metaFile);
+    assert.deepEqual(index.aliases, { old: "a" });
+    assert.deepEqual(
+      index.chunks.map((c) => c.id),
+      ["a", "b"]
+    );
+    const [x, y] = index.vectors.row(0);
+    assert.ok(Math.abs(x! - 0.6) < 0.01 && Math.abs(y! - 0.8) < 0.01);
+
+    const restored = await loadIndexFile(metaFile);
+    assert.equal(restored?.chunks[1]?.embedding.length, 2);
+  });
+}
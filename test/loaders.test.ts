@@ -0,0 +1,207 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_LOADERS,
+  createLoaderRegistry,
+  loadDocument,
+  loaderFor,
+  markdownLoader,
+} from "../src/retrieval/index.js";
+
+const registry = createLoaderRegistry();
+
+test("loader registry picks loaders by extension and rejects duplicates", () => {
+  assert.equal(loaderFor(registry, "docs/api.md")?.name, "markdown");
+  assert.equal(loaderFor(registry, "docs/spec/openapi.YAML")?.name, "openapi");
+  assert.equal(loaderFor(registry, "docs/export.html")?.name, "html");
+  assert.equal(loaderFor(registry, "src/retriever.ts")?.name, "ts-doc");
+  assert.equal(loaderFor(registry, "docs/image.png"), undefined);
+  assert.throws(
+    () => createLoaderRegistry([...DEFAULT_LOADERS, markdownLoader]),
+    /重複/
+  );
+});
+
+const openapi = `openapi: 3.0.0
+info:
+  title: OrderHub API
+  version: "1.0"
+paths:
+  /v1/orders/{orderId}:
+    parameters:
+      - name: orderId
+        in: path
+        required: true
+        schema: { type: string }
+    get:
+      summary: 注文を取得する
+      responses:
+        "200":
+          description: 注文
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Order"
+        "404":
+          description: 注文が存在しない
+    delete:
+      summary: 注文を削除する
+      responses:
+        "204":
+          description: 削除済み
+components:
+  schemas:
+    Order:
+      type: object
+      required: [id]
+      properties:
+        id: { type: string }
+        status: { type: string, enum: [CREATED, PAID] }
+`;
+
+test("OpenAPI loader emits one chunk per operation with params and responses", () => {
+  const chunks = loadDocument(registry, "docs/openapi.yaml", openapi)!;
+  assert.deepEqual(
+    chunks.map((c) => c.meta.heading),
+    ["（先頭）", "GET /v1/orders/{orderId}", "DELETE /v1/orders/{orderId}"]
+  );
+
+  const get = chunks[1]!;
+  assert.deepEqual(get.meta.headingPath, ["GET /v1/orders/{orderId}"]);
+  assert.match(get.text, /- orderId \(path, 必須\): string/);
+  assert.match(get.text, /- 200: 注文\n {2}application\/json: Order/);
+  assert.match(get.text, /- status: string\(CREATED \| PAID\)/);
+  assert.match(get.text, /- 404: 注文が存在しない/);
+  // 「get:」の行からレスポンス定義の末尾まで
+  assert.equal(get.meta.startLine, 12);
+  assert.equal(get.meta.endLine, 22);
+
+  // OpenAPI ではない JSON・壊れたファイルは対象外としてスキップされる
+  assert.equal(
+    loadDocument(registry, "docs/package.json", `{"name": "x"}`),
+    undefined
+  );
+  assert.equal(
+    loadDocument(registry, "docs/broken.json", `{"name": "x",`),
+    undefined
+  );
+  assert.equal(
+    loadDocument(registry, "docs/broken.json", `{"openapi": "3.0.0", "paths"`),
+    undefined
+  );
+  assert.equal(
+    loadDocument(
+      registry,
+      "docs/min.json",
+      `{"openapi":"3.0.0","paths":{"/a":{"get":{"summary":"A"}}}}`
+    )?.length,
+    1
+  );
+});
+
+test("HTML loader strips markup but keeps headings, lists, tables and code", () => {
+  const html = `<html><head><title>t</title><style>p{}</style></head><body>
+<h1>注文 &amp; 決済</h1>
+<h2>キャンセル</h2><p>支払い前なら<b>取消可能</b>。</p>
+<ul><li>CREATED</li><li>PAID</li></ul>
+<table><tr><th>状態</th><th>可否</th></tr><tr><td>PAID</td><td>不可</td></tr></table>
+<pre><code>if (a &lt; b) {
+  cancel();
+}</code></pre>
+</body></html>`;
+  const chunks = loadDocument(registry, "docs/export.html", html)!;
+  assert.equal(chunks.length, 1);
+  const [c] = chunks;
+  assert.deepEqual(c!.meta.headingPath, ["キャンセル"]);
+  assert.equal(c!.meta.startLine, undefined);
+  assert.equal(
+    c!.text,
+    [
+      "支払い前なら取消可能。",
+      "",
+      "- CREATED",
+      "- PAID",
+      "",
+      "| 状態 | 可否 |",
+      "| --- | --- |",
+      "| PAID | 不可 |",
+      "",
+      "```",
+      "if (a < b) {",
+      "  cancel();",
+      "}",
+      "```",
+    ].join("\n")
+  );
+});
+
+test("TS loader pairs doc comments with the following declaration", () => {
+  const src = [
+    "/** ファイルの説明 */",
+    'import x from "y";',
+    "",
+    "/** 検索の入口 */",
+    "export class Retriever {",
+    "  /** id で引く */",
+    "  getChunk(id: string): string {",
+    "    return id;",
+    "  }",
+    "}",
+    "",
+    "/**",
+    " * プレビュー用に空白を詰める",
+    " */",
+    "export function previewText(",
+    "  text: string",
+    "): string {",
+    "  return text;",
+    "}",
+  ].join("\n");
+  const chunks = loadDocument(registry, "src/retriever.ts", src)!;
+  assert.deepEqual(
+    chunks.map((c) => c.meta.headingPath),
+    [
+      [],
+      ["class Retriever"],
+      ["class Retriever", "getChunk"],
+      ["function previewText"],
+    ]
+  );
+  const last = chunks[3]!;
+  assert.equal(
+    last.text,
+    "function previewText\n\nプレビュー用に空白を詰める\n\n```ts\nexport function previewText(\n  text: string\n): string\n```"
+  );
+  assert.deepEqual([last.meta.startLine, last.meta.endLine], [12, 17]);
+
+  // 長いコメントは chunker の maxChars / overlap で part に分かれる（シグネチャは切らない）
+  const long = [
+    "/**",
+    ...Array.from({ length: 6 }, (_, i) => ` * ${"説明".repeat(20)}${i}`),
+    " */",
+    "export const LIMIT = 1;",
+  ].join("\n");
+  const parts = loadDocument(registry, "src/limit.ts", long, {
+    maxChars: 120,
+    overlap: 0,
+  })!;
+  assert.ok(parts.length > 1);
+  assert.ok(parts.every((c) => c.text.length <= 120));
+  assert.deepEqual(
+    parts.map((c) => c.meta.part),
+    parts.map((_, i) => i)
+  );
+  assert.match(parts.at(-1)!.text, /```ts\nexport const LIMIT = 1;\n```$/);
+  assert.equal(parts.at(-1)!.meta.endLine, 9);
+});
+
+test("plain text is chunked without interpreting headings", () => {
+  const chunks = loadDocument(
+    registry,
+    "docs/notes.txt",
+    "# not a heading\n\n本文"
+  )!;
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0]!.meta.heading, "（先頭）");
+  assert.equal(chunks[0]!.text, "# not a heading\n\n本文");
+});
@@ -0,0 +1,120 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  QueryEmbeddingCache,
+  Retriever,
+  type EmbeddingProvider,
+} from "../src/retrieval/index.js";
+
+function counting() {
+  const calls: string[] = [];
+  const compute = (q: string) => async () => {
+    calls.push(q);
+    return [q.length, 1];
+  };
+  return { calls, compute };
+}
+
+test("QueryEmbeddingCache is an LRU keyed by model and normalized query", async () => {
+  const cache = new QueryEmbeddingCache({ maxEntries: 2 });
+  const { calls, compute } = counting();
+
+  await cache.get("m", "認証 方式", compute("a"));
+  // 全角空白・前後の空白は同じクエリとみなす
+  await cache.get("m", " 認証　方式 ", compute("b"));
+  // model が違えば別物
+  await cache.get("other", "認証 方式", compute("c"));
+  await cache.get("m", "レート制限", compute("d"));
+  // maxEntries=2 なので最も古く使われた ("m", "認証 方式") は追い出されている
+  await cache.get("m", "認証 方式", compute("e"));
+
+  assert.deepEqual(calls, ["a", "c", "d", "e"]);
+  assert.deepEqual(cache.stats(), {
+    hits: 1,
+    diskHits: 0,
+    misses: 4,
+    size: 2,
+    maxEntries: 2,
+    dir: null,
+  });
+
+  // 同時に来た同じクエリは 1 回だけ作る。失敗は覚えない
+  const [x, y] = await Promise.all([
+    cache.get("m", "同時", compute("f")),
+    cache.get("m", "同時", compute("g")),
+  ]);
+  assert.equal(x, y);
+  await assert.rejects(
+    cache.get("m", "失敗", async () => {
+      throw new Error("boom");
+    })
+  );
+  await cache.get("m", "失敗", compute("h"));
+  assert.deepEqual(calls, ["a", "c", "d", "e", "f", "h"]);
+});
+
+test("QueryEmbeddingCache persists to disk when a dir is given", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rag-query-cache-"));
+  try {
+    const { calls, compute } = counting();
+    await new QueryEmbeddingCache({ dir }).get("m", "冪等性", compute("a"));
+
+    const reopened = new QueryEmbeddingCache({ dir });
+    assert.deepEqual(await reopened.get("m", "冪等性", compute("b")), [1, 1]);
+    await reopened.get("m", "冪等性", compute("c"));
+    assert.deepEqual(calls, ["a"]);
+    assert.deepEqual(
+      [reopened.stats().diskHits, reopened.stats().hits],
+      [1, 1]
+    );
+
+    // 壊れたファイルは無視して作り直す
+    const [file] = await fs.readdir(dir);
+    await fs.writeFile(path.join(dir, file!), "{", "utf-8");
+    await new QueryEmbeddingCache({ dir }).get("m", "冪等性", compute("d"));
+    assert.deepEqual(calls, ["a", "d"]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("Retriever embeds a repeated query once through its cache", async () => {
+  let embedCalls = 0;
+  const provider: EmbeddingProvider = {
+    model: "fake",
+    embed: async (texts) => {
+      embedCalls += texts.length;
+      return texts.map(() => [1, 0]);
+    },
+  };
+  const index = {
+    model: "fake",
+    chunks: [
+      {
+        id: "a",
+        text: "認証は OAuth",
+        meta: { source: "docs/api.md", heading: "認証", part: 0 },
+        embedding: [1, 0],
+      },
+    ],
+  };
+
+  const cached = new Retriever(index, {
+    provider,
+    queryCache: new QueryEmbeddingCache(),
+  });
+  await cached.search("認証");
+  await cached.search("認証 ");
+  assert.equal(embedCalls, 1);
+  assert.equal(cached.queryCache?.stats().hits, 1);
+
+  // provider を渡しただけならキャッシュしない
+  const uncached = new Retriever(index, { provider });
+  await uncached.search("認証");
+  await uncached.search("認証");
+  assert.equal(embedCalls, 3);
+  assert.equal(uncached.queryCache, null);
+});
@@ -0,0 +1,105 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  GlossaryRewriter,
+  Retriever,
+  expandQuery,
+  expandWithGlossary,
+  parseGlossary,
+  type EmbeddingProvider,
+  type QueryRewriter,
+} from "../src/retrieval/index.js";
+
+const glossary = parseGlossary({
+  version: 1,
+  groups: [
+    { terms: ["OP", "オペレーター"] },
+    { terms: ["SoR", "System of Record", "正"] },
+    { terms: ["管理画面", "admin UI"] },
+  ],
+});
+
+test("expandWithGlossary swaps the longest matching term for each synonym", () => {
+  assert.deepEqual(expandWithGlossary("OP ができる操作", glossary), [
+    "オペレーター ができる操作",
+  ]);
+  // 英数字の語は単語単位（OPTIONS の OP には当たらない）・大文字小文字は無視
+  assert.deepEqual(expandWithGlossary("OPTIONS メソッド", glossary), []);
+  assert.deepEqual(expandWithGlossary("admin ui login", glossary), [
+    "管理画面 login",
+  ]);
+  assert.deepEqual(
+    expandWithGlossary("注文データの System of Record は？", glossary),
+    // 照合のため NFKC に揃えた文で返す（全角の ？ は ? になる）
+    ["注文データの SoR は?", "注文データの 正 は?"]
+  );
+  // 1 文字の語からは置き換えない
+  assert.deepEqual(expandWithGlossary("修正履歴", glossary), []);
+  assert.throws(
+    () => parseGlossary({ version: 1, groups: [{ terms: ["OP"] }] }),
+    /glossary が不正です/
+  );
+});
+
+test("expandQuery keeps the original first, dedupes and survives failing rewriters", async () => {
+  const failing: QueryRewriter = {
+    name: "llm",
+    rewrite: async () => {
+      throw new Error("offline");
+    },
+  };
+  const echo: QueryRewriter = {
+    name: "llm",
+    rewrite: async (q) => [q, ` ${q}`, "login to admin UI", "a", "b"],
+  };
+  const variants = await expandQuery(
+    "管理画面 の 認証",
+    [failing, new GlossaryRewriter(glossary), echo],
+    3
+  );
+  assert.deepEqual(variants, [
+    { query: "管理画面 の 認証", source: "original" },
+    { query: "admin UI の 認証", source: "glossary" },
+    { query: "login to admin UI", source: "llm" },
+  ]);
+});
+
+test("Retriever.search fuses the results of every expansion", async () => {
+  const provider: EmbeddingProvider = {
+    model: "fake",
+    embed: async (texts) =>
+      texts.map((t) => (t.includes("オペレーター") ? [0, 1] : [1, 0])),
+  };
+  const retriever = new Retriever(
+    {
+      model: "fake",
+      chunks: [
+        {
+          id: "docs/api.md::認証::0",
+          text: "OAuth 2.0 Client Credentials",
+          meta: { source: "docs/api.md", heading: "認証", part: 0 },
+          embedding: [1, 0],
+        },
+        {
+          id: "docs/overview.md::ロール::0",
+          text: "オペレーター：注文参照、出荷ステータス更新",
+          meta: { source: "docs/overview.md", heading: "ロール", part: 0 },
+          embedding: [0, 1],
+        },
+      ],
+    },
+    { provider }
+  );
+  const plain = await retriever.search("OP の権限", { topK: 1, alpha: 1 });
+  assert.equal(plain[0]?.chunk.id, "docs/api.md::認証::0");
+
+  const expanded = await retriever.search("OP の権限", {
+    topK: 2,
+    expansions: ["OP の権限", "オペレーター の権限"],
+  });
+  assert.equal(expanded[0]?.chunk.id, "docs/overview.md::ロール::0");
+  assert.deepEqual(
+    expanded.map((h) => h.rank),
+    [1, 2]
+  );
+});
@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  LexicalReranker,
+  Retriever,
+  createReranker,
+  type EmbeddingProvider,
+  type Reranker,
+} from "../src/retrieval/index.js";
+
+const provider: EmbeddingProvider = {
+  model: "fake",
+  embed: async (texts) => texts.map(() => [1, 0]),
+};
+
+const retriever = new Retriever(
+  {
+    model: "fake",
+    chunks: [
+      {
+        id: "docs/faq.md::Q1::0",
+        text: "A. 上限があります。",
+        meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+        embedding: [1, 0],
+      },
+      {
+        id: "docs/api.md::レート制限::0",
+        text: "1 クライアントあたり 100 リクエスト/分。",
+        meta: { source: "docs/api.md", heading: "レート制限", part: 0 },
+        embedding: [0.9, 0.1],
+      },
+      {
+        id: "docs/api.md::認証::0",
+        text: "OAuth 2.0 Client Credentials",
+        meta: { source: "docs/api.md", heading: "認証", part: 0 },
+        embedding: [0.8, 0.2],
+      },
+    ],
+  },
+  { provider }
+);
+
+test("LexicalReranker scores the share of query terms found in heading and text", async () => {
+  const hits = await retriever.search("xyz", { topK: 3, alpha: 1 });
+  const scores = await new LexicalReranker().score("レート制限の上限", hits);
+  // 見出しにだけ出る語（レート制限）も数える
+  assert.ok(scores[1]! > scores[0]!);
+  assert.equal(scores[2], 0);
+  assert.deepEqual(await new LexicalReranker().score("", hits), [0, 0, 0]);
+  assert.throws(() => createReranker("bogus"), /unknown reranker/);
+});
+
+test("Retriever.search reranks the top candidates and keeps the pre-rerank rank", async () => {
+  const before = await retriever.search("レート制限の上限", {
+    topK: 2,
+    alpha: 1,
+  });
+  assert.deepEqual(
+    before.map((h) => h.chunk.id),
+    ["docs/faq.md::Q1::0", "docs/api.md::レート制限::0"]
+  );
+  assert.equal(before[0]?.rerank, undefined);
+
+  const after = await retriever.search("レート制限の上限", {
+    topK: 2,
+    alpha: 1,
+    rerank: new LexicalReranker(),
+  });
+  assert.deepEqual(
+    after.map((h) => [h.chunk.id, h.rank, h.rerank?.preRank]),
+    [
+      ["docs/api.md::レート制限::0", 1, 2],
+      ["docs/faq.md::Q1::0", 2, 1],
+    ]
+  );
+
+  // 候補は max(topK, rerankCandidates) 件だけ採点する
+  const seen: number[] = [];
+  const counting: Reranker = {
+    name: "counting",
+    score: async (_q, hits) => {
+      seen.push(hits.length);
+      return hits.map((h) => -h.rank);
+    },
+  };
+  await retriever.search("q", { topK: 1, rerank: counting });
+  await retriever.search("q", {
+    topK: 2,
+    rerank: counting,
+    rerankCandidates: 1,
+  });
+  assert.deepEqual(seen, [3, 2]);
+});
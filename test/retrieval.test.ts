@@ -0,0 +1,168 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  LocalEmbeddingProvider,
+  Retriever,
+  headingWeight,
+  loadRankingConfig,
+  parseHybridAlpha,
+  parseRankingConfig,
+  providerForModel,
+  tokenize,
+  type EmbeddingProvider,
+  type IndexFile,
+} from "../src/retrieval/index.js";
+
+function fakeProvider(vec: number[]): EmbeddingProvider {
+  return { model: "fake", embed: async (texts) => texts.map(() => vec) };
+}
+
+function fixtureIndex(): IndexFile {
+  return {
+    model: "fake",
+    chunks: [
+      {
+        id: "docs/faq.md::Q1::0",
+        text: "faq",
+        meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+        embedding: [1, 0],
+      },
+      {
+        id: "docs/api.md::レート制限::0",
+        text: "api",
+        meta: { source: "docs/api.md", heading: "レート制限", part: 0 },
+        embedding: [0.9, 0.1],
+      },
+      {
+        id: "docs/overview.md::概要::0",
+        text: "overview",
+        meta: { source: "docs/overview.md", heading: "概要", part: 0 },
+        embedding: [0, 1],
+      },
+    ],
+  };
+}
+
+test("Retriever.search ranks by weighted score with breakdown", async () => {
+  const retriever = new Retriever(fixtureIndex(), {
+    provider: fakeProvider([1, 0]),
+    ranking: await loadRankingConfig(),
+  });
+
+  const hits = await retriever.search("レート制限は？", { topK: 2 });
+
+  assert.equal(hits.length, 2);
+  assert.deepEqual(
+    hits.map((h) => [h.rank, h.chunk.id]),
+    [
+      [1, "docs/api.md::レート制限::0"],
+      [2, "docs/faq.md::Q1::0"],
+    ]
+  );
+
+  const top = hits[0]!;
+  assert.equal(top.breakdown.sourceWeight, 1.35);
+  assert.equal(top.breakdown.headingWeight, 1.25);
+  assert.ok(
+    Math.abs(top.weighted - top.breakdown.cosine * 1.35 * 1.25) < 1e-12
+  );
+});
+
+test("Retriever.getChunk looks up by id", () => {
+  const retriever = new Retriever(fixtureIndex(), {
+    provider: fakeProvider([0, 0]),
+  });
+  assert.equal(retriever.getChunk("docs/faq.md::Q1::0")?.text, "faq");
+  assert.equal(retriever.getChunk("missing"), undefined);
+});
+
+test("LocalEmbeddingProvider is deterministic and round-trips via model name", async () => {
+  const provider = new LocalEmbeddingProvider(256);
+  const [a, b] = await provider.embed(["レート制限", "レート制限"]);
+  assert.deepEqual(a, b);
+  assert.equal(a!.length, 256);
+
+  const restored = providerForModel(provider.model);
+  assert.ok(restored instanceof LocalEmbeddingProvider);
+  assert.equal(restored.model, "local:hashed-ngram:256");
+});
+
+test("Retriever works end to end with the local provider", async () => {
+  const provider = new LocalEmbeddingProvider(512);
+  const docs = [
+    ["docs/api.md", "レート制限", "1クライアントあたり 100 リクエスト/分"],
+    ["docs/architecture.md", "PostgreSQL", "注文データの正は PostgreSQL"],
+    ["docs/faq.md", "Q7", "返金確定は経理ロールのみ実行できる"],
+  ] as const;
+  const embeddings = await provider.embed(docs.map((d) => d[2]));
+  const index: IndexFile = {
+    model: provider.model,
+    chunks: docs.map(([source, heading, text], i) => ({
+      id: `${source}::${heading}::0`,
+      text,
+      meta: { source, heading, part: 0 },
+      embedding: embeddings[i]!,
+    })),
+  };
+
+  const retriever = new Retriever(index);
+  const [top] = await retriever.search("正となるDBは PostgreSQL ですか", {
+    topK: 1,
+  });
+  assert.equal(top?.chunk.meta.heading, "PostgreSQL");
+});
+
+test("tokenize splits identifiers and Japanese bigrams", () => {
+  const tokens = tokenize("409 IDEMPOTENCY_CONFLICT を返す");
+  assert.ok(tokens.includes("409"));
+  assert.ok(tokens.includes("idempotency_conflict"));
+  assert.ok(tokens.includes("conflict"));
+  assert.ok(tokens.includes("返す"));
+});
+
+test("alpha moves the ranking between vector and BM25", async () => {
+  const index = fixtureIndex();
+  index.chunks[2]!.text = "409 IDEMPOTENCY_CONFLICT は冪等性衝突";
+  const retriever = new Retriever(index, { provider: fakeProvider([1, 0]) });
+
+  const vectorOnly = await retriever.search("IDEMPOTENCY_CONFLICT", {
+    alpha: 1,
+  });
+  assert.equal(vectorOnly[0]?.chunk.id, "docs/faq.md::Q1::0");
+  assert.equal(vectorOnly[0]?.breakdown.lexicalRank, null);
+
+  const lexicalOnly = await retriever.search("IDEMPOTENCY_CONFLICT", {
+    alpha: 0,
+  });
+  assert.equal(lexicalOnly[0]?.chunk.id, "docs/overview.md::概要::0");
+  assert.equal(lexicalOnly[0]?.breakdown.lexicalRank, 1);
+  assert.ok(lexicalOnly[0]!.breakdown.bm25 > 0);
+});
+
+test("parseHybridAlpha defaults to 0.7 and rejects values outside 0-1", () => {
+  assert.equal(parseHybridAlpha(undefined), 0.7);
+  assert.equal(parseHybridAlpha(""), 0.7);
+  assert.equal(parseHybridAlpha("0"), 0);
+  assert.equal(parseHybridAlpha(" 0.5 "), 0.5);
+  for (const raw of ["abc", "1.5", "-0.1", "Infinity"]) {
+    assert.throws(() => parseHybridAlpha(raw), /HYBRID_ALPHA は 0〜1/);
+  }
+});
+
+test("ranking.config.json reproduces the heading rules", async () => {
+  const ranking = await loadRankingConfig();
+  assert.equal(headingWeight(ranking, "Q7", "返金確定できるロールは？"), 1.05);
+  assert.equal(headingWeight(ranking, "バックオフ", "リトライ戦略"), 1.25);
+  assert.equal(headingWeight(ranking, "バックオフ", "認証方式"), 1.0);
+});
+
+test("parseRankingConfig rejects invalid weights", () => {
+  assert.throws(
+    () =>
+      parseRankingConfig({
+        version: 1,
+        sourceWeights: { "docs/api.md": -1 },
+      }),
+    /不正/
+  );
+});
@@ -0,0 +1,151 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  NEUTRAL_RANKING,
+  Retriever,
+  applySweepRanking,
+  expandSweep,
+  parseSweepSpace,
+  rankSweepResults,
+  runSweep,
+  type EmbeddingProvider,
+  type RankingConfig,
+} from "../src/retrieval/index.js";
+
+test("expandSweep enumerates the grid and samples a seeded random subset", () => {
+  const space = parseSweepSpace({
+    version: 1,
+    params: {
+      alpha: [0.5, 0.9],
+      sourceWeights: { "docs/api.md": [1, 1.2, 1.5] },
+    },
+  });
+  const grid = expandSweep(space);
+  assert.equal(grid.length, 6);
+  assert.deepEqual(grid[1], {
+    alpha: 0.5,
+    sourceWeights: { "docs/api.md": 1.2 },
+    headingRules: {},
+  });
+
+  const random = { ...space, strategy: "random" as const, trials: 4, seed: 7 };
+  const a = expandSweep(random);
+  assert.equal(a.length, 4);
+  assert.deepEqual(a, expandSweep(random));
+  assert.equal(new Set(a.map((t) => JSON.stringify(t))).size, 4);
+  // 空間より多く頼んでも重複は作らない
+  assert.equal(expandSweep({ ...random, trials: 100 }).length, 6);
+
+  assert.throws(
+    () => parseSweepSpace({ version: 1, params: { alpha: [2] } }),
+    /sweep config が不正です/
+  );
+});
+
+test("applySweepRanking overrides rule weights without touching the base", () => {
+  const base: RankingConfig = {
+    ...NEUTRAL_RANKING,
+    headingRules: [
+      {
+        name: "認証系",
+        whenQueryIncludes: ["認証"],
+        boosts: [
+          { headingIncludes: ["OAuth"], headingStartsWith: [], weight: 1.25 },
+        ],
+      },
+    ],
+  };
+  const ranking = applySweepRanking(base, {
+    sourceWeights: { "docs/faq.md": 0.8 },
+    headingRules: { 認証系: 2 },
+  });
+  assert.equal(ranking.sourceWeights["docs/faq.md"], 0.8);
+  assert.equal(ranking.headingRules[0]?.boosts[0]?.weight, 2);
+  assert.equal(base.headingRules[0]?.boosts[0]?.weight, 1.25);
+  assert.throws(
+    () =>
+      applySweepRanking(base, { sourceWeights: {}, headingRules: { 無い: 1 } }),
+    /headingRules に 無い はありません/
+  );
+});
+
+test("runSweep scores trials and only embeds chunk texts it has not seen", async () => {
+  const embedded: string[] = [];
+  const provider: EmbeddingProvider = {
+    model: "fake",
+    embed: async (texts) => {
+      embedded.push(...texts);
+      return texts.map((t) => (t.includes("OAuth") ? [1, 0] : [0, 1]));
+    },
+  };
+  const retriever = new Retriever(
+    {
+      model: "fake",
+      chunker: { maxChars: 1500, overlap: 150 },
+      chunks: [
+        {
+          id: "docs/faq.md::Q1::0",
+          text: "A. 認証は OAuth です。",
+          meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+          embedding: [1, 0],
+        },
+        {
+          id: "docs/api.md::認証::0",
+          text: "OAuth 2.0 Client Credentials",
+          meta: { source: "docs/api.md", heading: "認証", part: 0 },
+          embedding: [1, 0],
+        },
+      ],
+    },
+    { provider }
+  );
+
+  const results = await runSweep({
+    retriever,
+    questions: ["OAuth の認証方式"],
+    groundTruth: [
+      {
+        index: 1,
+        label: "認証",
+        targets: [{ source: "docs/api.md", headingPath: ["認証"] }],
+      },
+    ],
+    trials: [
+      { topK: 1, sourceWeights: {}, headingRules: {} },
+      { topK: 1, sourceWeights: { "docs/api.md": 2 }, headingRules: {} },
+      {
+        topK: 1,
+        chunker: { maxChars: 200, overlap: 0 },
+        sourceWeights: { "docs/api.md": 2 },
+        headingRules: {},
+      },
+    ],
+    // 小さいチャンク設定では 1 つ目の本文だけ変わる
+    chunk: async () => [
+      {
+        id: "docs/faq.md::Q1::0",
+        text: "A. 認証は OAuth です（短縮）。",
+        meta: { source: "docs/faq.md", heading: "Q1", part: 0 },
+      },
+      {
+        id: "docs/api.md::認証::0",
+        text: "OAuth 2.0 Client Credentials",
+        meta: { source: "docs/api.md", heading: "認証", part: 0 },
+      },
+    ],
+  });
+
+  // クエリ 1 回 + 新しい本文 1 つだけ
+  assert.deepEqual(embedded, [
+    "OAuth の認証方式",
+    "A. 認証は OAuth です（短縮）。",
+  ]);
+  assert.deepEqual(
+    results.map((r) => r.summary.recallAtK),
+    [0, 1, 1]
+  );
+  assert.deepEqual(results[2]?.chunker, { maxChars: 200, overlap: 0 });
+  // 試行中の差し替えは元に戻っている
+  assert.equal(retriever.ranking, NEUTRAL_RANKING);
+  assert.equal(rankSweepResults(results, "recall")[0]?.trial, 2);
+});